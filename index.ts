@@ -1,4 +1,43 @@
 export { default as Rest } from './src/classes/Rest';
 export { default as Web } from './src/classes/Web';
+export { default as Classeviva } from './src/classes/Classeviva';
 
-export { default as Enums } from './src/Enums';
\ No newline at end of file
+export { default as Enums } from './src/Enums';
+
+export { FileSessionStore, MemorySessionStore, NoopSessionStore } from './src/stores/SessionStore';
+export { MemoryStore, JsonFileStore } from './src/stores/KeyValueStore';
+export { SessionStore, KeyValueStore } from './src/typings/Stores';
+export { ClassevivaError, AuthenticationError, NotLoggedInError, ApiError, NetworkError, ParseError } from './src/Errors';
+export { createLogger, silentLogger } from './src/Logger';
+export { Logger, LogLevel } from './src/typings/Logger';
+export { default as RequestPolicy } from './src/RequestPolicy';
+export { default as ResponseCache } from './src/ResponseCache';
+export { ResponseCacheOptions, CacheEntry, CacheRecord } from './src/typings/Cache';
+export { default as CookieJar } from './src/CookieJar';
+export { Cookie, WebSession } from './src/typings/Cookies';
+export { ClassevivaOptions, Backend } from './src/typings/Classeviva';
+export { defaultTransport, RecordingTransport, ReplayTransport } from './src/Transport';
+export { Transport, Fixture } from './src/typings/Transport';
+export { default as MockServer } from './src/mock/MockServer';
+export { default as generateFakeData } from './src/mock/FakeData';
+export * as GradeAnalytics from './src/GradeAnalytics';
+export * as Attendance from './src/Attendance';
+export { AbsenceReport, AttendanceOptions } from './src/typings/Attendance';
+export { schemas, validate, validateList } from './src/Validation';
+export { ValidationIssue, ValidationReport } from './src/typings/Validation';
+export * as ICalendar from './src/ICalendar';
+export * as DateRange from './src/DateRange';
+export { RangePreset, RangeInput } from './src/typings/DateRange';
+export * as Timetable from './src/Timetable';
+export { WeeklyTimetable, TimetableSlot, Substitution } from './src/typings/Timetable';
+export { default as HomeworkPlanner } from './src/HomeworkPlanner';
+export { fromAgenda, fromWebAgenda, normalizeHomework, groupByDue, groupBySubject, prepareFor } from './src/Homework';
+export { Homework, HomeworkAttachment, HomeworkPreparation } from './src/typings/Homework';
+export { default as Watcher } from './src/Watcher';
+export { WatchSource, WatcherEvents } from './src/typings/Watcher';
+export { default as AccountPool } from './src/AccountPool';
+export { PoolAccount, AccountPoolOptions, BatchResult } from './src/typings/Pool';
+export { DownloadResult, BulkDownloadResult } from './src/typings/Download';
+export { NoticeboardFilter, NoticeReplyFile } from './src/typings/Noticeboard';
+export { TeacherSlot, TalkSuggestion } from './src/typings/Talks';
+export { WebMessage, MessageAttachment, RubricaContact, MessagesPage, MessageThread, WebAgendaEvent } from './src/typings/Web';
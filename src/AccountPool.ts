@@ -0,0 +1,245 @@
+import { ClassOptions } from './typings/Rest';
+import { Logger } from './typings/Logger';
+import { PoolAccount, AccountPoolOptions, BatchOptions, AccountResult, AccountFailure, BatchResult, AccountTask } from './typings/Pool';
+import Rest from './classes/Rest';
+import { createLogger, silentLogger } from './Logger';
+import { ClassevivaError, AuthenticationError } from './Errors';
+
+type Session = {
+    client: Rest;
+    ready: Promise<void>;
+    busy: number;
+    usedAt: number;
+};
+
+/**
+ * Holds the credentials of many accounts, each with its own Rest client (and so its own headers, token and session).
+ * Clients log in the first time they are used and at most maxSessions of them stay logged in: when the limit is reached
+ * the least recently used idle one is closed (keeping its saved session), if they are all busy the next account waits for one to be released
+ */
+class AccountPool {
+    readonly maxSessions: number;
+
+    readonly #accounts: Map<string, PoolAccount>;
+    readonly #sessions: Map<string, Session>;
+    readonly #waiting: (() => void)[];
+    readonly #defaults: ClassOptions;
+    readonly #logger: Logger;
+
+    /**
+     * @param {object} [options] Pool options
+     * @param {object[]} [options.accounts] Credentials of the accounts, an id can be given to tell apart accounts with the same username
+     * @param {number} [options.maxSessions] Maximum number of accounts logged in at the same time, defaults to 10
+     * @param {object} [options.defaults] Options of the Rest class shared by every account, e.g. state, sessionStore, requestPolicy or cache
+     * @param {Logger | false} [options.logger] Logger used by the pool and by the clients without their own
+     */
+    constructor({ accounts = [], maxSessions = 10, defaults = {}, logger = createLogger() }: AccountPoolOptions = {}) {
+        this.maxSessions = Math.max(1, maxSessions);
+
+        this.#accounts = new Map();
+        this.#sessions = new Map();
+        this.#waiting = [];
+        this.#defaults = defaults;
+        this.#logger = logger || silentLogger;
+        accounts.forEach(account => this.add(account));
+    }
+
+    /**
+     * Ids of the accounts, in the order they were added
+     */
+    get ids(): string[] {
+        return [...this.#accounts.keys()];
+    }
+
+    /**
+     * Number of accounts
+     */
+    get size(): number {
+        return this.#accounts.size;
+    }
+
+    /**
+     * Number of accounts logged in or logging in
+     */
+    get active(): number {
+        return this.#sessions.size;
+    }
+
+    /**
+     * Adds an account, it logs in the first time it's used
+     * @param {object} account Credentials and Rest options of the account
+     * @returns {string} The id of the account, its username if no id was given
+     * @throws {ClassevivaError} If an account with the same id already exists
+     */
+    add(account: PoolAccount): string {
+        const id = account.id ?? account.username;
+        if (this.#accounts.has(id)) throw new ClassevivaError(`Account "${id}" already added`);
+
+        this.#accounts.set(id, account);
+        return id;
+    }
+
+    /**
+     * Logs out and removes an account. If the account is in use it's logged out once released
+     * @param {string} id Id of the account
+     * @returns {boolean} true if the account existed
+     */
+    remove(id: string): boolean {
+        if (!this.#accounts.delete(id)) return false;
+
+        const session = this.#sessions.get(id);
+        if (session && session.busy === 0) this.#close(id, session, true);
+        return true;
+    }
+
+    /**
+     * Runs a function with the logged in client of an account
+     * @param {string} id Id of the account
+     * @param {Function} task Receives the client and the id of the account
+     * @returns {Promise<any>} What the function returns
+     * @throws {ClassevivaError} If the account doesn't exist, or the error of the login or of the function
+     */
+    async use<T>(id: string, task: AccountTask<T>): Promise<T> {
+        const client = await this.#acquire(id);
+        try {
+            return await task(client, id);
+        } finally {
+            this.#release(id);
+        }
+    }
+
+    /**
+     * Runs a function for every account, a few at a time. A failing account doesn't stop the others
+     * @param {Function} task Receives the client and the id of the account
+     * @param {object} [options] Batch options
+     * @param {number} [options.concurrency] Accounts processed at the same time, defaults to maxSessions
+     * @param {string[]} [options.ids] Only these accounts, defaults to all of them
+     * @returns {object} The results and the failures, in the order of the accounts
+     */
+    async forEachAccount<T>(task: AccountTask<T>, { concurrency = this.maxSessions, ids = this.ids }: BatchOptions = {}): Promise<BatchResult<T>> {
+        const outcomes: (AccountResult<T> | AccountFailure)[] = new Array(ids.length);
+        let next = 0;
+
+        const worker = async () => {
+            while (next < ids.length) {
+                const index = next++;
+                const id = ids[index];
+                try {
+                    outcomes[index] = { id, value: await this.use(id, task) };
+                } catch (e: unknown) {
+                    const error = e instanceof Error ? e : new ClassevivaError(String(e));
+                    this.#logger.warn(`Account "${id}" failed ⚠️ (${error.message})`);
+                    outcomes[index] = { id, error };
+                }
+            }
+        };
+        await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, ids.length)) }, worker));
+
+        return {
+            results: outcomes.filter((outcome): outcome is AccountResult<T> => "value" in outcome),
+            failures: outcomes.filter((outcome): outcome is AccountFailure => "error" in outcome),
+        };
+    }
+
+    /**
+     * Logs out every idle account, the busy ones are logged out once released
+     * @returns {number} The number of accounts logged out
+     */
+    logoutAll(): number {
+        const idle = [...this.#sessions].filter(([, session]) => session.busy === 0);
+        idle.forEach(([id, session]) => this.#close(id, session, true));
+        return idle.length;
+    }
+
+    /**
+     * @private Gets the client of an account, logging it in if needed and waiting for a free session if the pool is full
+     * @param {string} id Id of the account
+     * @returns {Rest} The logged in client
+     */
+    async #acquire(id: string): Promise<Rest> {
+        for (;;) {
+            const account = this.#accounts.get(id);
+            if (!account) throw new ClassevivaError(`Unknown account "${id}"`);
+
+            const session = this.#sessions.get(id);
+            if (session) {
+                session.busy++;
+                session.usedAt = Date.now();
+                await session.ready.catch((e: unknown) => {
+                    this.#release(id);
+                    throw e;
+                });
+                return session.client;
+            }
+
+            if (this.#sessions.size >= this.maxSessions) {
+                const idle = [...this.#sessions]
+                .filter(([, session]) => session.busy === 0)
+                .sort(([, a], [, b]) => a.usedAt - b.usedAt)[0];
+
+                if (idle) this.#close(...idle);
+                else await new Promise<void>(resolve => this.#waiting.push(resolve));
+                continue;
+            }
+
+            this.#sessions.set(id, this.#open(id, account));
+        }
+    }
+
+    /**
+     * @private Creates the client of an account and starts its login, a failed login frees the session
+     * @param {string} id Id of the account
+     * @param {object} account The account
+     * @returns {object} The session
+     */
+    #open(id: string, account: PoolAccount): Session {
+        const { id: _, ...options } = account;
+        const client = new Rest({ logger: this.#logger, ...this.#defaults, ...options });
+
+        const session: Session = { client, busy: 0, usedAt: Date.now(), ready: Promise.resolve() };
+        session.ready = client.login().then(() => {
+            if (!client.authorized) throw new AuthenticationError(`Could not log in "${id}"`);
+        }).catch((e: unknown) => {
+            if (this.#sessions.get(id) === session) this.#sessions.delete(id);
+            this.#wake();
+            throw e;
+        });
+        session.ready.catch(() => undefined);
+        return session;
+    }
+
+    /**
+     * @private Releases the client of an account, logging it out if the account has been removed
+     * @param {string} id Id of the account
+     */
+    #release(id: string): void {
+        const session = this.#sessions.get(id);
+        if (!session) return this.#wake();
+
+        session.busy = Math.max(0, session.busy - 1);
+        if (session.busy === 0 && !this.#accounts.has(id)) this.#close(id, session, true);
+        else this.#wake();
+    }
+
+    /**
+     * @private Closes an idle session and frees its place. An evicted session only stops refreshing its token, so its saved session is restored the next time it's used
+     * @param {string} id Id of the account
+     * @param {object} session The session
+     * @param {boolean} [logout] Log out, deleting the saved session too
+     */
+    #close(id: string, session: Session, logout: boolean = false): void {
+        this.#sessions.delete(id);
+        if (logout && session.client.authorized) session.client.logout();
+        else session.client.close();
+        this.#wake();
+    }
+
+    /**
+     * @private Lets the next waiting account try again
+     */
+    #wake(): void {
+        this.#waiting.shift()?.();
+    }
+}
+
+export default AccountPool;
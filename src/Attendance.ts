@@ -0,0 +1,132 @@
+import { absences, calendarDay, Period } from './typings/Rest';
+import { AbsenceKind, AttendanceOptions, AbsenceTotals, PeriodAbsences, AbsenceReport, AttendanceStatus } from './typings/Attendance';
+import { formatDay } from './DateRange';
+
+/**
+ * Kind of an absence event from its evtCode: ABA absence, ABR late entry, ABU early exit
+ * @param {object} event The event, from getAbsences()
+ * @returns {string | undefined} "absence", "late", "earlyExit" or undefined for unknown codes
+ */
+function kindOf(event: absences): AbsenceKind | undefined {
+    if (event.evtCode.startsWith("ABA")) return "absence";
+    if (event.evtCode.startsWith("ABR")) return "late";
+    if (event.evtCode.startsWith("ABU")) return "earlyExit";
+    return undefined;
+}
+
+/**
+ * School hours missed because of an event. Absences take the whole day, late entries and early exits use evtValue,
+ * or the hours before evtHPos (late entries) and after it (early exits) when evtValue is missing
+ * @param {object} event The event, from getAbsences()
+ * @param {number} [hoursPerDay] School hours of a day, defaults to 6
+ * @returns {number} The hours missed
+ */
+function hoursMissed(event: absences, hoursPerDay: number = 6): number {
+    const kind = kindOf(event);
+    if (kind === "absence") return hoursPerDay;
+    if (!kind) return 0;
+    if (typeof event.evtValue === "number") return event.evtValue;
+    if (typeof event.evtHPos !== "number") return 0;
+    return Math.max(0, kind === "late" ? event.evtHPos - 1 : hoursPerDay - event.evtHPos);
+}
+
+/**
+ * Days, hours, late entries, early exits and unjustified events. A day with an absence counts its hours once
+ * @param {object[]} events The events, from getAbsences()
+ * @param {number} [hoursPerDay] School hours of a day, defaults to 6
+ * @returns {object} The totals
+ */
+function totals(events: absences[], hoursPerDay: number = 6): AbsenceTotals {
+    const days = new Set(events.filter(event => kindOf(event) === "absence").map(event => event.evtDate));
+    const partial = events.filter(event => kindOf(event) !== "absence" && !days.has(event.evtDate));
+    return {
+        days: days.size,
+        hours: days.size * hoursPerDay + partial.reduce((sum, event) => sum + hoursMissed(event, hoursPerDay), 0),
+        lates: events.filter(event => kindOf(event) === "late").length,
+        earlyExits: events.filter(event => kindOf(event) === "earlyExit").length,
+        unjustified: events.filter(event => kindOf(event) && !event.isJustified).length,
+    };
+}
+
+/**
+ * Totals of every period
+ * @param {object[]} events The events, from getAbsences()
+ * @param {object[]} periods The periods, from getPeriods()
+ * @param {number} [hoursPerDay] School hours of a day, defaults to 6
+ * @returns {object[]} The totals, sorted by period. Events outside every period are left out
+ */
+function byPeriod(events: absences[], periods: Period[], hoursPerDay: number = 6): PeriodAbsences[] {
+    return [...periods]
+    .sort((a, b) => a.periodPos - b.periodPos)
+    .map(period => ({
+        periodPos: period.periodPos,
+        periodDesc: period.periodDesc,
+        dateStart: period.dateStart,
+        dateEnd: period.dateEnd,
+        ...totals(events.filter(event => event.evtDate >= period.dateStart && event.evtDate <= period.dateEnd), hoursPerDay),
+    }));
+}
+
+/**
+ * Events that still have to be justified
+ * @param {object[]} events The events, from getAbsences()
+ * @returns {object[]} The unjustified events, oldest first
+ */
+function pending(events: absences[]): absences[] {
+    return events
+    .filter(event => kindOf(event) && !event.isJustified)
+    .sort((a, b) => a.evtDate.localeCompare(b.evtDate));
+}
+
+/**
+ * Full report of the school year: totals per period, pending justifications and the share of school hours missed.
+ * The school hours come from the school days (status "SD") of the calendar, the yearly percentage is the one the 25% limit applies to,
+ * the status turns to "warning" when the percentage so far reaches warnAt, as keeping that pace would get close to the limit
+ * @param {object[]} events The events, from getAbsences()
+ * @param {object[]} periods The periods, from getPeriods()
+ * @param {object[]} calendar The calendar, from getCalendar()
+ * @param {object} [options] Report options
+ * @param {number} [options.hoursPerDay] School hours of a day, defaults to 6
+ * @param {number} [options.threshold] Share of the hours that can be missed, defaults to 0.25
+ * @param {number} [options.warnAt] Share of the hours so far that turns the status to "warning", defaults to 0.2
+ * @param {Date} [options.today] Date used to count the hours so far, defaults to now
+ * @returns {object} The report
+ */
+function report(events: absences[], periods: Period[], calendar: calendarDay[], { hoursPerDay = 6, threshold = 0.25, warnAt = 0.2, today = new Date() }: AttendanceOptions = {}): AbsenceReport {
+    const schoolDays = calendar.filter(day => day.status === "SD");
+    const todayDate = formatDay(today);
+    const schoolHours = schoolDays.length * hoursPerDay;
+    const elapsedHours = schoolDays.filter(day => day.dayDate <= todayDate).length * hoursPerDay;
+
+    const all = totals(events, hoursPerDay);
+    const allowedHours = Math.floor(schoolHours * threshold);
+    const percentage = elapsedHours > 0 ? all.hours / elapsedHours : 0;
+    const yearPercentage = schoolHours > 0 ? all.hours / schoolHours : 0;
+
+    let status: AttendanceStatus = "ok";
+    if (schoolHours > 0 && all.hours > allowedHours) status = "exceeded";
+    else if (percentage >= warnAt || schoolHours > 0 && yearPercentage >= warnAt) status = "warning";
+
+    return {
+        totals: all,
+        periods: byPeriod(events, periods, hoursPerDay),
+        pending: pending(events),
+        schoolDays: schoolDays.length,
+        schoolHours,
+        elapsedHours,
+        percentage,
+        yearPercentage,
+        allowedHours,
+        remainingHours: Math.max(0, allowedHours - all.hours),
+        status,
+    };
+}
+
+export {
+    kindOf,
+    hoursMissed,
+    totals,
+    byPeriod,
+    pending,
+    report,
+};
@@ -0,0 +1,358 @@
+#!/usr/bin/env node
+import { promises as fs } from 'fs';
+import { homedir } from 'os';
+import { join, resolve, basename } from 'path';
+import Rest from './classes/Rest';
+import Web from './classes/Web';
+import { FileSessionStore } from './stores/SessionStore';
+import { exportICS } from './ICalendar';
+import { AgendaFilter, Grade, AgendaEvent, absences, NoticeboardItem, Document } from './typings/Rest';
+import { CliConfig, CliContext, CliArgs, CliFlags, CliResult } from './typings/Cli';
+import * as Enums from './Enums';
+
+const usage = `Usage: classeviva <command> [options]
+
+Commands:
+  login                            Logs in and saves the session
+  logout                           Forgets the saved session
+  grades                           Lists the grades
+  agenda [--from] [--to] [--filter all|homework|other]
+                                   Lists the agenda, defaults to the next 7 days
+  absences                         Lists absences, lates and early exits
+  notices                          Lists the noticeboard
+  notice read <pubId>              Prints a notice and marks it as read
+  documents                        Lists the documents
+  documents download <hash> [--out <file or directory>]
+                                   Saves a document, defaults to the current directory
+  messages                         Lists the latest messages
+  export ics [--from] [--to] [--out <file>]
+                                   Exports agenda, lessons and holidays as iCalendar, defaults to the next 30 days
+
+Options:
+  --json                           Prints json instead of a table
+  --state <state>                  ${Object.keys(Enums.States).join(", ")} (or their codes), defaults to Italy
+  --app <app>                      ${Object.keys(Enums.Apps).join(", ")}, defaults to Students
+  --config <file>                  Config file, defaults to ~/.classeviva.json
+  --help                           Prints this message
+
+Credentials are read from CLASSEVIVA_USERNAME and CLASSEVIVA_PASSWORD, or from the
+"username" and "password" keys of the config file.`;
+
+/**
+ * Parses the command line arguments, "--flag value", "--flag=value" and boolean "--flag" are supported
+ * @param {string[]} argv The arguments, without node and the script path
+ * @returns {object} The positional arguments and the flags
+ */
+function parseArgs(argv: string[]): CliArgs {
+    const booleans = ["json", "help"];
+    const positionals: string[] = [];
+    const flags: CliFlags = {};
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        if (!arg.startsWith("--")) {
+            positionals.push(arg);
+            continue;
+        }
+
+        const [name, value] = arg.slice(2).split(/=(.*)/s);
+        if (value !== undefined) flags[name] = value;
+        else if (booleans.includes(name) || argv[i + 1] === undefined || argv[i + 1].startsWith("--")) flags[name] = true;
+        else flags[name] = argv[++i];
+    }
+
+    return { positionals, flags };
+}
+
+/**
+ * Reads the config file and overrides it with the environment variables
+ * @param {object} flags The command line flags
+ * @param {object} context The cli context
+ * @returns {object} The config
+ * @throws {Error} If a config file passed explicitly can't be read
+ */
+async function loadConfig(flags: CliFlags, { env, cwd }: CliContext): Promise<CliConfig> {
+    const explicit = typeof flags.config === "string" ? flags.config : env.CLASSEVIVA_CONFIG;
+    const path = explicit ? resolve(cwd, explicit) : join(homedir(), ".classeviva.json");
+
+    let config: CliConfig = {};
+    try {
+        config = JSON.parse(await fs.readFile(path, "utf8"));
+    } catch (e: unknown) {
+        if (explicit) throw new Error(`Could not read the config file "${path}"`);
+    }
+
+    return {
+        ...config,
+        username: env.CLASSEVIVA_USERNAME || config.username,
+        password: env.CLASSEVIVA_PASSWORD || config.password,
+        state: option(flags.state) ?? env.CLASSEVIVA_STATE ?? config.state,
+        app: option(flags.app) ?? env.CLASSEVIVA_APP ?? config.app,
+    };
+}
+
+/**
+ * Resolves an enum member from its name (case insensitive) or its value
+ * @param {string | undefined} value The name or the value
+ * @param {object} values The enum
+ * @param {string} name Name of the option, used in the error message
+ * @returns {string | undefined} The value of the member
+ * @throws {Error} If the value is not a member of the enum
+ */
+function resolveEnum(value: string | undefined, values: { [key: string]: string }, name: string): string | undefined {
+    if (!value) return undefined;
+
+    const key = Object.keys(values).find(key => key.toLowerCase() === value.toLowerCase());
+    if (key) return values[key];
+    if (Object.values(values).includes(value.toUpperCase())) return value.toUpperCase();
+    if (Object.values(values).includes(value)) return value;
+    throw new Error(`Invalid ${name} "${value}", use one of: ${Object.keys(values).join(", ")}`);
+}
+
+/**
+ * Formats rows as a text table
+ * @param {object[]} rows The rows
+ * @param {Array[]} columns Header and getter of every column
+ * @returns {string} The table
+ */
+function table<T>(rows: T[], columns: CliResult<T>["columns"] = []): string {
+    if (!rows.length) return "Nothing to show";
+
+    const cells = rows.map(row => columns.map(([, value]) => {
+        const text = String(value(row) ?? "").replace(/\s+/g, " ").trim();
+        return text.length > 60 ? `${text.slice(0, 59)}…` : text;
+    }));
+    const widths = columns.map(([header], i) => Math.max(header.length, ...cells.map(row => row[i].length)));
+    const line = (values: string[]) => values.map((value, i) => value.padEnd(widths[i])).join("  ").trimEnd();
+
+    return [
+        line(columns.map(([header]) => header)),
+        line(widths.map(width => "-".repeat(width))),
+        ...cells.map(line),
+    ].join("\n");
+}
+
+/**
+ * Parses a YYYY-MM-DD date, in local time
+ * @param {string | boolean | undefined} value The flag value
+ * @param {Date} fallback Used when the flag is missing
+ * @returns {Date} The date
+ * @throws {Error} If the date is not valid
+ */
+function parseDate(value: string | boolean | undefined, fallback: Date): Date {
+    if (typeof value !== "string") return fallback;
+
+    const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+    const date = match ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : new Date(NaN);
+    if (isNaN(date.getTime())) throw new Error(`Invalid date "${value}", use YYYY-MM-DD`);
+    return date;
+}
+
+function addDays(date: Date, days: number): Date {
+    const copy = new Date(date);
+    copy.setDate(copy.getDate() + days);
+    return copy;
+}
+
+function option(value: string | boolean | undefined): string | undefined {
+    return typeof value === "string" ? value : undefined;
+}
+
+/**
+ * Runs a command, nothing is printed to the console directly so it can be embedded or tested
+ * @param {string[]} argv The arguments, without node and the script path
+ * @param {object} [context] Where to write the output, the environment and the working directory
+ * @returns {number} The exit code
+ */
+async function run(argv: string[], context: CliContext = { stdout: process.stdout, stderr: process.stderr, env: process.env, cwd: process.cwd() }): Promise<number> {
+    const { positionals: [command, ...args], flags } = parseArgs(argv);
+    if (!command || flags.help || command === "help") {
+        context.stdout.write(`${usage}\n`);
+        return command || flags.help ? 0 : 1;
+    }
+
+    try {
+        const config = await loadConfig(flags, context);
+        const state = resolveEnum(config.state, { ...Enums.States }, "state") ?? Enums.States.Italy;
+        const app = resolveEnum(config.app, { ...Enums.Apps }, "app") ?? Enums.Apps.Students;
+        if (!config.username || (!config.password && command !== "logout")) throw new Error("Missing credentials, set CLASSEVIVA_USERNAME and CLASSEVIVA_PASSWORD or use a config file");
+
+        const rest = new Rest({
+            username: config.username,
+            password: config.password,
+            state,
+            app,
+            baseUrl: config.baseUrl,
+            logger: false,
+            sessionStore: new FileSessionStore(config.sessionDirectory ? { directory: resolve(context.cwd, config.sessionDirectory) } : {}),
+        });
+
+        const result = await execute(command, args, flags, { rest, config, state, context });
+        if (typeof result === "string") context.stdout.write(`${result}\n`);
+        else if (flags.json) context.stdout.write(`${JSON.stringify(result.data, null, 2)}\n`);
+        else context.stdout.write(`${result.text ?? table(result.data, result.columns)}\n`);
+        return 0;
+    } catch (e: unknown) {
+        context.stderr.write(`${e instanceof Error ? e.message : String(e)}\n`);
+        return 1;
+    }
+}
+
+/**
+ * @private Runs a single command
+ * @param {string} command The command
+ * @param {string[]} args The positional arguments after the command
+ * @param {object} flags The command line flags
+ * @param {object} env The client, the config and the cli context
+ * @returns {string | object} A message or the data to print
+ * @throws {Error} If the command is unknown or fails
+ */
+async function execute(command: string, args: string[], flags: CliFlags, { rest, config, state, context }: { rest: Rest, config: CliConfig, state: string, context: CliContext }): Promise<string | CliResult> {
+    const today = new Date();
+
+    if (command === "logout") {
+        await rest.forgetSession();
+        return "Logged out";
+    }
+
+    await rest.login();
+
+    switch (`${command} ${args[0] ?? ""}`.trim()) {
+        case "login":
+            return flags.json ? { data: rest.user } : `Logged in as ${rest.user.name} ${rest.user.surname} (${rest.user.ident})`;
+
+        case "grades": {
+            const grades = await rest.getGrades();
+            return {
+                data: grades,
+                columns: [
+                    ["Date", (grade: Grade) => grade.evtDate],
+                    ["Subject", (grade: Grade) => grade.subjectDesc],
+                    ["Grade", (grade: Grade) => grade.canceled ? `(${grade.displayValue})` : grade.displayValue],
+                    ["Type", (grade: Grade) => grade.componentDesc],
+                    ["Period", (grade: Grade) => grade.periodDesc],
+                    ["Notes", (grade: Grade) => grade.notesForFamily],
+                ],
+            };
+        }
+
+        case "agenda": {
+            const filter = option(flags.filter) ?? "all";
+            const from = parseDate(flags.from, today);
+            const agenda = await rest.getAgenda(filter as AgendaFilter, from, parseDate(flags.to, addDays(from, 6)));
+            return {
+                data: agenda,
+                columns: [
+                    ["Date", (event: AgendaEvent) => event.evtDatetimeBegin.slice(0, 10)],
+                    ["Type", (event: AgendaEvent) => event.evtCode === "AGHW" ? "Homework" : "Note"],
+                    ["Subject", (event: AgendaEvent) => event.subjectDesc],
+                    ["Teacher", (event: AgendaEvent) => event.authorName],
+                    ["Notes", (event: AgendaEvent) => event.notes],
+                ],
+            };
+        }
+
+        case "absences": {
+            const types: { [code: string]: string } = { ABA0: "Absence", ABR0: "Late", ABR1: "Short late", ABU0: "Early exit" };
+            return {
+                data: await rest.getAbsences(),
+                columns: [
+                    ["Date", (absence: absences) => absence.evtDate],
+                    ["Type", (absence: absences) => types[absence.evtCode] ?? absence.evtCode],
+                    ["Hour", (absence: absences) => absence.evtHPos],
+                    ["Justified", (absence: absences) => absence.isJustified ? "yes" : "no"],
+                    ["Reason", (absence: absences) => absence.justifReasonDesc],
+                ],
+            };
+        }
+
+        case "notices":
+            return {
+                data: await rest.getNoticeboard(),
+                columns: [
+                    ["Id", (notice: NoticeboardItem) => notice.pubId],
+                    ["Date", (notice: NoticeboardItem) => notice.pubDT.slice(0, 10)],
+                    ["Read", (notice: NoticeboardItem) => notice.readStatus ? "yes" : "no"],
+                    ["Category", (notice: NoticeboardItem) => notice.cntCategory],
+                    ["Title", (notice: NoticeboardItem) => notice.cntTitle],
+                ],
+            };
+
+        case "notice read": {
+            const notice = (await rest.getNoticeboard()).find(notice => `${notice.pubId}` === args[1]);
+            if (!notice) throw new Error(`Notice "${args[1] ?? ""}" not found`);
+
+            const read = await rest.readNotice(notice.evtCode, notice.pubId);
+            const item = "item" in read ? read.item : { title: notice.cntTitle, text: "" };
+            return { data: read, text: [item.title || notice.cntTitle, "", item.text].join("\n").trimEnd() };
+        }
+
+        case "documents": {
+            const { documents } = await rest.getDocuments();
+            return {
+                data: documents,
+                columns: [
+                    ["Hash", (document: Document) => document.hash],
+                    ["Description", (document: Document) => document.desc],
+                ],
+            };
+        }
+
+        case "documents download": {
+            if (!args[1]) throw new Error("Missing the hash of the document");
+
+            const file = await rest.downloadDocument(args[1], resolve(context.cwd, option(flags.out) ?? "."));
+            if (!file) throw new Error(`Could not download "${args[1]}"`);
+            return flags.json ? { data: file } : `${file.skipped ? "Already downloaded" : "Saved"} ${file.filename} (${file.size} bytes)`;
+        }
+
+        case "messages": {
+            const web = new Web({ cid: "", uid: config.username, pwd: config.password, pin: "", target: "" }, {
+                logger: false,
+                baseUrl: config.baseUrl ?? `https://${Enums.Urls[state]}`,
+            });
+            await web.login();
+
+            type Message = { dinsert: string, senderName: string, msgSubject: string, read: boolean };
+            return {
+                data: await web.getMessages(),
+                columns: [
+                    ["Date", (message: Message) => message.dinsert],
+                    ["From", (message: Message) => message.senderName],
+                    ["Read", (message: Message) => message.read ? "yes" : "no"],
+                    ["Subject", (message: Message) => message.msgSubject],
+                ],
+            };
+        }
+
+        case "export ics": {
+            const from = parseDate(flags.from, today);
+            const to = parseDate(flags.to, addDays(from, 29));
+            const ics = exportICS({
+                agenda: await rest.getAgenda("all", from, to),
+                lessons: await rest.getLessons(false, from, to),
+                calendar: await rest.getCalendar(),
+            });
+
+            const out = option(flags.out);
+            if (!out) return { data: ics, text: ics.trimEnd() };
+            await fs.writeFile(resolve(context.cwd, out), ics);
+            return `Saved ${basename(out)}`;
+        }
+
+        default:
+            throw new Error(`Unknown command "${[command, ...args].join(" ")}", run "classeviva --help" for the list of commands`);
+    }
+}
+
+if (require.main === module) {
+    run(process.argv.slice(2)).then(code => {
+        process.exitCode = code;
+    });
+}
+
+export {
+    run,
+    parseArgs,
+    table,
+};
@@ -0,0 +1,144 @@
+import { Cookie } from "./typings/Cookies";
+
+/**
+ * Keeps the cookies of a single site, enough for the web session of Classeviva
+ */
+class CookieJar {
+  readonly #cookies: Map<string, Cookie>;
+
+  /**
+   * @param {Cookie[]} [cookies] Cookies to start with, e.g. from toJSON()
+   */
+  constructor(cookies: Cookie[] = []) {
+    this.#cookies = new Map();
+    cookies.forEach((cookie) => this.#cookies.set(key(cookie), cookie));
+  }
+
+  /**
+   * Number of cookies that are not expired
+   */
+  get size(): number {
+    return this.#valid().length;
+  }
+
+  /**
+   * Stores every cookie of the Set-Cookie headers of a response, expired or emptied cookies are removed
+   * @param {string[]} headers The Set-Cookie headers, one per cookie
+   * @param {Date} [now] Time used to compute Max-Age
+   * @returns {void}
+   */
+  setCookies(headers: string[], now: Date = new Date()): void {
+    for (const header of headers) {
+      const [pair, ...attributes] = header.split(";");
+      const index = pair.indexOf("=");
+      if (index <= 0) continue;
+
+      const cookie: Cookie = {
+        name: pair.slice(0, index).trim(),
+        value: pair.slice(index + 1).trim(),
+        path: "/",
+      };
+
+      for (const attribute of attributes) {
+        const [key, ...rest] = attribute.split("=");
+        const value = rest.join("=").trim();
+        switch (key.trim().toLowerCase()) {
+          case "path":
+            cookie.path = value.startsWith("/") ? value : "/";
+            break;
+          case "domain":
+            if (value) cookie.domain = value.replace(/^\./, "").toLowerCase();
+            break;
+          case "expires": {
+            const date = new Date(value);
+            if (!isNaN(date.getTime()) && !cookie.expires) cookie.expires = date.toISOString();
+            break;
+          }
+          case "max-age":
+            // Max-Age wins over Expires
+            cookie.expires = new Date(now.getTime() + Number(value) * 1000).toISOString();
+            break;
+        }
+      }
+
+      if (!cookie.value || (cookie.expires && new Date(cookie.expires) <= now)) this.#cookies.delete(key(cookie));
+      else this.#cookies.set(key(cookie), cookie);
+    }
+  }
+
+  /**
+   * Gets the value of a cookie
+   * @param {string} name Name of the cookie
+   * @returns {string | undefined} The value, undefined if missing or expired
+   */
+  get(name: string): string | undefined {
+    return this.#valid().find((cookie) => cookie.name === name)?.value;
+  }
+
+  /**
+   * Builds the Cookie header of a request, the cookies with the longest paths come first
+   * @param {string} [path] Path of the request, only the cookies whose path matches it are sent
+   * @param {string} [host] Host of the request, cookies set for another domain are not sent
+   * @returns {string} The header value, empty if there are no cookies
+   */
+  header(path: string = "/", host?: string): string {
+    return this.#valid()
+      .filter((cookie) => pathMatch(path, cookie.path) && (!host || !cookie.domain || domainMatch(host.toLowerCase(), cookie.domain)))
+      .sort((a, b) => b.path.length - a.path.length)
+      .map(({ name, value }) => `${name}=${value}`)
+      .join("; ");
+  }
+
+  /**
+   * Removes every cookie
+   * @returns {void}
+   */
+  clear(): void {
+    this.#cookies.clear();
+  }
+
+  /**
+   * @returns {Cookie[]} The cookies that are not expired, to be saved and passed back to the constructor
+   */
+  toJSON(): Cookie[] {
+    return this.#valid().map((cookie) => ({ ...cookie }));
+  }
+
+  #valid(): Cookie[] {
+    const now = new Date();
+    return [...this.#cookies.values()].filter((cookie) => !cookie.expires || new Date(cookie.expires) > now);
+  }
+}
+
+/**
+ * @private Identifies a cookie, cookies with the same name but another domain or path are different cookies
+ * @param {Cookie} cookie The cookie
+ * @returns {string} The key of the cookie
+ */
+function key({ name, domain = "", path }: Cookie): string {
+  return `${name};${domain};${path}`;
+}
+
+/**
+ * @private Path-match of RFC 6265 (5.1.4), "/home" matches "/home" and "/home/x" but not "/homework"
+ * @param {string} path Path of the request
+ * @param {string} cookiePath Path of the cookie
+ * @returns {boolean} true if the cookie can be sent to the path
+ */
+function pathMatch(path: string, cookiePath: string): boolean {
+  if (path === cookiePath) return true;
+  if (!path.startsWith(cookiePath)) return false;
+  return cookiePath.endsWith("/") || path[cookiePath.length] === "/";
+}
+
+/**
+ * @private Domain-match of RFC 6265 (5.1.3)
+ * @param {string} host Host of the request, lower case
+ * @param {string} domain Domain of the cookie, lower case
+ * @returns {boolean} true if the cookie can be sent to the host
+ */
+function domainMatch(host: string, domain: string): boolean {
+  return host === domain || host.endsWith(`.${domain}`);
+}
+
+export default CookieJar;
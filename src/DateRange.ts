@@ -0,0 +1,192 @@
+import { Period } from './typings/Rest';
+import { DateRange, RangePreset, PresetOptions } from './typings/DateRange';
+
+const presets: RangePreset[] = ["today", "thisWeek", "nextWeek", "thisPeriod", "schoolYear"];
+
+/**
+ * Year the school year of a date starts in: school years go from September to August
+ * @param {Date} [date] The date, defaults to today
+ * @returns {number} e.g. 2022 for every date from 2022-09-01 to 2023-08-31
+ */
+function schoolYearOf(date: Date = new Date()): number {
+    return date.getMonth() >= 8 ? date.getFullYear() : date.getFullYear() - 1;
+}
+
+/**
+ * School year of a date, from the 1st of September to the 31st of August
+ * @param {Date} [date] The date, defaults to today
+ * @returns {object} The range
+ */
+function schoolYear(date: Date = new Date()): DateRange {
+    const year = schoolYearOf(date);
+    return { start: new Date(year, 8, 1), end: new Date(year + 1, 7, 31) };
+}
+
+/**
+ * Week of a date, from Monday to Sunday
+ * @param {Date} [date] The date, defaults to today
+ * @param {number} [offset] Weeks to move by, e.g. 1 for the next week
+ * @returns {object} The range
+ */
+function week(date: Date = new Date(), offset: number = 0): DateRange {
+    const start = day(date);
+    start.setDate(start.getDate() - (start.getDay() + 6) % 7 + offset * 7);
+    const end = new Date(start);
+    end.setDate(end.getDate() + 6);
+    return { start, end };
+}
+
+/**
+ * Period a date belongs to
+ * @param {object[]} periods The periods, from getPeriods()
+ * @param {Date} [date] The date, defaults to today
+ * @returns {object | undefined} The range of the period, undefined if the date is outside every period
+ */
+function periodOf(periods: Period[], date: Date = new Date()): DateRange | undefined {
+    const today = formatDay(date);
+    const period = periods.find(({ dateStart, dateEnd }) => dateStart <= today && today <= dateEnd);
+    return period ? { start: parseDay(period.dateStart), end: parseDay(period.dateEnd) } : undefined;
+}
+
+/**
+ * Range of a preset: "today", "thisWeek", "nextWeek", "thisPeriod" (the school year when outside every period) or "schoolYear"
+ * @param {string} preset The preset
+ * @param {object} [options] Preset options
+ * @param {Date} [options.today] Date the preset is relative to, defaults to now
+ * @param {object[]} [options.periods] The periods, from getPeriods(), needed by "thisPeriod"
+ * @returns {object} The range
+ * @throws {TypeError} If the preset doesn't exist
+ */
+function presetRange(preset: RangePreset, { today = new Date(), periods = [] }: PresetOptions = {}): DateRange {
+    switch (preset) {
+        case "today":
+            return { start: day(today), end: day(today) };
+        case "thisWeek":
+            return week(today);
+        case "nextWeek":
+            return week(today, 1);
+        case "thisPeriod":
+            return periodOf(periods, today) ?? schoolYear(today);
+        case "schoolYear":
+            return schoolYear(today);
+        default:
+            throw new TypeError(`Unknown range "${preset}", expected one of ${presets.join(", ")}`);
+    }
+}
+
+/**
+ * Checks if a value is a preset
+ * @param {unknown} value The value
+ * @returns {boolean} true if it's one of the presets
+ */
+function isPreset(value: unknown): value is RangePreset {
+    return presets.includes(value as RangePreset);
+}
+
+/**
+ * Number of days of a range, both ends included
+ * @param {object} range The range
+ * @returns {number} The days
+ */
+function days({ start, end }: DateRange): number {
+    return Math.round((day(end).getTime() - day(start).getTime()) / (1000 * 60 * 60 * 24)) + 1;
+}
+
+/**
+ * Splits a range in consecutive ranges of at most maxDays days
+ * @param {object} range The range
+ * @param {number} maxDays Maximum days of a chunk
+ * @returns {object[]} The chunks, in order
+ */
+function chunkRange(range: DateRange, maxDays: number): DateRange[] {
+    if (!(maxDays >= 1) || days(range) <= maxDays) return [range];
+
+    const chunks: DateRange[] = [];
+    const last = day(range.end);
+    for (let start = day(range.start); start <= last;) {
+        const end = new Date(start);
+        end.setDate(end.getDate() + Math.floor(maxDays) - 1);
+        chunks.push({ start: new Date(start), end: end < last ? end : last });
+        start = new Date(end);
+        start.setDate(start.getDate() + 1);
+    }
+    return chunks;
+}
+
+/**
+ * Splits a range in two halves
+ * @param {object} range The range, at least two days long
+ * @returns {object[]} The halves
+ */
+function splitRange(range: DateRange): DateRange[] {
+    return chunkRange(range, Math.ceil(days(range) / 2));
+}
+
+/**
+ * Removes the items with a key already seen, used to merge the responses of the chunks of a range
+ * @param {object[]} items The items
+ * @param {Function} key Key of an item
+ * @returns {object[]} The first item of every key, in order
+ */
+function uniqueBy<T>(items: T[], key: (item: T) => unknown): T[] {
+    const seen = new Set<unknown>();
+    return items.filter(item => {
+        const value = key(item);
+        if (seen.has(value)) return false;
+        seen.add(value);
+        return true;
+    });
+}
+
+/**
+ * @private Midnight of a date, in local time
+ * @param {Date} date The date
+ * @returns {Date} A new date
+ */
+function day(date: Date): Date {
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+/**
+ * Midnight of the day after a date, in local time
+ * @param {Date} [date] The date, defaults to now
+ * @returns {Date} A new date
+ */
+function nextDay(date: Date = new Date()): Date {
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1);
+}
+
+/**
+ * Parses a YYYY-MM-DD date (or the date of an ISO datetime) in local time
+ * @param {string} date The date
+ * @returns {Date} The date
+ */
+function parseDay(date: string): Date {
+    const [year, month, dayOfMonth] = date.slice(0, 10).split("-").map(Number);
+    return new Date(year, month - 1, dayOfMonth);
+}
+
+/**
+ * Formats a date as YYYY-MM-DD in local time
+ * @param {Date} date The date
+ * @returns {string} The formatted date
+ */
+function formatDay(date: Date): string {
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+}
+
+export {
+    schoolYearOf,
+    schoolYear,
+    week,
+    periodOf,
+    presetRange,
+    isPreset,
+    days,
+    chunkRange,
+    splitRange,
+    uniqueBy,
+    nextDay,
+    parseDay,
+    formatDay,
+};
@@ -0,0 +1,149 @@
+import { createWriteStream, promises as fs } from 'fs';
+import { basename, dirname, join } from 'path';
+import { pipeline } from 'stream/promises';
+import { Response } from 'node-fetch';
+import { DownloadOptions, DownloadResult, DownloadDestination } from './typings/Download';
+
+const extensions: { [mimeType: string]: string } = {
+    "application/pdf": ".pdf",
+    "application/zip": ".zip",
+    "application/msword": ".doc",
+    "application/vnd.openxmlformats-officedocument.wordprocessingml.document": ".docx",
+    "application/vnd.ms-excel": ".xls",
+    "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": ".xlsx",
+    "image/jpeg": ".jpg",
+    "image/png": ".png",
+    "text/plain": ".txt",
+};
+
+/**
+ * Reads the file name from a Content-Disposition header, "filename*" (RFC 5987) is preferred over "filename"
+ * @param {string | null} header The Content-Disposition header
+ * @returns {string | undefined} The file name, without any directory
+ */
+function parseFilename(header: string | null): string | undefined {
+    if (!header) return undefined;
+
+    const encoded = header.match(/filename\*\s*=\s*([^']*)'[^']*'([^;]+)/i);
+    if (encoded) {
+        try {
+            return sanitize(decodeURIComponent(encoded[2].trim()));
+        } catch (e: unknown) {
+            // malformed encoding, fall back to the plain filename
+        }
+    }
+
+    const plain = header.match(/filename\s*=\s*(?:"((?:\\.|[^"])*)"|([^;]+))/i);
+    const name = plain?.[1]?.replace(/\\(.)/g, "$1") ?? plain?.[2]?.trim();
+    return name ? sanitize(name) : undefined;
+}
+
+/**
+ * Reads the MIME type from a Content-Type header
+ * @param {string | null} header The Content-Type header
+ * @returns {string} The MIME type without parameters, defaults to "application/octet-stream"
+ */
+function parseMimeType(header: string | null): string {
+    return header?.split(";")[0].trim().toLowerCase() || "application/octet-stream";
+}
+
+/**
+ * Saves the body of a response to a file, a directory or a writable stream.
+ * Files are written next to the destination with a ".part" suffix and renamed when complete, so an interrupted download is never mistaken for a finished one
+ * @param {Response} response The response to save
+ * @param {string | NodeJS.WritableStream} destination A file path, a directory (existing or ending with a slash) or a writable stream
+ * @param {object} [options] Download options
+ * @param {string} [options.filename] Name used when the response has no Content-Disposition header or the destination is a directory
+ * @param {boolean} [options.overwrite] Download the file again even if it already exists with the same size
+ * @returns {object} The saved file
+ */
+async function saveResponse(response: Response, destination: DownloadDestination, { filename, overwrite = false }: DownloadOptions = {}): Promise<DownloadResult> {
+    const mimeType = parseMimeType(response.headers.get("Content-Type"));
+    const name = filename ?? parseFilename(response.headers.get("Content-Disposition")) ?? `download${extensions[mimeType] ?? ""}`;
+    const length = Number(response.headers.get("Content-Length") ?? NaN);
+
+    if (typeof destination !== "string") {
+        await pipeline(response.body, destination);
+        return { filename: name, mimeType, size: isNaN(length) ? 0 : length, skipped: false };
+    }
+
+    const path = await isDirectory(destination) ? join(destination, name) : destination;
+    const existing = await fs.stat(path).catch(() => undefined);
+    if (!overwrite && existing?.isFile() && existing.size > 0 && (isNaN(length) || existing.size === length)) {
+        (response.body as NodeJS.ReadableStream & { destroy?: () => void }).destroy?.();
+        return { filename: basename(path), mimeType, size: existing.size, path, skipped: true };
+    }
+
+    await fs.mkdir(dirname(path), { recursive: true });
+    const part = `${path}.part`;
+    try {
+        await pipeline(response.body, createWriteStream(part));
+        await fs.rename(part, path);
+    } catch (e: unknown) {
+        await fs.rm(part, { force: true });
+        throw e;
+    }
+
+    const { size } = await fs.stat(path);
+    return { filename: basename(path), mimeType, size, path, skipped: false };
+}
+
+/**
+ * Checks whether a file has already been downloaded, without sending any request
+ * @param {string} path Path of the file
+ * @returns {object | undefined} The skipped download, or undefined if the file is missing or empty
+ */
+async function existingDownload(path: string): Promise<DownloadResult | undefined> {
+    const stats = await fs.stat(path).catch(() => undefined);
+    if (!stats?.isFile() || stats.size === 0) return undefined;
+
+    return { filename: basename(path), mimeType: mimeTypeOf(path), size: stats.size, path, skipped: true };
+}
+
+/**
+ * Checks whether the file a download would be saved to already exists, without sending any request.
+ * The path is only known in advance when the destination is a file or a filename is given, otherwise the name comes from the response headers
+ * @param {string | NodeJS.WritableStream} destination A file path, a directory (existing or ending with a slash) or a writable stream
+ * @param {string} [filename] Name used when the destination is a directory
+ * @returns {object | undefined} The skipped download, or undefined if the path isn't known yet or the file is missing
+ */
+async function existingTarget(destination: DownloadDestination, filename?: string): Promise<DownloadResult | undefined> {
+    if (typeof destination !== "string") return undefined;
+    if (!await isDirectory(destination)) return existingDownload(destination);
+    return filename ? existingDownload(join(destination, filename)) : undefined;
+}
+
+/**
+ * Guesses the MIME type of a file from its extension
+ * @param {string} path Path or name of the file
+ * @returns {string} The MIME type, defaults to "application/octet-stream"
+ */
+function mimeTypeOf(path: string): string {
+    const extension = path.slice(path.lastIndexOf(".")).toLowerCase();
+    if (extension === ".jpeg") return "image/jpeg";
+    return Object.keys(extensions).find(type => extensions[type] === extension) ?? "application/octet-stream";
+}
+
+/**
+ * @private Removes directories and characters that are not allowed in file names
+ * @param {string} name The file name
+ * @returns {string} The safe file name
+ */
+function sanitize(name: string): string {
+    return basename(name.replace(/\\/g, "/")).replace(/[<>:"|?*\x00-\x1f]/g, "_").trim() || "download";
+}
+
+async function isDirectory(path: string): Promise<boolean> {
+    if (/[\\/]$/.test(path)) return true;
+    return fs.stat(path).then(stats => stats.isDirectory(), () => false);
+}
+
+export {
+    parseFilename,
+    parseMimeType,
+    saveResponse,
+    existingDownload,
+    existingTarget,
+    mimeTypeOf,
+    sanitize,
+};
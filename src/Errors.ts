@@ -0,0 +1,81 @@
+import { ResponseError } from './typings/Rest';
+
+/**
+ * Base class of every error thrown by the library
+ */
+class ClassevivaError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = new.target.name;
+    }
+}
+
+/**
+ * Thrown when the credentials are missing or rejected, or when the token is not valid anymore
+ */
+class AuthenticationError extends ClassevivaError {
+    readonly statusCode?: number;
+
+    constructor(message: string = "Authentication failed", statusCode?: number) {
+        super(message);
+        this.statusCode = statusCode;
+    }
+}
+
+/**
+ * Thrown when a method that needs a session is called before logging in
+ */
+class NotLoggedInError extends ClassevivaError {
+    constructor(message: string = "Not logged in") {
+        super(message);
+    }
+}
+
+/**
+ * Thrown when the server answers with an error or with an unexpected status code
+ */
+class ApiError extends ClassevivaError {
+    readonly statusCode: number;
+    readonly error: string;
+
+    constructor({ statusCode, message, error }: ResponseError) {
+        super(`${message} (${statusCode})`);
+        this.statusCode = statusCode;
+        this.error = error;
+    }
+}
+
+/**
+ * Thrown when the request could not reach the server
+ */
+class NetworkError extends ClassevivaError {
+    readonly url: string;
+    readonly cause?: Error;
+
+    constructor(url: string, cause: unknown) {
+        super(`Request to ${url} failed${cause instanceof Error ? `: ${cause.message}` : ""}`);
+        this.url = url;
+        this.cause = cause instanceof Error ? cause : undefined;
+    }
+}
+
+/**
+ * Thrown when the server response can't be parsed
+ */
+class ParseError extends ClassevivaError {
+    readonly url: string;
+
+    constructor(url: string, message: string = "Could not parse JSON") {
+        super(`${message} (${url})`);
+        this.url = url;
+    }
+}
+
+export {
+    ClassevivaError,
+    AuthenticationError,
+    NotLoggedInError,
+    ApiError,
+    NetworkError,
+    ParseError,
+};
@@ -0,0 +1,189 @@
+import { Grade } from './typings/Rest';
+import { AverageOptions, SubjectAverage, PeriodAverage, Trend, TrendOptions, ProjectionOptions, Projection, InsufficientCount } from './typings/Analytics';
+
+type Countable = Grade & { decimalValue: number };
+
+/**
+ * Checks if a grade counts for the averages: canceled grades and non-numeric ones like "+", "-" or "g" don't
+ * @param {object} grade The grade
+ * @returns {boolean} true if the grade counts
+ */
+function isCountable(grade: Grade): grade is Countable {
+    return !grade.canceled
+        && typeof grade.decimalValue === "number"
+        && isFinite(grade.decimalValue)
+        && /\d/.test(grade.displayValue ?? "");
+}
+
+/**
+ * Average of the countable grades
+ * @param {object[]} grades The grades, from getGrades()
+ * @param {object} [options] Average options
+ * @param {boolean} [options.weighted] Use the weightFactor of the grades, defaults to true
+ * @returns {number | null} The average, null if there are no countable grades
+ */
+function average(grades: Grade[], { weighted = true }: AverageOptions = {}): number | null {
+    const { sum, weights } = total(grades, weighted);
+    return weights > 0 ? sum / weights : null;
+}
+
+/**
+ * Average of every subject
+ * @param {object[]} grades The grades, from getGrades()
+ * @param {object} [options] Average options
+ * @returns {object[]} The averages, in the order the subjects first appear
+ */
+function averageBySubject(grades: Grade[], options: AverageOptions = {}): SubjectAverage[] {
+    return [...groupBy(grades, grade => grade.subjectId).values()].map(group => ({
+        subjectId: group[0].subjectId,
+        subjectDesc: group[0].subjectDesc,
+        average: average(group, options),
+        count: group.filter(isCountable).length,
+    }));
+}
+
+/**
+ * Average of every period
+ * @param {object[]} grades The grades, from getGrades()
+ * @param {object} [options] Average options
+ * @returns {object[]} The averages, sorted by period
+ */
+function averageByPeriod(grades: Grade[], options: AverageOptions = {}): PeriodAverage[] {
+    return [...groupBy(grades, grade => grade.periodPos).values()]
+    .map(group => ({
+        periodPos: group[0].periodPos,
+        periodDesc: group[0].periodDesc,
+        average: average(group, options),
+        count: group.filter(isCountable).length,
+    }))
+    .sort((a, b) => a.periodPos - b.periodPos);
+}
+
+/**
+ * Overall average, computed like schools do: the mean of the subject averages
+ * @param {object[]} grades The grades, from getGrades()
+ * @param {object} [options] Average options
+ * @returns {number | null} The average, null if there are no countable grades
+ */
+function overallAverage(grades: Grade[], options: AverageOptions = {}): number | null {
+    const averages = averageBySubject(grades, options)
+    .map(subject => subject.average)
+    .filter((value): value is number => value !== null);
+
+    return averages.length ? averages.reduce((sum, value) => sum + value, 0) / averages.length : null;
+}
+
+/**
+ * How the average changed over time
+ * @param {object[]} grades The grades, from getGrades()
+ * @param {object} [options] Trend options
+ * @param {number} [options.subjectId] Only use the grades of this subject
+ * @param {boolean} [options.weighted] Use the weightFactor of the grades, defaults to true
+ * @returns {object} The running average after every grade and the slope of the grades, in points per day
+ */
+function trend(grades: Grade[], { subjectId, ...options }: TrendOptions = {}): Trend {
+    const sorted = grades
+    .filter(isCountable)
+    .filter(grade => subjectId === undefined || grade.subjectId === subjectId)
+    .sort((a, b) => a.evtDate.localeCompare(b.evtDate));
+
+    const points = sorted.map((grade, index) => ({
+        date: grade.evtDate,
+        value: grade.decimalValue,
+        average: average(sorted.slice(0, index + 1), options) as number,
+    }));
+
+    return { points, slope: slope(sorted) };
+}
+
+/**
+ * Which grade is needed to reach a target average
+ * @param {object[]} grades The grades, from getGrades(), usually of a single subject
+ * @param {number} target The average to reach
+ * @param {object} [options] Projection options
+ * @param {number} [options.weight] Weight of the next grades, defaults to 1
+ * @param {number} [options.count] How many grades are left, defaults to 1
+ * @param {number} [options.min] Lowest possible grade, defaults to 1
+ * @param {number} [options.max] Highest possible grade, defaults to 10
+ * @param {boolean} [options.weighted] Use the weightFactor of the grades, defaults to true
+ * @returns {object} The grade needed in each of the next grades, never below min when the target is already met, and whether it can be reached
+ * @throws {RangeError} If the weight or the count of the next grades is not positive
+ */
+function requiredGrade(grades: Grade[], target: number, { weight = 1, count = 1, min = 1, max = 10, weighted = true }: ProjectionOptions = {}): Projection {
+    const next = weight * count;
+    if (!(next > 0)) throw new RangeError(`The next grades must have a positive weight and count, got weight ${weight} and count ${count}`);
+
+    const { sum, weights } = total(grades, weighted);
+    const grade = Math.max((target * (weights + next) - sum) / next, min);
+    return { grade, reachable: grade <= max };
+}
+
+/**
+ * How many insufficient grades every subject has
+ * @param {object[]} grades The grades, from getGrades()
+ * @param {number} [threshold] Grades below this are insufficient, defaults to 6
+ * @returns {object[]} The count of every subject, subjects without insufficient grades included
+ */
+function insufficientCount(grades: Grade[], threshold: number = 6): InsufficientCount[] {
+    return [...groupBy(grades, grade => grade.subjectId).values()].map(group => ({
+        subjectId: group[0].subjectId,
+        subjectDesc: group[0].subjectDesc,
+        count: group.filter(grade => isCountable(grade) && grade.decimalValue < threshold).length,
+    }));
+}
+
+/**
+ * @private Weighted sum of the countable grades
+ * @param {object[]} grades The grades
+ * @param {boolean} weighted Use the weightFactor of the grades
+ * @returns {object} The sum of the weighted grades and of their weights
+ */
+function total(grades: Grade[], weighted: boolean): { sum: number, weights: number } {
+    let sum = 0;
+    let weights = 0;
+    for (const grade of grades.filter(isCountable)) {
+        const weight = weighted ? grade.weightFactor ?? 1 : 1;
+        sum += grade.decimalValue * weight;
+        weights += weight;
+    }
+    return { sum, weights };
+}
+
+/**
+ * @private Least squares slope of the grades over time
+ * @param {object[]} grades Countable grades
+ * @returns {number} Points per day, 0 if there are less than two days
+ */
+function slope(grades: Countable[]): number {
+    if (grades.length < 2) return 0;
+
+    const day = 1000 * 60 * 60 * 24;
+    const xs = grades.map(grade => new Date(grade.evtDate).getTime() / day);
+    const ys = grades.map(grade => grade.decimalValue);
+    const mx = xs.reduce((sum, x) => sum + x, 0) / xs.length;
+    const my = ys.reduce((sum, y) => sum + y, 0) / ys.length;
+
+    const num = xs.reduce((sum, x, i) => sum + (x - mx) * (ys[i] - my), 0);
+    const den = xs.reduce((sum, x) => sum + (x - mx) ** 2, 0);
+    return den === 0 ? 0 : num / den;
+}
+
+function groupBy<T, K>(items: T[], key: (item: T) => K): Map<K, T[]> {
+    const groups = new Map<K, T[]>();
+    for (const item of items) {
+        const value = key(item);
+        groups.set(value, [...(groups.get(value) ?? []), item]);
+    }
+    return groups;
+}
+
+export {
+    isCountable,
+    average,
+    averageBySubject,
+    averageByPeriod,
+    overallAverage,
+    trend,
+    requiredGrade,
+    insufficientCount,
+};
@@ -0,0 +1,155 @@
+import { AgendaEvent } from './typings/Rest';
+import { WebAgendaEvent } from './typings/Web';
+import { WeeklyTimetable } from './typings/Timetable';
+import { Homework, HomeworkAttachment, HomeworkGroups, HomeworkPreparation } from './typings/Homework';
+import { lessonsOn } from './Timetable';
+import { uniqueBy, nextDay, formatDay } from './DateRange';
+
+/**
+ * Converts an agenda event of Rest.getAgenda() to homework
+ * @param {object} event The agenda event
+ * @returns {object} The homework, not done
+ */
+function fromAgenda(event: AgendaEvent): Homework {
+    return {
+        id: event.evtId,
+        source: "rest",
+        subjectId: event.subjectId ?? null,
+        subject: event.subjectDesc ?? "",
+        teacher: event.authorName,
+        due: event.evtDatetimeBegin.slice(0, 10),
+        allDay: event.isFullDay,
+        text: event.notes,
+        attachments: linksOf(event.notes),
+        done: false,
+    };
+}
+
+/**
+ * Converts an agenda event of Web.getAgenda() to homework
+ * @param {object} event The agenda event
+ * @returns {object} The homework, not done
+ */
+function fromWebAgenda(event: WebAgendaEvent): Homework {
+    const text = event.nota_2 || event.title;
+    return {
+        id: Number(event.id),
+        source: "web",
+        subjectId: event.materia_id === "" ? null : Number(event.materia_id),
+        subject: event.materia_desc ?? "",
+        teacher: event.autore_desc,
+        due: event.start.slice(0, 10),
+        allDay: event.allDay,
+        text,
+        attachments: linksOf(text),
+        done: false,
+    };
+}
+
+/**
+ * Keeps the homework of agenda events from Rest.getAgenda() or Web.getAgenda(), even mixed, and converts it.
+ * The same event from both sources is kept once, the first one found wins
+ * @param {object[]} events The agenda events
+ * @returns {object[]} The homework, sorted by due date
+ */
+function normalizeHomework(events: (AgendaEvent | WebAgendaEvent)[]): Homework[] {
+    const homework = events.flatMap(event => {
+        if ("evtId" in event) return event.evtCode === "AGHW" ? [fromAgenda(event)] : [];
+        return event.tipo === "compiti" ? [fromWebAgenda(event)] : [];
+    });
+    return uniqueBy(homework, item => item.id).sort((a, b) => a.due.localeCompare(b.due));
+}
+
+/**
+ * Groups the homework by due date
+ * @param {object[]} homework The homework
+ * @returns {object} The homework of every due date (YYYY-MM-DD), in date order
+ */
+function groupByDue(homework: Homework[]): HomeworkGroups {
+    return group([...homework].sort((a, b) => a.due.localeCompare(b.due)), item => item.due);
+}
+
+/**
+ * Groups the homework by subject
+ * @param {object[]} homework The homework
+ * @returns {object} The homework of every subject, "" for the homework without one
+ */
+function groupBySubject(homework: Homework[]): HomeworkGroups {
+    return group(homework, item => item.subject);
+}
+
+/**
+ * What to prepare for the lessons of a day: the homework due that day and not done, next to the lesson of its subject in the timetable.
+ * Homework of a subject without a lesson that day is unscheduled
+ * @param {object[]} homework The homework
+ * @param {object} timetable The timetable, from Rest.getTimetable()
+ * @param {Date} [date] The day, defaults to tomorrow
+ * @returns {object} Every lesson of the day with its homework, and the unscheduled homework
+ */
+function prepareFor(homework: Homework[], timetable: WeeklyTimetable, date: Date = nextDay()): HomeworkPreparation {
+    const day = formatDay(date);
+    const due = homework.filter(item => item.due === day && !item.done);
+    const lessons = lessonsOn(timetable, date).map(slot => ({ slot, homework: [] as Homework[] }));
+
+    const unscheduled: Homework[] = [];
+    for (const item of due) {
+        const lesson = lessons.find(({ slot }) => item.subjectId === slot.subjectId || (item.subject !== "" && item.subject.toLowerCase() === slot.subjectDesc.toLowerCase()));
+        if (lesson) lesson.homework.push(item);
+        else unscheduled.push(item);
+    }
+    return { date: day, lessons, unscheduled };
+}
+
+/**
+ * @private Links in the text of some homework, teachers paste them to share files
+ * @param {string} text The text
+ * @returns {object[]} The links, named after the last part of their path
+ */
+function linksOf(text: string): HomeworkAttachment[] {
+    return (text.match(/https?:\/\/[^\s<>"]+[^\s<>".,;:!?)]/g) ?? []).flatMap(url => {
+        try {
+            const { hostname, pathname } = new URL(url);
+            return [{ name: decodeName(pathname.split("/").filter(Boolean).pop() ?? "") || hostname, url }];
+        } catch (e: unknown) {
+            // not a valid url, e.g. "http://esempio:pagina"
+            return [];
+        }
+    });
+}
+
+/**
+ * @private Decodes the name of a link, keeping it as it is if its encoding is malformed
+ * @param {string} name The last part of the path
+ * @returns {string} The decoded name
+ */
+function decodeName(name: string): string {
+    try {
+        return decodeURIComponent(name);
+    } catch (e: unknown) {
+        return name;
+    }
+}
+
+/**
+ * @private Groups items by a key, keeping their order
+ * @param {object[]} items The items
+ * @param {Function} key Key of an item
+ * @returns {object} The items of every key
+ */
+function group(items: Homework[], key: (item: Homework) => string): HomeworkGroups {
+    const groups: HomeworkGroups = {};
+    for (const item of items) {
+        const value = key(item);
+        groups[value] = [...(groups[value] ?? []), item];
+    }
+    return groups;
+}
+
+export {
+    fromAgenda,
+    fromWebAgenda,
+    normalizeHomework,
+    groupByDue,
+    groupBySubject,
+    prepareFor,
+};
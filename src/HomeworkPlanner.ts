@@ -0,0 +1,147 @@
+import { KeyValueStore } from './typings/Stores';
+import { WeeklyTimetable } from './typings/Timetable';
+import { Homework, HomeworkGroups, HomeworkPreparation, DoneSnapshot, HomeworkPlannerOptions } from './typings/Homework';
+import { MemoryStore } from './stores/KeyValueStore';
+import { groupByDue, groupBySubject, prepareFor } from './Homework';
+
+/**
+ * Keeps track of the homework that has been done, which the api doesn't know about.
+ * The ids of the done homework are kept in a single snapshot, so they survive restarts when a persistent store is used
+ */
+class HomeworkPlanner {
+    readonly #store: KeyValueStore<DoneSnapshot>;
+    readonly #key: string;
+    #queue: Promise<unknown>;
+
+    /**
+     * @param {object} [options] Planner options
+     * @param {object} [options.store] Where the done homework is kept, defaults to a MemoryStore
+     * @param {string} [options.key] Key of the snapshot in the store, defaults to "homework", use one per account when they share a store
+     */
+    constructor({ store = new MemoryStore(), key = "homework" }: HomeworkPlannerOptions = {}) {
+        this.#store = store;
+        this.#key = key;
+        this.#queue = Promise.resolve();
+    }
+
+    /**
+     * Sets the done state of some homework
+     * @param {object[]} homework The homework, from Rest.getHomework() or normalizeHomework()
+     * @returns {object[]} Copies of the homework with done set
+     */
+    async track(homework: Homework[]): Promise<Homework[]> {
+        const done = await this.#snapshot();
+        return homework.map(item => ({ ...item, done: String(item.id) in done }));
+    }
+
+    /**
+     * Checks if some homework has been done
+     * @param {object | number} homework The homework or its id
+     * @returns {boolean} true if it has been marked as done
+     */
+    async isDone(homework: Homework | number): Promise<boolean> {
+        return String(idOf(homework)) in await this.#snapshot();
+    }
+
+    /**
+     * Marks some homework as done, or not done
+     * @param {object | number} homework The homework or its id
+     * @param {boolean} [done] false to mark it as not done, defaults to true
+     */
+    async markDone(homework: Homework | number, done: boolean = true): Promise<void> {
+        const id = String(idOf(homework));
+        return this.#update(snapshot => {
+            if (done) snapshot[id] = snapshot[id] ?? new Date().toISOString();
+            else delete snapshot[id];
+        });
+    }
+
+    /**
+     * Forgets the done homework that isn't in a list anymore, e.g. the homework of the past school years
+     * @param {object[]} homework The homework to keep
+     * @returns {number} How many have been forgotten
+     */
+    async prune(homework: Homework[]): Promise<number> {
+        const keep = new Set(homework.map(item => String(item.id)));
+        let removed = 0;
+        await this.#update(snapshot => {
+            for (const id of Object.keys(snapshot).filter(id => !keep.has(id))) {
+                delete snapshot[id];
+                removed++;
+            }
+        });
+        return removed;
+    }
+
+    /**
+     * Homework not done yet
+     * @param {object[]} homework The homework
+     * @returns {object[]} The homework not done, with done set
+     */
+    async pending(homework: Homework[]): Promise<Homework[]> {
+        return (await this.track(homework)).filter(item => !item.done);
+    }
+
+    /**
+     * Homework grouped by due date, see groupByDue()
+     * @param {object[]} homework The homework
+     * @returns {object} The homework of every due date, with done set
+     */
+    async byDue(homework: Homework[]): Promise<HomeworkGroups> {
+        return groupByDue(await this.track(homework));
+    }
+
+    /**
+     * Homework grouped by subject, see groupBySubject()
+     * @param {object[]} homework The homework
+     * @returns {object} The homework of every subject, with done set
+     */
+    async bySubject(homework: Homework[]): Promise<HomeworkGroups> {
+        return groupBySubject(await this.track(homework));
+    }
+
+    /**
+     * What to prepare for the lessons of a day, leaving out the homework already done, see prepareFor()
+     * @param {object[]} homework The homework
+     * @param {object} timetable The timetable, from Rest.getTimetable()
+     * @param {Date} [date] The day, defaults to tomorrow
+     * @returns {object} Every lesson of the day with its homework, and the unscheduled homework
+     */
+    async prepare(homework: Homework[], timetable: WeeklyTimetable, date?: Date): Promise<HomeworkPreparation> {
+        return prepareFor(await this.track(homework), timetable, date);
+    }
+
+    /**
+     * @private Reads the snapshot, after the pending updates
+     * @returns {object} The ids of the done homework with when they were marked
+     */
+    async #snapshot(): Promise<DoneSnapshot> {
+        await this.#queue;
+        return await this.#store.get(this.#key) ?? {};
+    }
+
+    /**
+     * @private Queues a change of the snapshot, so concurrent changes don't overwrite each other
+     * @param {Function} change Edits the snapshot in place
+     */
+    #update(change: (snapshot: DoneSnapshot) => void): Promise<void> {
+        const task = this.#queue.then(async () => {
+            const snapshot = { ...await this.#store.get(this.#key) };
+            change(snapshot);
+            await this.#store.set(this.#key, snapshot);
+        });
+        this.#queue = task.catch(() => undefined);
+        return task;
+    }
+}
+
+/**
+ * @private Id of some homework
+ * @param {object | number} homework The homework or its id
+ * @returns {number} The id
+ */
+function idOf(homework: Homework | number): number {
+    return typeof homework === "number" ? homework : homework.id;
+}
+
+export default HomeworkPlanner;
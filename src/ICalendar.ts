@@ -0,0 +1,336 @@
+import { AgendaEvent, Lesson, calendarDay } from './typings/Rest';
+import { CalendarEvent, IcsOptions, LessonTimesOptions, CalendarSources } from './typings/ICalendar';
+
+const domain = "classeviva.js";
+
+/**
+ * Converts agenda events from getAgenda() to calendar events, homework (AGHW) and notes (AGNT) get different titles and categories
+ * @param {object[]} events The agenda events
+ * @returns {object[]} The calendar events, with uids based on evtId
+ */
+function agendaToEvents(events: AgendaEvent[]): CalendarEvent[] {
+    return events.map(event => {
+        const homework = event.evtCode === "AGHW";
+        const subject = event.subjectDesc ? ` - ${capitalize(event.subjectDesc)}` : "";
+        return {
+            uid: `agenda-${event.evtId}@${domain}`,
+            start: event.isFullDay ? localDate(event.evtDatetimeBegin) : new Date(event.evtDatetimeBegin),
+            end: event.isFullDay ? localDate(event.evtDatetimeEnd) : new Date(event.evtDatetimeEnd),
+            allDay: event.isFullDay,
+            summary: `${homework ? "Compiti" : "Annotazione"}${subject}`,
+            description: [event.notes, event.authorName].filter(Boolean).join("\n"),
+            categories: [homework ? "HOMEWORK" : "NOTE"],
+            transparent: true,
+        };
+    });
+}
+
+/**
+ * Converts lessons from getLessons() to calendar events, using evtHPOS and evtDuration to compute their times
+ * @param {object[]} lessons The lessons
+ * @param {object} [options] Lesson times
+ * @param {string} [options.firstHour] Start of the first hour, defaults to "08:00"
+ * @param {number} [options.hourLength] Length of an hour in minutes, defaults to 60
+ * @param {string[]} [options.hourStarts] Start of every hour ("08:00", "08:55", ...), overrides firstHour and hourLength
+ * @returns {object[]} The calendar events, with uids based on evtId
+ */
+function lessonsToEvents(lessons: Lesson[], options: LessonTimesOptions = {}): CalendarEvent[] {
+    return lessons.map(lesson => {
+        const date = localDate(lesson.evtDate);
+        const [start, end] = lessonTimes(lesson.evtHPOS, lesson.evtDuration, options);
+
+        return {
+            uid: `lesson-${lesson.evtId}@${domain}`,
+            start: new Date(date.getFullYear(), date.getMonth(), date.getDate(), 0, start),
+            end: new Date(date.getFullYear(), date.getMonth(), date.getDate(), 0, end),
+            floating: true,
+            summary: capitalize(lesson.subjectDesc),
+            description: [lesson.lessonArg, lesson.authorName].filter(Boolean).join("\n"),
+            location: lesson.classDesc,
+            categories: ["LESSON"],
+        };
+    });
+}
+
+/**
+ * Start and end of a lesson, in minutes from midnight
+ * @param {number} position Hour the lesson starts at (evtHPOS), 1 is the first hour
+ * @param {number} duration Hours the lesson lasts (evtDuration)
+ * @param {object} [options] Lesson times, see lessonsToEvents()
+ * @returns {number[]} The start and the end
+ */
+function lessonTimes(position: number, duration: number, { firstHour = "08:00", hourLength = 60, hourStarts }: LessonTimesOptions = {}): [number, number] {
+    const [hours, minutes] = firstHour.split(":").map(Number);
+    const startOf = (hour: number): number => {
+        const fixed = hourStarts?.[hour - 1];
+        if (fixed) {
+            const [h, m] = fixed.split(":").map(Number);
+            return h * 60 + m;
+        }
+        return hours * 60 + minutes + (hour - 1) * hourLength;
+    };
+
+    const start = startOf(position);
+    const end = hourStarts?.[position - 1 + duration] ? startOf(position + duration) : start + duration * hourLength;
+    return [start, end];
+}
+
+/**
+ * Converts the holidays (status "HD") of getCalendar() to all day events
+ * @param {object[]} days The calendar days
+ * @returns {object[]} The calendar events, with uids based on the date
+ */
+function calendarToEvents(days: calendarDay[]): CalendarEvent[] {
+    return days
+    .filter(day => day.status === "HD")
+    .map(day => {
+        return {
+            uid: `holiday-${day.dayDate}@${domain}`,
+            start: localDate(day.dayDate),
+            allDay: true,
+            summary: "Vacanza",
+            categories: ["HOLIDAY"],
+            transparent: true,
+        };
+    });
+}
+
+/**
+ * Builds an iCalendar (RFC 5545) file
+ * @param {object[]} events The calendar events
+ * @param {object} [options] Calendar options
+ * @param {string} [options.name] Name of the calendar, defaults to "Classeviva"
+ * @param {string} [options.prodId] Product identifier, defaults to "-//classeviva.js//Classeviva//IT"
+ * @param {string} [options.timezone] IANA timezone used for lessons, which are otherwise exported in floating time. Its VTIMEZONE is built from the timezone data of the runtime
+ * @param {Date} [options.stamp] Value of DTSTAMP, defaults to now
+ * @returns {string} The content of the .ics file
+ * @throws {RangeError} If the timezone is unknown
+ */
+function toICS(events: CalendarEvent[], { name = "Classeviva", prodId = "-//classeviva.js//Classeviva//IT", timezone, stamp = new Date() }: IcsOptions = {}): string {
+    const lines = [
+        "BEGIN:VCALENDAR",
+        "VERSION:2.0",
+        `PRODID:${prodId}`,
+        "CALSCALE:GREGORIAN",
+        "METHOD:PUBLISH",
+        `X-WR-CALNAME:${escapeText(name)}`,
+        ...(timezone ? [`X-WR-TIMEZONE:${timezone}`] : []),
+    ];
+
+    const timed = events.filter(event => event.floating && !event.allDay);
+    if (timezone && timed.length) {
+        lines.push(...vtimezone(timezone, Math.min(...timed.map(event => event.start.getFullYear()))));
+    }
+
+    for (const event of events) {
+        lines.push("BEGIN:VEVENT", `UID:${event.uid}`, `DTSTAMP:${formatUtc(stamp)}`);
+
+        if (event.allDay) {
+            const end = event.end && formatDate(event.end) > formatDate(event.start) ? event.end : addDays(event.start, 1);
+            lines.push(`DTSTART;VALUE=DATE:${formatDate(event.start)}`, `DTEND;VALUE=DATE:${formatDate(end)}`);
+        } else if (event.floating) {
+            const tz = timezone ? `;TZID=${timezone}` : "";
+            lines.push(`DTSTART${tz}:${formatLocal(event.start)}`);
+            if (event.end) lines.push(`DTEND${tz}:${formatLocal(event.end)}`);
+        } else {
+            lines.push(`DTSTART:${formatUtc(event.start)}`);
+            if (event.end) lines.push(`DTEND:${formatUtc(event.end)}`);
+        }
+
+        lines.push(`SUMMARY:${escapeText(event.summary)}`);
+        if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+        if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+        if (event.categories?.length) lines.push(`CATEGORIES:${event.categories.map(escapeText).join(",")}`);
+        if (event.recurrence) lines.push(`RRULE:${event.recurrence}`);
+        if (event.transparent) lines.push("TRANSP:TRANSPARENT");
+        lines.push("END:VEVENT");
+    }
+
+    lines.push("END:VCALENDAR");
+    return lines.map(fold).join("\r\n") + "\r\n";
+}
+
+/**
+ * Builds an iCalendar file from the agenda, the lessons and the calendar of a student
+ * @param {object} sources The data to export, every property is optional
+ * @param {object} [options] Calendar and lesson times options
+ * @returns {string} The content of the .ics file
+ */
+function exportICS({ agenda = [], lessons = [], calendar = [] }: CalendarSources, options: IcsOptions & LessonTimesOptions = {}): string {
+    return toICS([
+        ...agendaToEvents(agenda),
+        ...lessonsToEvents(lessons, options),
+        ...calendarToEvents(calendar),
+    ], options);
+}
+
+/**
+ * @private Builds the VTIMEZONE component of a timezone, with the daylight saving changes of a year repeated yearly
+ * @param {string} timezone IANA timezone
+ * @param {number} year First year the component must cover
+ * @returns {string[]} The content lines
+ */
+function vtimezone(timezone: string, year: number): string[] {
+    const lines = ["BEGIN:VTIMEZONE", `TZID:${timezone}`];
+    const changes = transitions(timezone, year);
+
+    if (!changes.length) {
+        const offset = formatOffset(offsetAt(new Date(Date.UTC(year, 0, 1)), timezone));
+        lines.push("BEGIN:STANDARD", `TZOFFSETFROM:${offset}`, `TZOFFSETTO:${offset}`, `DTSTART:${year}0101T000000`, "END:STANDARD");
+    }
+
+    const largest = Math.max(...changes.map(({ to }) => to));
+    for (const { at, from, to } of changes) {
+        const kind = to === largest && from < to ? "DAYLIGHT" : "STANDARD";
+        const wall = new Date(at.getTime() + from * 60 * 1000);
+        const last = wall.getUTCDate() + 7 > new Date(Date.UTC(wall.getUTCFullYear(), wall.getUTCMonth() + 1, 0)).getUTCDate();
+        const ordinal = last ? -1 : Math.ceil(wall.getUTCDate() / 7);
+        lines.push(
+            `BEGIN:${kind}`,
+            `TZOFFSETFROM:${formatOffset(from)}`,
+            `TZOFFSETTO:${formatOffset(to)}`,
+            `DTSTART:${formatUtc(wall).slice(0, -1)}`,
+            `RRULE:FREQ=YEARLY;BYMONTH=${wall.getUTCMonth() + 1};BYDAY=${ordinal}${["SU", "MO", "TU", "WE", "TH", "FR", "SA"][wall.getUTCDay()]}`,
+            `END:${kind}`,
+        );
+    }
+
+    lines.push("END:VTIMEZONE");
+    return lines;
+}
+
+/**
+ * @private Finds the offset changes of a timezone during a year, to the minute
+ * @param {string} timezone IANA timezone
+ * @param {number} year The year
+ * @returns {object[]} When every change happens and the offsets before and after it, in minutes
+ */
+function transitions(timezone: string, year: number): { at: Date, from: number, to: number }[] {
+    const day = 24 * 60 * 60 * 1000;
+    const changes: { at: Date, from: number, to: number }[] = [];
+
+    for (let time = Date.UTC(year, 0, 1); time < Date.UTC(year + 1, 0, 1); time += day) {
+        const from = offsetAt(new Date(time), timezone);
+        const to = offsetAt(new Date(time + day), timezone);
+        if (from === to) continue;
+
+        let [low, high] = [time, time + day];
+        while (high - low > 60 * 1000) {
+            const middle = low + Math.floor((high - low) / 2 / 60000) * 60000;
+            if (offsetAt(new Date(middle), timezone) === from) low = middle;
+            else high = middle;
+        }
+        changes.push({ at: new Date(high), from, to });
+    }
+    return changes;
+}
+
+/**
+ * @private Offset of a timezone from UTC at an instant
+ * @param {Date} date The instant
+ * @param {string} timezone IANA timezone
+ * @returns {number} The offset in minutes, positive east of Greenwich
+ */
+function offsetAt(date: Date, timezone: string): number {
+    const parts = new Intl.DateTimeFormat("en-US", {
+        timeZone: timezone,
+        hourCycle: "h23",
+        year: "numeric",
+        month: "numeric",
+        day: "numeric",
+        hour: "numeric",
+        minute: "numeric",
+    }).formatToParts(date);
+    const part = (type: string): number => Number(parts.find(item => item.type === type)?.value);
+    const local = Date.UTC(part("year"), part("month") - 1, part("day"), part("hour"), part("minute"));
+    return Math.round((local - Math.floor(date.getTime() / 60000) * 60000) / 60000);
+}
+
+function formatOffset(minutes: number): string {
+    const abs = Math.abs(minutes);
+    return `${minutes < 0 ? "-" : "+"}${pad(Math.floor(abs / 60))}${pad(abs % 60)}`;
+}
+
+/**
+ * @private Escapes a TEXT value
+ * @param {string} text The text
+ * @returns {string} The escaped text
+ */
+function escapeText(text: string): string {
+    return text
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * @private Folds a content line to 75 octets, without splitting multi-byte characters
+ * @param {string} line The line
+ * @returns {string} The folded line
+ */
+function fold(line: string): string {
+    const parts: string[] = [];
+    let current = "";
+    for (const char of line) {
+        const limit = parts.length ? 74 : 75;
+        if (Buffer.byteLength(current + char) > limit) {
+            parts.push(current);
+            current = "";
+        }
+        current += char;
+    }
+    parts.push(current);
+    return parts.join("\r\n ");
+}
+
+function pad(value: number): string {
+    return value < 10 ? `0${value}` : `${value}`;
+}
+
+function formatDate(date: Date): string {
+    return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`;
+}
+
+function formatLocal(date: Date): string {
+    return `${formatDate(date)}T${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+}
+
+function formatUtc(date: Date): string {
+    return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/**
+ * @private Midnight of the date part of an ISO string, in local time so the day doesn't shift with the offset
+ * @param {string} iso The ISO date or datetime
+ * @returns {Date} The date
+ */
+function localDate(iso: string): Date {
+    const [year, month, day] = iso.slice(0, 10).split("-").map(Number);
+    return new Date(year, month - 1, day);
+}
+
+function addDays(date: Date, days: number): Date {
+    const copy = new Date(date);
+    copy.setDate(copy.getDate() + days);
+    return copy;
+}
+
+/**
+ * Capitalizes every word of a text, e.g. the uppercase subjects of the api
+ * @param {string} text The text
+ * @returns {string} The capitalized text
+ */
+function capitalize(text: string): string {
+    return text.toLowerCase().replace(/(^|\s)\S/g, letter => letter.toUpperCase());
+}
+
+export {
+    agendaToEvents,
+    lessonsToEvents,
+    lessonTimes,
+    calendarToEvents,
+    toICS,
+    exportICS,
+    capitalize,
+};
@@ -0,0 +1,40 @@
+import { LogLevel, Logger, LoggerOptions } from './typings/Logger';
+
+const levels: LogLevel[] = ["debug", "info", "warn", "error", "silent"];
+
+/**
+ * Creates a logger that prints to the console, prefixed with a red "[CLASSEVIVA]"
+ * @param {object} [options] Logger options
+ * @param {string} [options.level] Lowest level that gets printed, "silent" prints nothing, defaults to "info"
+ * @param {string} [options.prefix] Prefix of every line, defaults to "[CLASSEVIVA]"
+ * @returns {Logger} The logger
+ */
+function createLogger({ level = "info", prefix = "[CLASSEVIVA]" }: LoggerOptions = {}): Logger {
+    const min = levels.indexOf(level);
+    const print = (lvl: LogLevel, write: (...args: any[]) => void) => (...args: any[]): void => {
+        if (levels.indexOf(lvl) < min) return;
+        write(`\x1b[31m${prefix}\x1b[0m`, ...args);
+    };
+
+    return {
+        debug: print("debug", console.debug),
+        info: print("info", console.log),
+        warn: print("warn", console.warn),
+        error: print("error", console.error),
+    };
+}
+
+/**
+ * A logger that discards everything
+ */
+const silentLogger: Logger = Object.freeze({
+    debug: () => {},
+    info: () => {},
+    warn: () => {},
+    error: () => {},
+});
+
+export {
+    createLogger,
+    silentLogger,
+};
@@ -0,0 +1,81 @@
+import { promises as fs } from 'fs';
+import { basename } from 'path';
+import { randomBytes } from 'crypto';
+import { NoticeboardItem, readOptions } from './typings/Rest';
+import { NoticeboardFilter, NoticeReplyFile, ReplyBody } from './typings/Noticeboard';
+import { mimeTypeOf } from './Download';
+
+/**
+ * Filters noticeboard items, every condition that is set must match
+ * @param {object[]} items The items from getNoticeboard()
+ * @param {object} [filter] The conditions
+ * @param {boolean} [filter.unread] Only unread (true) or read (false) items
+ * @param {string | string[]} [filter.category] Category or categories of the items, case insensitive
+ * @param {boolean} [filter.needSign] Items that need (true) or don't need (false) a signature
+ * @param {boolean} [filter.needJoin] Items that need (true) or don't need (false) an adhesion
+ * @param {boolean} [filter.needReply] Items that need (true) or don't need (false) a reply
+ * @param {Date | string} [filter.from] Items published on this day or later
+ * @param {Date | string} [filter.to] Items published on this day or earlier
+ * @returns {object[]} The matching items
+ */
+function filterNotices(items: NoticeboardItem[], { unread, category, needSign, needJoin, needReply, from, to }: NoticeboardFilter = {}): NoticeboardItem[] {
+    const categories = category === undefined ? undefined : [category].flat().map(value => value.toLowerCase());
+    const start = from === undefined ? undefined : formatDay(from);
+    const end = to === undefined ? undefined : formatDay(to);
+
+    return items.filter(item => {
+        const day = item.pubDT.slice(0, 10);
+        return (unread === undefined || item.readStatus !== unread)
+            && (!categories || categories.includes(item.cntCategory.toLowerCase()))
+            && (needSign === undefined || item.needSign === needSign)
+            && (needJoin === undefined || item.needJoin === needJoin)
+            && (needReply === undefined || item.needReply === needReply)
+            && (!start || day >= start)
+            && (!end || day <= end);
+    });
+}
+
+/**
+ * Builds the body of a notice read or reply, form encoded or multipart when a file is attached
+ * @param {object} [options] { sign, join, text, file }, the file can be a path or { filename, content, mimeType }
+ * @returns {object} The body and its Content-Type
+ */
+async function buildReplyBody({ sign, join, text, file }: readOptions = {}): Promise<ReplyBody> {
+    const fields: [string, string][] = [];
+    if (sign !== undefined) fields.push(["sign", String(sign)]);
+    if (join !== undefined) fields.push(["join", String(join)]);
+    if (text !== undefined) fields.push(["text", text]);
+
+    if (!file) return { body: new URLSearchParams(fields).toString(), contentType: "application/x-www-form-urlencoded" };
+
+    const upload: NoticeReplyFile = typeof file === "string"
+        ? { filename: basename(file), content: await fs.readFile(file) }
+        : file;
+    const boundary = `----classeviva${randomBytes(12).toString("hex")}`;
+    const name = upload.filename.replace(/["\r\n]/g, "_");
+
+    const body = Buffer.concat([
+        ...fields.map(([key, value]) => Buffer.from(`--${boundary}\r\nContent-Disposition: form-data; name="${key}"\r\n\r\n${value}\r\n`)),
+        Buffer.from(`--${boundary}\r\nContent-Disposition: form-data; name="file"; filename="${name}"\r\nContent-Type: ${upload.mimeType ?? mimeTypeOf(name)}\r\n\r\n`),
+        upload.content,
+        Buffer.from(`\r\n--${boundary}--\r\n`),
+    ]);
+    return { body, contentType: `multipart/form-data; boundary=${boundary}` };
+}
+
+/**
+ * @private Formats a date as YYYY-MM-DD, strings are expected in that format already
+ * @param {Date | string} date The date
+ * @returns {string} The formatted date
+ */
+function formatDay(date: Date | string): string {
+    if (typeof date === "string") return date.slice(0, 10);
+    const month = date.getMonth() + 1;
+    const day = date.getDate();
+    return `${date.getFullYear()}-${month < 10 ? "0" + month : month}-${day < 10 ? "0" + day : day}`;
+}
+
+export {
+    filterNotices,
+    buildReplyBody,
+};
@@ -0,0 +1,218 @@
+import { Transform } from 'stream';
+import { Response } from 'node-fetch';
+import { RateLimitOptions, RequestPolicyOptions, FetchSignal, PolicyRequest } from './typings/Policy';
+
+/**
+ * Timeout, retry, concurrency and rate limit rules applied to every request. The same instance can be shared by many classes to limit them together
+ */
+class RequestPolicy {
+    readonly timeout: number;
+    readonly retries: number;
+    readonly backoff: number;
+    readonly maxBackoff: number;
+    readonly retryMethods: string[];
+    readonly concurrency: number;
+    readonly rateLimit: RateLimitOptions | undefined;
+
+    #active: number;
+    readonly #queue: (() => void)[];
+    #tokens: number;
+    #refilledAt: number;
+
+    /**
+     * @param {object} [options] Policy options
+     * @param {number} [options.timeout] Time in ms without an answer or, while reading the body, without new data after which a request is aborted, 0 to disable it, defaults to 30 seconds
+     * @param {number} [options.retries] How many times a request is retried after a network error or a 5xx status, defaults to 2
+     * @param {number} [options.backoff] Delay in ms before the first retry, doubled at every attempt, defaults to 500ms
+     * @param {number} [options.maxBackoff] Maximum delay in ms between two retries, defaults to 10 seconds
+     * @param {string[]} [options.retryMethods] Http methods that are safe to retry, defaults to GET and HEAD
+     * @param {number} [options.concurrency] Maximum number of requests running at the same time (until their body is read or discarded), defaults to no limit
+     * @param {object} [options.rateLimit] At most rateLimit.requests requests every rateLimit.interval ms, defaults to no limit
+     */
+    constructor({ timeout = 30000, retries = 2, backoff = 500, maxBackoff = 10000, retryMethods = ["GET", "HEAD"], concurrency = Infinity, rateLimit }: RequestPolicyOptions = {}) {
+        this.timeout = timeout;
+        this.retries = retries;
+        this.backoff = backoff;
+        this.maxBackoff = maxBackoff;
+        this.retryMethods = retryMethods.map(method => method.toUpperCase());
+        this.concurrency = concurrency;
+        this.rateLimit = rateLimit;
+
+        this.#active = 0;
+        this.#queue = [];
+        this.#tokens = rateLimit?.requests ?? 0;
+        this.#refilledAt = Date.now();
+    }
+
+    /**
+     * Runs a request following the policy
+     * @param {string} method Http method of the request, used to decide if it can be retried
+     * @param {Function} request Sends the request, it receives the signal that aborts it
+     * @returns {Promise<Response>} The response of the last attempt
+     */
+    async execute(method: string, request: PolicyRequest): Promise<Response> {
+        const retries = this.retryMethods.includes(method.toUpperCase()) ? this.retries : 0;
+
+        for (let attempt = 0; ; attempt++) {
+            try {
+                const response = await this.#run(request);
+                if (response.status < 500 || attempt >= retries) return response;
+                discard(response);
+            } catch (e: unknown) {
+                if (attempt >= retries) throw e;
+            }
+
+            await wait(Math.min(this.backoff * 2 ** attempt, this.maxBackoff));
+        }
+    }
+
+    /**
+     * @private Runs a single attempt once there's a free slot and a token.
+     * The timeout is an idle timeout: it restarts at every chunk of the body, so a server that stalls after the headers doesn't leave the caller waiting forever
+     * while long downloads keep going. The slot is freed once the body has been read, discarded or aborted
+     * @param {Function} request Sends the request
+     * @returns {Promise<Response>} The response
+     */
+    async #run(request: PolicyRequest): Promise<Response> {
+        await this.#acquire();
+        let reading = false;
+        try {
+            await this.#take();
+
+            const controller = new AbortController();
+            let timer: NodeJS.Timeout | undefined;
+            const arm = () => {
+                if (timer) clearTimeout(timer);
+                if (this.timeout > 0) timer = setTimeout(() => controller.abort(), this.timeout);
+                if (reading) timer?.unref();
+            };
+
+            let response: Response;
+            try {
+                arm();
+                response = await request(controller.signal as FetchSignal);
+            } catch (e: unknown) {
+                if (timer) clearTimeout(timer);
+                if (controller.signal.aborted) throw new Error(`Request timed out after ${this.timeout}ms`);
+                throw e;
+            }
+
+            if (!isStream(response.body)) {
+                if (timer) clearTimeout(timer);
+                return response;
+            }
+
+            reading = true;
+            arm();
+            return monitor(response, arm, () => {
+                if (timer) clearTimeout(timer);
+                this.#release();
+            });
+        } finally {
+            if (!reading) this.#release();
+        }
+    }
+
+    /**
+     * @private Waits for a free concurrency slot
+     * @returns {Promise<void>}
+     */
+    async #acquire(): Promise<void> {
+        if (this.#active < this.concurrency) {
+            this.#active++;
+            return;
+        }
+        await new Promise<void>(resolve => this.#queue.push(resolve));
+    }
+
+    /**
+     * @private Frees a concurrency slot, handing it to the next queued request
+     * @returns {void}
+     */
+    #release(): void {
+        const next = this.#queue.shift();
+        if (next) next();
+        else this.#active--;
+    }
+
+    /**
+     * @private Takes a token from the bucket, waiting for it to refill if it's empty
+     * @returns {Promise<void>}
+     */
+    async #take(): Promise<void> {
+        if (!this.rateLimit) return;
+        const { requests, interval } = this.rateLimit;
+
+        for (;;) {
+            const now = Date.now();
+            this.#tokens = Math.min(requests, this.#tokens + (now - this.#refilledAt) * requests / interval);
+            this.#refilledAt = now;
+
+            if (this.#tokens >= 1) {
+                this.#tokens--;
+                return;
+            }
+            await wait((1 - this.#tokens) * interval / requests);
+        }
+    }
+}
+
+/**
+ * Passes the body of a response through a stream that reports every chunk, and calls done once it has been read, failed or been destroyed
+ * @param {Response} response The response, its body must be a stream
+ * @param {Function} progress Called at every chunk
+ * @param {Function} done Called once
+ * @returns {Response} The same response with the monitored body
+ */
+function monitor(response: Response, progress: () => void, done: () => void): Response {
+    const source = response.body as NodeJS.ReadableStream & { destroy: (error?: Error) => void };
+    const body = new Transform({
+        transform(chunk, encoding, callback) {
+            progress();
+            callback(null, chunk);
+        },
+    });
+
+    let called = false;
+    const once = () => {
+        if (called) return;
+        called = true;
+        done();
+    };
+    body.once("end", once);
+    body.once("error", once);
+    body.once("close", () => {
+        once();
+        source.destroy();
+    });
+    source.once("error", (e: Error) => body.destroy(e));
+    source.pipe(body);
+
+    return new Response(body, { url: response.url, status: response.status, statusText: response.statusText, headers: response.headers });
+}
+
+/**
+ * @private Checks if a body is a stream that still has to be read
+ * @param {unknown} body The body
+ * @returns {boolean} true if it's a readable stream
+ */
+function isStream(body: unknown): body is NodeJS.ReadableStream {
+    return typeof (body as NodeJS.ReadableStream | null)?.pipe === "function";
+}
+
+/**
+ * Throws away the body of a response that won't be read, freeing its connection
+ * @param {Response} response The response
+ * @returns {void}
+ */
+function discard(response: Response): void {
+    const body = response.body as (NodeJS.ReadableStream & { destroy?: () => void }) | null;
+    body?.destroy?.();
+}
+
+function wait(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+export default RequestPolicy;
+export { discard };
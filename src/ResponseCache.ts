@@ -0,0 +1,184 @@
+import { KeyValueStore } from './typings/Stores';
+import { Logger } from './typings/Logger';
+import { CacheEntry, CacheRecord, CacheLoader, ResponseCacheOptions } from './typings/Cache';
+import { MemoryStore } from './stores/KeyValueStore';
+import { silentLogger } from './Logger';
+
+const indexKey = "index";
+
+/**
+ * Keeps the responses of the api by user and endpoint. Entries are served until their ttl expires, then they are revalidated
+ * with their ETag, so an unchanged endpoint answers 304 without a body. The same instance can be shared by many classes
+ */
+class ResponseCache {
+    readonly ttl: number;
+    readonly ttls: { [endpoint: string]: number };
+    readonly staleWhileRevalidate: number;
+
+    readonly #store: KeyValueStore<CacheRecord>;
+    readonly #logger: Logger;
+    readonly #pending: Map<string, Promise<unknown>>;
+    #indexing: Promise<unknown>;
+
+    /**
+     * @param {object} [options] Cache options
+     * @param {KeyValueStore} [options.store] Where the entries are kept, defaults to memory
+     * @param {number} [options.ttl] Time in ms a response is served without asking the server, defaults to 0 (always revalidated)
+     * @param {object} [options.ttls] Ttl of the endpoints starting with a path, e.g. { "/grades2": 60000, "/agenda": 300000 }
+     * @param {boolean | number} [options.staleWhileRevalidate] Serve expired entries (up to this many ms after they expired, or always if true) while they are revalidated in the background
+     * @param {Logger | false} [options.logger] Logger used by the cache, defaults to no logs
+     */
+    constructor({ store = new MemoryStore<CacheRecord>(), ttl = 0, ttls = {}, staleWhileRevalidate = false, logger = silentLogger }: ResponseCacheOptions = {}) {
+        this.ttl = ttl;
+        this.ttls = ttls;
+        this.staleWhileRevalidate = staleWhileRevalidate === true ? Infinity : staleWhileRevalidate || 0;
+
+        this.#store = store;
+        this.#logger = logger || silentLogger;
+        this.#pending = new Map();
+        this.#indexing = Promise.resolve();
+    }
+
+    /**
+     * Ttl of an endpoint, from the longest path of ttls it starts with
+     * @param {string} endpoint Path of the endpoint, e.g. "/agenda/all/20221101/20221130"
+     * @returns {number} The ttl in ms
+     */
+    ttlOf(endpoint: string): number {
+        const match = Object.keys(this.ttls)
+        .filter(path => endpoint === path || endpoint.startsWith(path.endsWith("/") ? path : `${path}/`))
+        .sort((a, b) => b.length - a.length)[0];
+        return match === undefined ? this.ttl : this.ttls[match];
+    }
+
+    /**
+     * Returns the cached data of an endpoint, or loads it when it's missing or expired. Concurrent loads of the same endpoint are sent once
+     * @param {string} user Owner of the data
+     * @param {string} endpoint Path of the endpoint
+     * @param {Function} load Sends the request with the ETag of the cached entry (empty if there's none) as Z-If-None-Match
+     * @returns {Promise<any>} The data
+     */
+    async resolve(user: string, endpoint: string, load: CacheLoader): Promise<unknown> {
+        const key = `${user}:${endpoint}`;
+        const entry = await this.#entry(key);
+        const now = Date.now();
+
+        if (entry && entry.expiresAt > now) {
+            this.#logger.debug(`Cache hit ${endpoint}`);
+            return entry.data;
+        }
+
+        if (entry && this.staleWhileRevalidate > 0 && now - entry.expiresAt <= this.staleWhileRevalidate) {
+            this.#logger.debug(`Cache stale ${endpoint}, revalidating`);
+            this.#revalidate(key, endpoint, entry, load).catch((e: unknown) => this.#logger.warn(`Could not revalidate ${endpoint} ⚠️ (${e instanceof Error ? e.message : e})`));
+            return entry.data;
+        }
+
+        return this.#revalidate(key, endpoint, entry, load);
+    }
+
+    /**
+     * Deletes the entries of a user, or of everyone. Requests still running for those entries are not stored
+     * @param {string} [user] Owner of the entries, all of them if missing
+     * @param {string} [endpoint] Only the endpoints under this path, whole segments are compared so "/grades" doesn't match "/grades2"
+     */
+    async invalidate(user?: string, endpoint: string = ""): Promise<void> {
+        const matches = (key: string) => user === undefined || key === `${user}:${endpoint}` || key.startsWith(`${user}:${endpoint.endsWith("/") ? endpoint : `${endpoint}/`}`);
+        [...this.#pending.keys()].filter(matches).forEach(key => this.#pending.delete(key));
+
+        let targets: string[] = [];
+        await this.#updateIndex(keys => {
+            targets = [...keys].filter(matches);
+            targets.forEach(key => keys.delete(key));
+            return targets.length > 0;
+        });
+        if (!targets.length) return;
+
+        await Promise.all(targets.map(key => this.#store.delete(key)));
+        this.#logger.debug(`Cache invalidated ${targets.length} entries`);
+    }
+
+    /**
+     * Deletes every entry
+     */
+    async clear(): Promise<void> {
+        return this.invalidate();
+    }
+
+    /**
+     * @private Sends the conditional request and stores the result, a 304 keeps the cached data. The result is not stored if the entry was invalidated meanwhile
+     * @param {string} key Key of the entry
+     * @param {string} endpoint Path of the endpoint
+     * @param {object | undefined} entry The cached entry
+     * @param {Function} load Sends the request
+     * @returns {Promise<any>} The data
+     */
+    #revalidate(key: string, endpoint: string, entry: CacheEntry | undefined, load: CacheLoader): Promise<unknown> {
+        const running = this.#pending.get(key);
+        if (running) return running;
+
+        const run = async (): Promise<unknown> => {
+            const response = await load(entry?.etag ?? "");
+            const notModified = response.status === 304 && entry !== undefined;
+            if (notModified) this.#logger.debug(`Cache revalidated ${endpoint}`);
+
+            const now = Date.now();
+            const data = notModified ? entry.data : response.data;
+            if (this.#pending.get(key) !== task) return data;
+
+            await this.#save(key, {
+                etag: response.etag || (notModified ? entry.etag : ""),
+                data,
+                storedAt: now,
+                expiresAt: now + this.ttlOf(endpoint),
+            });
+            return data;
+        };
+
+        const task = run().finally(() => this.#pending.get(key) === task && this.#pending.delete(key));
+
+        this.#pending.set(key, task);
+        return task;
+    }
+
+    /**
+     * @private Reads an entry
+     * @param {string} key Key of the entry
+     * @returns {object | undefined} The entry
+     */
+    async #entry(key: string): Promise<CacheEntry | undefined> {
+        const value = await this.#store.get(key);
+        return Array.isArray(value) ? undefined : value;
+    }
+
+    /**
+     * @private Writes an entry and adds it to the index
+     * @param {string} key Key of the entry
+     * @param {object} entry The entry
+     */
+    async #save(key: string, entry: CacheEntry): Promise<void> {
+        await this.#store.set(key, entry);
+        await this.#updateIndex(keys => {
+            if (keys.has(key)) return false;
+            keys.add(key);
+            return true;
+        });
+    }
+
+    /**
+     * @private Changes the keys of the stored entries, kept in the store so persistent stores can be invalidated after a restart.
+     * The index is read again every time, so caches sharing a store don't overwrite each other's keys, and changed one at a time
+     * @param {Function} change Changes the keys, returns true if they have to be written
+     */
+    #updateIndex(change: (keys: Set<string>) => boolean): Promise<void> {
+        const task = this.#indexing.then(async () => {
+            const value = await this.#store.get(indexKey);
+            const keys = new Set(Array.isArray(value) ? value : []);
+            if (change(keys)) await this.#store.set(indexKey, [...keys]);
+        });
+        this.#indexing = task.catch(() => undefined);
+        return task;
+    }
+}
+
+export default ResponseCache;
@@ -0,0 +1,171 @@
+import { Logger } from './typings/Logger';
+import { SessionManagerOptions } from './typings/Session';
+import { FetchSignal } from './typings/Policy';
+import { silentLogger } from './Logger';
+import { AuthenticationError } from './Errors';
+
+const MAX_TIMEOUT = 2 ** 31 - 1;
+
+/**
+ * Keeps a token alive: refreshes it a little before it expires, retrying with an exponential backoff
+ */
+class SessionManager {
+    readonly #refresh: (signal: AbortSignal) => Promise<void>;
+    readonly #onRefreshFailed: (error: unknown) => void;
+    readonly #logger: Logger;
+    readonly #margin: number;
+    readonly #retries: number;
+    readonly #backoff: number;
+
+    #expiration: Date | undefined;
+    #timer: NodeJS.Timeout | undefined;
+    #pending: Promise<void> | undefined;
+    #controller: AbortController | undefined;
+
+    /**
+     * @param {object} options Manager options
+     * @param {Function} options.refresh Gets a new token and calls start() with its expiration, must throw when it fails or when the signal it gets is aborted
+     * @param {Function} [options.onRefreshFailed] Called when a scheduled refresh failed every attempt
+     * @param {Logger} [options.logger] Logger used to report the refreshes
+     * @param {number} [options.refreshMargin] How many ms before the expiration the token gets refreshed, defaults to 5 minutes
+     * @param {number} [options.retries] How many times a failed refresh is retried, defaults to 3
+     * @param {number} [options.backoff] Delay in ms before the first retry, doubled at every attempt, defaults to 1 second
+     */
+    constructor({ refresh, onRefreshFailed = () => {}, logger = silentLogger, refreshMargin = 1000 * 60 * 5, retries = 3, backoff = 1000 }: SessionManagerOptions) {
+        this.#refresh = refresh;
+        this.#onRefreshFailed = onRefreshFailed;
+        this.#logger = logger;
+        this.#margin = refreshMargin;
+        this.#retries = retries;
+        this.#backoff = backoff;
+    }
+
+    get expiration(): Date | undefined {
+        return this.#expiration;
+    }
+
+    get timer(): NodeJS.Timeout | undefined {
+        return this.#timer;
+    }
+
+    /**
+     * Tracks a new token and schedules its refresh
+     * @param {Date | string} expiration When the token expires
+     * @returns {void}
+     */
+    start(expiration: Date | string): void {
+        this.stop();
+        this.#expiration = new Date(expiration);
+        this.#schedule();
+    }
+
+    /**
+     * Stops tracking the token and cancels the refresh in progress, it won't be retried anymore
+     * @returns {void}
+     */
+    stop(): void {
+        if (this.#timer) clearTimeout(this.#timer);
+        this.#timer = undefined;
+        this.#expiration = undefined;
+        this.#controller?.abort();
+        this.#controller = undefined;
+        this.#pending = undefined;
+    }
+
+    /**
+     * Checks if the token is still valid, keeping the refresh margin into account
+     * @returns {boolean} true if the token doesn't need to be refreshed yet
+     */
+    isValid(): boolean {
+        if (!this.#expiration || isNaN(this.#expiration.getTime())) return false;
+        return this.#expiration.getTime() - this.#margin > Date.now();
+    }
+
+    /**
+     * Refreshes the token if it's not valid anymore
+     * @returns {Promise<void>}
+     */
+    async ensure(): Promise<void> {
+        if (this.isValid()) return;
+        return this.refresh();
+    }
+
+    /**
+     * Refreshes the token, retrying with backoff. Concurrent calls share the same refresh
+     * @returns {Promise<void>} Resolves when the token was refreshed, rejects with the last error otherwise
+     */
+    refresh(): Promise<void> {
+        if (!this.#pending) {
+            const controller = new AbortController();
+            const pending: Promise<void> = this.#attempt(controller.signal).finally(() => {
+                if (this.#pending === pending) this.#pending = undefined;
+                if (this.#controller === controller) this.#controller = undefined;
+            });
+            this.#controller = controller;
+            this.#pending = pending;
+        }
+        return this.#pending;
+    }
+
+    /**
+     * @private Tries to refresh the token until it works, the retries are over or stop() is called
+     * @param {AbortSignal} signal Aborted by stop()
+     * @returns {Promise<void>}
+     */
+    async #attempt(signal: AbortSignal): Promise<void> {
+        for (let attempt = 0; ; attempt++) {
+            if (signal.aborted) throw new AuthenticationError("The session was closed while refreshing the token");
+            try {
+                return await this.#refresh(signal);
+            } catch (e: unknown) {
+                if (signal.aborted || attempt >= this.#retries) throw e;
+
+                const delay = this.#backoff * 2 ** attempt;
+                this.#logger.warn(`Could not refresh the token, retrying in ${delay}ms ⚠️`);
+                await backoff(delay, signal);
+            }
+        }
+    }
+
+    /**
+     * @private Schedules the refresh, the timer never keeps the process alive
+     * @returns {void}
+     */
+    #schedule(): void {
+        if (!this.#expiration) return;
+
+        const delay = Math.min(Math.max(this.#expiration.getTime() - this.#margin - Date.now(), 0), MAX_TIMEOUT);
+        this.#timer = setTimeout(() => {
+            const refresh = this.refresh();
+            const controller = this.#controller;
+            refresh.catch((error: unknown) => {
+                if (!controller?.signal.aborted) this.#onRefreshFailed(error);
+            });
+        }, delay);
+        this.#timer.unref();
+    }
+}
+
+/**
+ * Waits before the next retry without keeping the process alive, the wait ends as soon as the signal is aborted
+ * @param {number} delay The delay in ms
+ * @param {AbortSignal} signal Aborted by stop()
+ * @returns {Promise<void>} Rejects if the signal is aborted
+ */
+function backoff(delay: number, signal: AbortSignal): Promise<void> {
+    const target = signal as unknown as FetchSignal;
+    return new Promise((resolve, reject) => {
+        const abort = () => {
+            clearTimeout(timer);
+            reject(new AuthenticationError("The session was closed while refreshing the token"));
+        };
+        const timer = setTimeout(() => {
+            target.removeEventListener("abort", abort);
+            resolve();
+        }, delay);
+        timer.unref();
+        target.addEventListener("abort", abort, { once: true });
+    });
+}
+
+export default SessionManager;
@@ -0,0 +1,102 @@
+import { TalkTeacher } from './typings/Rest';
+import { TeacherSlot, TalkSlotsOptions, SuggestOptions, TalkSuggestion } from './typings/Talks';
+
+/**
+ * Turns the frames of getTalks() into a flat list of slots, sorted by date and time
+ * @param {object[]} teachers The teachers from getTalks()
+ * @param {object} [options] Slot options
+ * @param {string[]} [options.teacherIds] Only the slots of these teachers
+ * @param {boolean} [options.availableOnly] Skip the slots that are already booked, defaults to true
+ * @returns {object[]} The slots, with their teacher and frame data
+ */
+function flattenSlots(teachers: TalkTeacher[], { teacherIds, availableOnly = true }: TalkSlotsOptions = {}): TeacherSlot[] {
+    return teachers
+    .filter(teacher => !teacherIds || teacherIds.includes(teacher.teacherId))
+    .flatMap(({ teacherId, teacherName, frames }) => frames.flatMap(({ talkId, evtDate, place, online, slots }) => slots
+        .filter(slot => !availableOnly || slot.available)
+        .map(({ slot, startTime, endTime }) => ({ teacherId, teacherName, talkId, slot, evtDate, startTime, endTime, place, online }))
+    ))
+    .sort((a, b) => a.evtDate.localeCompare(b.evtDate) || minutes(a.startTime) - minutes(b.startTime));
+}
+
+/**
+ * Finds, for every day, the slots to book to meet all the teachers without overlaps, keeping the visit as short as possible.
+ * Days where a teacher has no free slot are skipped
+ * @param {object[]} slots The available slots, from flattenSlots() or getTalkSlots()
+ * @param {string[]} teacherIds The teachers to meet
+ * @param {object} [options] Suggestion options
+ * @param {number} [options.gap] Minutes needed between two talks, defaults to 0
+ * @param {number} [options.limit] Maximum number of suggestions, defaults to 5
+ * @returns {object[]} The best combination of every day, sorted by date
+ */
+function suggestSlots(slots: TeacherSlot[], teacherIds: string[], { gap = 0, limit = 5 }: SuggestOptions = {}): TalkSuggestion[] {
+    const teachers = [...new Set(teacherIds)];
+    if (!teachers.length) return [];
+
+    const days = [...new Set(slots.map(slot => slot.evtDate))].sort();
+    const suggestions: TalkSuggestion[] = [];
+
+    for (const day of days) {
+        const options = teachers
+        .map(teacherId => slots.filter(slot => slot.evtDate === day && slot.teacherId === teacherId))
+        .sort((a, b) => a.length - b.length);
+        if (options.some(list => !list.length)) continue;
+
+        const best = search(options, gap);
+        if (!best) continue;
+
+        const sorted = [...best].sort((a, b) => minutes(a.startTime) - minutes(b.startTime));
+        suggestions.push({
+            evtDate: day,
+            startTime: sorted[0].startTime,
+            endTime: sorted.reduce((end, slot) => minutes(slot.endTime) > minutes(end) ? slot.endTime : end, sorted[0].endTime),
+            slots: sorted,
+        });
+        if (suggestions.length >= limit) break;
+    }
+
+    return suggestions;
+}
+
+/**
+ * @private Backtracking search of the combination with the shortest span, the teachers with fewer options go first
+ * @param {object[][]} options The slots of every teacher on the same day
+ * @param {number} gap Minutes needed between two talks
+ * @returns {object[] | undefined} One slot per teacher, or undefined if they always overlap
+ */
+function search(options: TeacherSlot[][], gap: number): TeacherSlot[] | undefined {
+    let best: TeacherSlot[] | undefined;
+    let bestSpan = Infinity;
+    let bestStart = Infinity;
+
+    const visit = (index: number, chosen: TeacherSlot[], start: number, end: number) => {
+        const span = end - start;
+        if (chosen.length && (span > bestSpan || (span === bestSpan && start >= bestStart))) return;
+        if (index === options.length) {
+            best = chosen;
+            bestSpan = span;
+            bestStart = start;
+            return;
+        }
+
+        for (const slot of options[index]) {
+            const from = minutes(slot.startTime);
+            const to = minutes(slot.endTime);
+            const overlaps = chosen.some(other => from < minutes(other.endTime) + gap && minutes(other.startTime) < to + gap);
+            if (!overlaps) visit(index + 1, [...chosen, slot], Math.min(start, from), Math.max(end, to));
+        }
+    };
+
+    visit(0, [], Infinity, -Infinity);
+    return best;
+}
+
+function minutes(time: string): number {
+    const [hours, mins] = time.split(":").map(Number);
+    return hours * 60 + (mins || 0);
+}
+
+export {
+    flattenSlots,
+    suggestSlots,
+};
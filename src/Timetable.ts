@@ -0,0 +1,260 @@
+import { Lesson } from './typings/Rest';
+import { CalendarEvent, LessonTimesOptions } from './typings/ICalendar';
+import { TimetableSlot, WeeklyTimetable, TimetableOptions, Substitution, UpcomingLesson, NextLessonOptions, TimetableIcsOptions, TimetableDays } from './typings/Timetable';
+import { lessonTimes, toICS, capitalize } from './ICalendar';
+import { nextDay, parseDay, formatDay, days as rangeDays } from './DateRange';
+
+const dayNames = ["monday", "tuesday", "wednesday", "thursday", "friday", "saturday", "sunday"];
+
+/**
+ * Infers the weekly timetable from some weeks of lessons, from getLessons(false, start, end).
+ * Every day of the week and hour gets the subject found there most often, if it's there in at least minConfidence of the weeks, so one-off substitutions and events are ignored.
+ * The teachers of a slot are the ones found in it often enough: more than one means co-teaching. Consecutive hours of the same subject and teachers are merged
+ * @param {object[]} lessons The lessons, the more weeks the better
+ * @param {object} [options] Timetable options
+ * @param {number} [options.minConfidence] Share of the weeks a subject or a teacher must be found in, defaults to 0.5
+ * @returns {object} The timetable, its slots are sorted by day and hour
+ */
+function buildTimetable(lessons: Lesson[], { minConfidence = 0.5 }: TimetableOptions = {}): WeeklyTimetable {
+    const days = new Map<number, Set<string>>();
+    const cells = new Map<string, Map<string, Lesson[]>>();
+    for (const lesson of lessons) {
+        const day = dayOfWeek(lesson.evtDate);
+        days.set(day, (days.get(day) ?? new Set()).add(lesson.evtDate));
+
+        for (let hour = lesson.evtHPOS; hour < lesson.evtHPOS + Math.max(1, lesson.evtDuration); hour++) {
+            const cell = cells.get(`${day}|${hour}`) ?? new Map<string, Lesson[]>();
+            cell.set(lesson.evtDate, [...(cell.get(lesson.evtDate) ?? []), lesson]);
+            cells.set(`${day}|${hour}`, cell);
+        }
+    }
+
+    const slots: TimetableSlot[] = [];
+    for (const [key, cell] of cells) {
+        const [day, hour] = key.split("|").map(Number);
+
+        const subjects = new Map<number, string[]>();
+        for (const [date, found] of cell) {
+            new Set(found.map(lesson => lesson.subjectId)).forEach(subject => subjects.set(subject, [...(subjects.get(subject) ?? []), date]));
+        }
+        const [subjectId, dates] = [...subjects].sort(([, a], [, b]) => b.length - a.length || last(b).localeCompare(last(a)))[0];
+        const confidence = dates.length / (days.get(day)?.size ?? 1);
+        if (confidence < minConfidence) continue;
+
+        const teachers = new Map<string, number>();
+        for (const date of dates) {
+            new Set(cell.get(date)?.map(lesson => lesson.authorName)).forEach(teacher => teachers.set(teacher, (teachers.get(teacher) ?? 0) + 1));
+        }
+        const ranked = [...teachers].sort(([a, x], [b, y]) => y - x || a.localeCompare(b));
+        const regular = ranked.filter(([, count]) => count / dates.length >= minConfidence);
+
+        const latest = cell.get(last(dates))?.find(lesson => lesson.subjectId === subjectId);
+        slots.push({
+            dayOfWeek: day,
+            hour,
+            duration: 1,
+            subjectId,
+            subjectDesc: latest?.subjectDesc ?? "",
+            teachers: (regular.length ? regular : ranked.slice(0, 1)).map(([teacher]) => teacher),
+            confidence,
+        });
+    }
+
+    const dates = lessons.map(lesson => lesson.evtDate).sort();
+    return {
+        from: dates[0] ?? "",
+        to: last(dates) ?? "",
+        weeks: new Set(dates.map(weekOf)).size,
+        slots: merge(slots.sort((a, b) => a.dayOfWeek - b.dayOfWeek || a.hour - b.hour)),
+    };
+}
+
+/**
+ * Slot of the timetable at a day of the week and hour
+ * @param {object} timetable The timetable
+ * @param {number} dayOfWeek 1 is Monday, 7 is Sunday
+ * @param {number} hour The hour, 1 is the first one
+ * @returns {object | undefined} The slot, undefined if there's no lesson
+ */
+function slotAt(timetable: WeeklyTimetable, dayOfWeek: number, hour: number): TimetableSlot | undefined {
+    return timetable.slots.find(slot => slot.dayOfWeek === dayOfWeek && slot.hour <= hour && hour < slot.hour + slot.duration);
+}
+
+/**
+ * Lessons that don't follow the timetable: another teacher ("teacher"), another subject with a teacher not in the slot ("subject") or an hour without a slot ("extra")
+ * @param {object[]} lessons The lessons to check
+ * @param {object} timetable The timetable
+ * @returns {object[]} The lessons with the slot they should have followed
+ */
+function substitutions(lessons: Lesson[], timetable: WeeklyTimetable): Substitution[] {
+    return lessons.flatMap((lesson): Substitution[] => {
+        const expected = slotAt(timetable, dayOfWeek(lesson.evtDate), lesson.evtHPOS);
+        if (!expected) return [{ lesson, expected, reason: "extra" }];
+        if (expected.teachers.includes(lesson.authorName)) return [];
+        return [{ lesson, expected, reason: lesson.subjectId === expected.subjectId ? "teacher" : "subject" }];
+    });
+}
+
+/**
+ * Slots of a day
+ * @param {object} timetable The timetable
+ * @param {Date} date The day
+ * @returns {object[]} The slots, sorted by hour
+ */
+function lessonsOn(timetable: WeeklyTimetable, date: Date): TimetableSlot[] {
+    const day = (date.getDay() + 6) % 7 + 1;
+    return timetable.slots.filter(slot => slot.dayOfWeek === day);
+}
+
+/**
+ * Slots of the day after today
+ * @param {object} timetable The timetable
+ * @param {Date} [today] The day before, defaults to now
+ * @returns {object[]} The slots, sorted by hour
+ */
+function tomorrow(timetable: WeeklyTimetable, today: Date = new Date()): TimetableSlot[] {
+    return lessonsOn(timetable, nextDay(today));
+}
+
+/**
+ * First lesson starting after now, within the next two weeks
+ * @param {object} timetable The timetable
+ * @param {Date} [now] The moment to start from, defaults to now
+ * @param {object} [options] Lesson times (see ICalendar.lessonsToEvents()) and the calendar from getCalendar(), to skip the days without school
+ * @returns {object | undefined} The start and end of the lesson with its slot, undefined if there's none
+ */
+function nextLesson(timetable: WeeklyTimetable, now: Date = new Date(), { calendar, ...times }: NextLessonOptions = {}): UpcomingLesson | undefined {
+    for (let offset = 0; offset < 14; offset++) {
+        const date = new Date(now.getFullYear(), now.getMonth(), now.getDate() + offset);
+        const status = calendar?.find(day => day.dayDate === formatDay(date))?.status;
+        if (status && status !== "SD") continue;
+
+        for (const slot of lessonsOn(timetable, date)) {
+            const { start, end } = slotTimes(slot, date, times);
+            if (start > now) return { start, end, slot };
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Slots grouped by day name ("monday", "tuesday", ...), ready to be saved as JSON
+ * @param {object} timetable The timetable
+ * @returns {object} The days with at least a slot
+ */
+function byDay(timetable: WeeklyTimetable): TimetableDays {
+    const days: TimetableDays = {};
+    for (const slot of timetable.slots) {
+        const name = dayNames[slot.dayOfWeek - 1];
+        days[name] = [...(days[name] ?? []), slot];
+    }
+    return days;
+}
+
+/**
+ * Converts the slots to calendar events repeating every week
+ * @param {object} timetable The timetable
+ * @param {object} [options] Lesson times (see ICalendar.lessonsToEvents()), the first day (from, defaults to today) and the last one (until, defaults to never)
+ * @returns {object[]} The calendar events, with uids based on the day and hour
+ */
+function timetableToEvents(timetable: WeeklyTimetable, { from = new Date(), until, ...times }: TimetableIcsOptions = {}): CalendarEvent[] {
+    return timetable.slots.flatMap((slot): CalendarEvent[] => {
+        const first = new Date(from.getFullYear(), from.getMonth(), from.getDate() + (slot.dayOfWeek - ((from.getDay() + 6) % 7 + 1) + 7) % 7);
+        const count = until ? Math.floor((rangeDays({ start: first, end: until }) - 1) / 7) + 1 : undefined;
+        if (count !== undefined && count < 1) return [];
+
+        const { start, end } = slotTimes(slot, first, times);
+        return [{
+            uid: `timetable-${slot.dayOfWeek}-${slot.hour}@classeviva.js`,
+            start,
+            end,
+            floating: true,
+            summary: capitalize(slot.subjectDesc),
+            description: slot.teachers.join("\n"),
+            categories: ["LESSON"],
+            recurrence: count ? `FREQ=WEEKLY;COUNT=${count}` : "FREQ=WEEKLY",
+        }];
+    });
+}
+
+/**
+ * Builds an iCalendar file with the timetable repeating every week
+ * @param {object} timetable The timetable
+ * @param {object} [options] Calendar, lesson times and recurrence options
+ * @returns {string} The content of the .ics file
+ */
+function timetableToICS(timetable: WeeklyTimetable, options: TimetableIcsOptions = {}): string {
+    return toICS(timetableToEvents(timetable, options), { name: "Orario", ...options });
+}
+
+/**
+ * @private Merges consecutive hours with the same subject and teachers
+ * @param {object[]} slots The slots, sorted by day and hour
+ * @returns {object[]} The merged slots
+ */
+function merge(slots: TimetableSlot[]): TimetableSlot[] {
+    const merged: TimetableSlot[] = [];
+    for (const slot of slots) {
+        const previous = merged[merged.length - 1];
+        if (previous
+            && previous.dayOfWeek === slot.dayOfWeek
+            && previous.hour + previous.duration === slot.hour
+            && previous.subjectId === slot.subjectId
+            && previous.teachers.join() === slot.teachers.join()) {
+            previous.duration++;
+            previous.confidence = Math.min(previous.confidence, slot.confidence);
+        } else merged.push({ ...slot });
+    }
+    return merged;
+}
+
+/**
+ * @private Start and end of a slot on a day
+ * @param {object} slot The slot
+ * @param {Date} date The day
+ * @param {object} times Lesson times
+ * @returns {object} The start and the end
+ */
+function slotTimes(slot: TimetableSlot, date: Date, times: LessonTimesOptions): { start: Date, end: Date } {
+    const [start, end] = lessonTimes(slot.hour, slot.duration, times);
+    return {
+        start: new Date(date.getFullYear(), date.getMonth(), date.getDate(), 0, start),
+        end: new Date(date.getFullYear(), date.getMonth(), date.getDate(), 0, end),
+    };
+}
+
+/**
+ * @private Day of the week of a YYYY-MM-DD date, 1 is Monday and 7 is Sunday as in getCalendar()
+ * @param {string} date The date
+ * @returns {number} The day of the week
+ */
+function dayOfWeek(date: string): number {
+    return (parseDay(date).getDay() + 6) % 7 + 1;
+}
+
+/**
+ * @private Monday of the week of a YYYY-MM-DD date
+ * @param {string} date The date
+ * @returns {string} The Monday, as YYYY-MM-DD
+ */
+function weekOf(date: string): string {
+    const day = parseDay(date);
+    day.setDate(day.getDate() - (day.getDay() + 6) % 7);
+    return formatDay(day);
+}
+
+function last<T>(items: T[]): T {
+    return items[items.length - 1];
+}
+
+export {
+    buildTimetable,
+    slotAt,
+    substitutions,
+    lessonsOn,
+    tomorrow,
+    nextLesson,
+    byDay,
+    timetableToEvents,
+    timetableToICS,
+};
@@ -0,0 +1,130 @@
+import fetch, { Headers, RequestInit, Response } from 'node-fetch';
+import { readFileSync, writeFileSync } from 'fs';
+import { Transport, Fixture, RecordingTransportOptions } from './typings/Transport';
+
+/**
+ * The transport used when none is given, sends requests with node-fetch
+ */
+const defaultTransport: Transport = Object.freeze({
+    fetch: (url: string, init?: RequestInit) => fetch(url, init),
+});
+
+/**
+ * Sends requests through another transport and records every exchange as a fixture, ready to be replayed by ReplayTransport
+ */
+class RecordingTransport implements Transport {
+    readonly fixtures: Fixture[];
+    readonly #transport: Transport;
+    readonly #redact: (fixture: Fixture) => Fixture;
+
+    /**
+     * @param {object} [options] Transport options
+     * @param {Transport} [options.transport] Transport that sends the requests, defaults to node-fetch
+     * @param {Function} [options.redact] Called on every fixture before it's stored, useful to hide tokens and personal data
+     */
+    constructor({ transport = defaultTransport, redact = (fixture: Fixture) => fixture }: RecordingTransportOptions = {}) {
+        this.fixtures = [];
+        this.#transport = transport;
+        this.#redact = redact;
+    }
+
+    async fetch(url: string, init: RequestInit = {}): Promise<Response> {
+        const response = await this.#transport.fetch(url, init);
+        const body = await response.buffer();
+        const text = body.toString("utf8");
+        const binary = !Buffer.from(text, "utf8").equals(body);
+
+        this.fixtures.push(this.#redact({
+            request: {
+                method: (init.method ?? "GET").toUpperCase(),
+                url,
+            },
+            response: {
+                status: response.status,
+                headers: response.headers.raw(),
+                body: binary ? body.toString("base64") : text,
+                encoding: binary ? "base64" : "utf8",
+            },
+        }));
+
+        return new Response(body, {
+            status: response.status,
+            statusText: response.statusText,
+            headers: response.headers,
+            url: response.url,
+        });
+    }
+
+    /**
+     * Writes the recorded fixtures to a json file
+     * @param {string} path Path of the file
+     * @returns {void}
+     */
+    save(path: string): void {
+        writeFileSync(path, JSON.stringify(this.fixtures, null, 2));
+    }
+}
+
+/**
+ * Answers requests with recorded fixtures, without touching the network. Fixture urls can contain "*" wildcards and are matched ignoring the host, fixtures matching the same request are served in order and the last one is repeated
+ */
+class ReplayTransport implements Transport {
+    readonly fixtures: Fixture[];
+    readonly #served: Map<Fixture, number>;
+
+    /**
+     * @param {object[]} fixtures The fixtures to serve
+     */
+    constructor(fixtures: Fixture[] = []) {
+        this.fixtures = fixtures;
+        this.#served = new Map();
+    }
+
+    /**
+     * Creates a replay transport from a json file written by RecordingTransport.save()
+     * @param {string} path Path of the file
+     * @returns {ReplayTransport} The transport
+     */
+    static fromFile(path: string): ReplayTransport {
+        return new ReplayTransport(JSON.parse(readFileSync(path, "utf8")));
+    }
+
+    async fetch(url: string, init: RequestInit = {}): Promise<Response> {
+        const method = (init.method ?? "GET").toUpperCase();
+        const matches = this.fixtures.filter(({ request }) => request.method.toUpperCase() === method && matchUrl(request.url, url));
+        if (!matches.length) throw new Error(`No fixture for ${method} ${url}`);
+
+        const fixture = matches.find(match => !this.#served.has(match)) ?? matches[matches.length - 1];
+        this.#served.set(fixture, (this.#served.get(fixture) ?? 0) + 1);
+
+        const { status, headers = {}, body, encoding = "utf8" } = fixture.response;
+        const responseHeaders = new Headers();
+        for (const [name, value] of Object.entries(headers)) {
+            for (const item of Array.isArray(value) ? value : [value]) responseHeaders.append(name, item);
+        }
+
+        return new Response(Buffer.from(body, encoding), {
+            status,
+            headers: responseHeaders,
+            url,
+        });
+    }
+}
+
+/**
+ * Checks if an url matches the url of a fixture, ignoring the protocol and the host
+ * @param {string} pattern Url of the fixture, "*" matches anything
+ * @param {string} url Requested url
+ * @returns {boolean} true if they match
+ */
+function matchUrl(pattern: string, url: string): boolean {
+    const path = (value: string) => value.replace(/^[a-z]+:\/\/[^/]+/i, "");
+    const regex = new RegExp(`^${path(pattern).split("*").map(part => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join(".*")}$`);
+    return regex.test(path(url));
+}
+
+export {
+    defaultTransport,
+    RecordingTransport,
+    ReplayTransport,
+};
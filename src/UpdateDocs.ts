@@ -5,7 +5,7 @@ import { Class, FScheckOptions } from './typings/Docs';
 const tab = '   ';
 const data = {
     Methods: (cls: any) => Object.getOwnPropertyNames(Object.getPrototypeOf(new cls)).filter(method => method !== "constructor").map((m: string) => `> ${m}\n`),
-    Properties: (cls: any) => Object.getOwnPropertyNames(new cls).map((prop: string) => `> ${prop}\n`),
+    Properties: (cls: any) => Object.getOwnPropertyNames(new cls).filter(prop => !prop.startsWith("_")).map((prop: string) => `> ${prop}\n`),
 } as { [key: string]: (cls: Class) => string[]};
 
 (async () => {
@@ -0,0 +1,106 @@
+import { FieldType, Schema, ValidationIssue } from './typings/Validation';
+
+const note: Schema = { evtId: "number", evtText: "string", evtDate: "string", authorName: "string", readStatus: "boolean" };
+
+/**
+ * Expected shape of the items returned by Spaggiari, used when the validate option is enabled
+ */
+const schemas: Readonly<{ [name: string]: Schema }> = Object.freeze({
+    Grade: {
+        subjectId: "number", subjectCode: "string", subjectDesc: "string", evtId: "number", evtCode: "string", evtDate: "string",
+        decimalValue: ["number", "null"], displayValue: "string", displaPos: "number", notesForFamily: ["string", "null"], color: "string",
+        canceled: "boolean", underlined: "boolean", periodPos: "number", periodDesc: "string", componentPos: "number", componentDesc: "string",
+        weightFactor: "number", skillId: "number", gradeMasterId: "number", skillDesc: ["string", "null"], skillCode: ["string", "null"],
+        skillMasterId: "number", skillValueDesc: "string", skillValueShortDesc: ["string", "null"], oldskillId: "number", oldskillDesc: "string",
+    },
+    Absence: {
+        evtId: "number", evtCode: "string", evtDate: "string", evtHPos: ["number", "null"], evtValue: ["number", "null"],
+        isJustified: "boolean", justifReasonCode: ["string", "null"], justifReasonDesc: ["string", "null"],
+    },
+    AgendaEvent: {
+        evtId: "number", evtCode: "string", evtDatetimeBegin: "string", evtDatetimeEnd: "string", isFullDay: "boolean", notes: "string",
+        authorName: "string", classDesc: "string", subjectId: ["number", "null"], subjectDesc: ["string", "null"], homeworkId: ["number", "null"],
+    },
+    Lesson: {
+        evtId: "number", evtDate: "string", evtCode: "string", evtHPOS: "number", evtDuration: "number", classDesc: "string", authorName: "string",
+        subjectId: "number", subjectCode: "string", subjectDesc: "string", lessonType: "string", lessonArg: "string",
+    },
+    Notes: { NTTE: "array", NTCL: "array", NTWN: "array", NTST: "array" },
+    Note: note,
+    NoteWarning: { ...note, warningType: "string" },
+    Period: {
+        periodCode: "string", periodPos: "number", periodDesc: "string", isFinal: "boolean", dateStart: "string", dateEnd: "string",
+        miurDivisionCode: ["string", "null"],
+    },
+    Subject: { id: "number", description: "string", order: "number", teachers: "array" },
+    Documents: { documents: "array", schoolReports: "array" },
+    NoticeboardItem: {
+        pubId: "number", pubDT: "string", readStatus: "boolean", evtCode: "string", cntId: "number", cntValidFrom: "string", cntValidTo: "string",
+        cntValidInRange: "boolean", cntStatus: "string", cntTitle: "string", cntCategory: "string", cntHasChanged: "boolean", cntHasAttach: "boolean",
+        needJoin: "boolean", needReply: "boolean", needFile: "boolean", needSign: "boolean", evento_id: "string", attachments: "array",
+    },
+    SchoolBookCourse: { courseId: "number", courseDesc: "string", books: "array" },
+    CalendarDay: { dayDate: "string", dayOfWeek: "number", status: "string" },
+    DidacticsTeacher: { teacherId: "string", teacherName: "string", teacherFirstName: "string", teacherLastName: "string", folders: "array" },
+});
+
+/**
+ * Checks an object against a schema
+ * @param {unknown} data The object to check
+ * @param {object} schema The expected fields and their types
+ * @param {string} [path] Path of the object, used in the issues
+ * @returns {object[]} Missing fields, fields of the wrong type and fields not in the schema
+ */
+function validate(data: unknown, schema: Schema, path: string = ""): ValidationIssue[] {
+    const prefix = path ? `${path}.` : "";
+    if (typeOf(data) !== "object") return [{ path: path || "$", kind: "type", expected: "object", received: typeOf(data) }];
+
+    const record = data as { [key: string]: unknown };
+    const issues: ValidationIssue[] = [];
+    for (const [field, expected] of Object.entries(schema)) {
+        const types = Array.isArray(expected) ? expected : [expected];
+        if (!(field in record)) {
+            issues.push({ path: `${prefix}${field}`, kind: "missing", expected: types.join(" | ") });
+            continue;
+        }
+
+        const received = typeOf(record[field]);
+        if (!types.includes(received)) issues.push({ path: `${prefix}${field}`, kind: "type", expected: types.join(" | "), received });
+    }
+
+    for (const field of Object.keys(record)) {
+        if (!(field in schema)) issues.push({ path: `${prefix}${field}`, kind: "unexpected", received: typeOf(record[field]) });
+    }
+    return issues;
+}
+
+/**
+ * Checks every item of a list against a schema, the same issue is reported once
+ * @param {unknown} data The list to check
+ * @param {object} schema The expected fields of every item
+ * @param {string} [path] Path of the list, used in the issues
+ * @returns {object[]} The issues, with "[]" in place of the item index
+ */
+function validateList(data: unknown, schema: Schema, path: string = ""): ValidationIssue[] {
+    if (!Array.isArray(data)) return [{ path: path || "$", kind: "type", expected: "array", received: typeOf(data) }];
+
+    const issues = new Map<string, ValidationIssue>();
+    for (const item of data) {
+        for (const issue of validate(item, schema, `${path}[]`)) {
+            issues.set(`${issue.kind}:${issue.path}:${issue.received}`, issue);
+        }
+    }
+    return [...issues.values()];
+}
+
+function typeOf(value: unknown): FieldType {
+    if (value === null) return "null";
+    if (Array.isArray(value)) return "array";
+    return typeof value as FieldType;
+}
+
+export {
+    schemas,
+    validate,
+    validateList,
+};
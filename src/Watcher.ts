@@ -0,0 +1,200 @@
+import { EventEmitter } from 'events';
+import { KeyValueStore } from './typings/Stores';
+import { Logger } from './typings/Logger';
+import { WatchSource, WatchedClient, Snapshot, WatcherOptions, WatcherEvents, NoteType } from './typings/Watcher';
+import { MemoryStore } from './stores/KeyValueStore';
+import { createLogger, silentLogger } from './Logger';
+
+declare interface Watcher {
+    on<E extends keyof WatcherEvents>(event: E, listener: WatcherEvents[E]): this;
+    once<E extends keyof WatcherEvents>(event: E, listener: WatcherEvents[E]): this;
+    off<E extends keyof WatcherEvents>(event: E, listener: WatcherEvents[E]): this;
+    emit<E extends keyof WatcherEvents>(event: E, ...args: Parameters<WatcherEvents[E]>): boolean;
+}
+
+type Change = () => boolean;
+
+const sources: WatchSource[] = ["grades", "notes", "noticeboard", "absences", "agenda"];
+
+/**
+ * Polls a logged in client and emits an event for every new grade, note, notice, absence and homework.
+ * What has already been seen is kept in a snapshot per source, so nothing is emitted twice across restarts when a persistent store is used.
+ * A snapshot keeps at most snapshotSize ids, the oldest ones missing from the last response are dropped first
+ */
+class Watcher extends EventEmitter {
+    readonly #client: WatchedClient;
+    readonly #store: KeyValueStore<Snapshot>;
+    readonly #logger: Logger;
+    readonly #key: string;
+    readonly #sources: WatchSource[];
+    readonly #intervals: Record<WatchSource, number>;
+    readonly #agendaDays: number;
+    readonly #emitInitial: boolean;
+    readonly #snapshotSize: number;
+    readonly #timers: Map<WatchSource, NodeJS.Timeout>;
+    readonly #running: Map<WatchSource, Promise<number>>;
+
+    /**
+     * @param {Rest} client The client to poll, it must be logged in before calling start()
+     * @param {object} [options] Watcher options
+     * @param {number} [options.interval] Milliseconds between two polls, defaults to 5 minutes
+     * @param {object} [options.intervals] Interval of a single source, e.g. { noticeboard: 3600000 }
+     * @param {string[]} [options.sources] Sources to watch, defaults to all of them
+     * @param {object} [options.store] Where the snapshots are kept, defaults to a MemoryStore
+     * @param {string} [options.key] Prefix of the snapshot keys, defaults to the client's username
+     * @param {number} [options.agendaDays] Days of agenda checked for new homework, starting from today, defaults to 30
+     * @param {boolean} [options.emitInitial] Emit events for everything found when there is no snapshot yet, defaults to false
+     * @param {number} [options.snapshotSize] Ids kept in the snapshot of a source, defaults to 1000
+     * @param {object|false} [options.logger] Logger used for the poll failures
+     */
+    constructor(client: WatchedClient, { interval = 5 * 60 * 1000, intervals = {}, sources: watched = sources, store = new MemoryStore(), key = client.username, agendaDays = 30, emitInitial = false, snapshotSize = 1000, logger = createLogger() }: WatcherOptions = {}) {
+        super();
+        this.#client = client;
+        this.#store = store;
+        this.#logger = logger || silentLogger;
+        this.#key = key;
+        this.#sources = watched;
+        this.#intervals = Object.fromEntries(sources.map(source => [source, intervals[source] ?? interval])) as Record<WatchSource, number>;
+        this.#agendaDays = agendaDays;
+        this.#emitInitial = emitInitial;
+        this.#snapshotSize = snapshotSize;
+        this.#timers = new Map();
+        this.#running = new Map();
+    }
+
+    /**
+     * Whether the watcher is polling
+     */
+    get running(): boolean {
+        return this.#timers.size > 0;
+    }
+
+    /**
+     * Polls every source once and then keeps polling at the configured intervals
+     */
+    async start(): Promise<void> {
+        if (this.running) return;
+
+        for (const source of this.#sources) {
+            this.#timers.set(source, setInterval(() => this.poll(source), this.#intervals[source]));
+        }
+        await this.poll();
+    }
+
+    /**
+     * Stops polling, the snapshots are kept
+     */
+    stop(): void {
+        this.#timers.forEach(timer => clearInterval(timer));
+        this.#timers.clear();
+    }
+
+    /**
+     * Checks a source, or every watched source, for changes.
+     * Failures are emitted as "error" events (or logged when nobody listens) and never reject
+     * @param {string} [source] The source to check
+     * @returns {number} The number of events emitted
+     */
+    async poll(source?: WatchSource): Promise<number> {
+        if (!source) {
+            const counts = await Promise.all(this.#sources.map(source => this.poll(source)));
+            return counts.reduce((total, count) => total + count, 0);
+        }
+
+        const running = this.#running.get(source);
+        if (running) return running;
+
+        const task = this.#check(source).finally(() => this.#running.delete(source));
+        this.#running.set(source, task);
+        return task;
+    }
+
+    /**
+     * Forgets what has been seen, the next poll of every source is treated as the first one
+     */
+    async reset(): Promise<void> {
+        await Promise.all(sources.map(source => this.#store.delete(this.#storeKey(source))));
+    }
+
+    /**
+     * @private Fetches a source, diffs it against its snapshot and emits the changes
+     * @param {string} source The source to check
+     * @returns {number} The number of events emitted
+     */
+    async #check(source: WatchSource): Promise<number> {
+        try {
+            const previous = await this.#store.get(this.#storeKey(source));
+            const snapshot: Snapshot = { ...previous };
+            const changes: Change[] = [];
+            const current = new Set<string>();
+
+            const track = (id: string, state: string, onNew: Change | null, onChange: Change | null = null) => {
+                current.add(id);
+                if (!(id in snapshot)) {
+                    if (onNew) changes.push(onNew);
+                } else if (snapshot[id] !== state && onChange) changes.push(onChange);
+                snapshot[id] = state;
+            };
+
+            switch (source) {
+                case "grades":
+                    for (const grade of await this.#client.getGrades()) {
+                        if (grade.canceled) track(`${grade.evtId}`, "canceled", null, () => this.emit("gradeCanceled", grade));
+                        else track(`${grade.evtId}`, "", () => this.emit("newGrade", grade));
+                    }
+                    break;
+                case "notes":
+                    for (const [type, notes] of Object.entries(await this.#client.getNotes())) {
+                        for (const note of notes) track(`${type}-${note.evtId}`, "", () => this.emit("newNote", note, type as NoteType));
+                    }
+                    break;
+                case "noticeboard":
+                    for (const notice of await this.#client.getNoticeboard()) {
+                        track(`${notice.pubId}`, "", () => this.emit("newNotice", notice));
+                    }
+                    break;
+                case "absences":
+                    for (const absence of await this.#client.getAbsences()) {
+                        track(`${absence.evtId}`, "", () => this.emit("newAbsence", absence));
+                    }
+                    break;
+                case "agenda": {
+                    const end = new Date();
+                    end.setDate(end.getDate() + this.#agendaDays);
+                    for (const event of await this.#client.getAgenda("homework", new Date(), end)) {
+                        track(`${event.evtId}`, "", () => this.emit("homeworkAdded", event));
+                    }
+                    break;
+                }
+            }
+
+            const ids = Object.keys(snapshot);
+            const pruned = ids.filter(id => !current.has(id)).slice(0, Math.max(0, ids.length - this.#snapshotSize));
+            pruned.forEach(id => delete snapshot[id]);
+
+            const emit = previous !== undefined || this.#emitInitial;
+            if (emit) changes.forEach(change => change());
+            if (!previous || changes.length || pruned.length) await this.#store.set(this.#storeKey(source), snapshot);
+
+            const count = emit ? changes.length : 0;
+            this.emit("poll", source, count);
+            return count;
+        } catch (e: unknown) {
+            const error = e instanceof Error ? e : new Error(String(e));
+            if (this.listenerCount("error") > 0) this.emit("error", error, source);
+            else this.#logger.warn(`Could not check ${source}: ${error.message}`);
+            return 0;
+        }
+    }
+
+    /**
+     * @private Key of the snapshot of a source
+     * @param {string} source The source
+     * @returns {string} The key
+     */
+    #storeKey(source: WatchSource): string {
+        return `${this.#key}:${source}`;
+    }
+}
+
+export default Watcher;
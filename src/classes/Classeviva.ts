@@ -0,0 +1,275 @@
+import { User, TicketResponse } from '../typings/Rest';
+import { ClassevivaOptions, Backend } from '../typings/Classeviva';
+import { Logger } from '../typings/Logger';
+import Rest from './Rest';
+import Web from './Web';
+import RequestPolicy from '../RequestPolicy';
+import { createLogger, silentLogger } from '../Logger';
+import * as Enums from '../Enums';
+
+const routes: Readonly<Record<string, Backend>> = Object.freeze({
+    getGrades: "rest",
+    getAbsences: "rest",
+    getAbsenceReport: "rest",
+    getAgenda: "rest",
+    getHomework: "rest",
+    getLessons: "rest",
+    getTimetable: "rest",
+    getNotes: "rest",
+    getNoticeboard: "rest",
+    readNotice: "rest",
+    getDocuments: "rest",
+    downloadDocument: "rest",
+    getCalendar: "rest",
+    getPeriods: "rest",
+    getSubjects: "rest",
+    getSchoolBooks: "rest",
+    getDidactics: "rest",
+    getCard: "rest",
+    getTalks: "rest",
+    bookTalk: "rest",
+    getMessages: "web",
+    getThread: "web",
+    sendMessage: "web",
+    markMessagesRead: "web",
+    getUnreadMessages: "web",
+    getRubrica: "web",
+    getPortfolio: "web",
+    getBacheca: "web",
+    exportXmlAgenda: "web",
+});
+
+/**
+ * Logs into the REST and the web api with one set of credentials and sends every call to the api that implements it.
+ * The web session is opened with a ticket of the REST api when possible, so the password is sent only once
+ */
+class Classeviva {
+    public readonly rest: Rest;
+    public readonly web: Web;
+    readonly #useTicket: boolean;
+    readonly #lazyWeb: boolean;
+    readonly #logger: Logger;
+    #webLogin: Promise<boolean> | undefined;
+
+    /**
+     * @param {ClassevivaOptions} [options] Options of the Rest class, plus the ones below
+     * @param {object} [options.web] cid, pin and target of the web login
+     * @param {boolean} [options.useTicket] Open the web session with a ticket of the REST api, defaults to true
+     * @param {boolean} [options.lazyWeb] Log into the web api only when a web feature is used, defaults to true
+     */
+    constructor(options: ClassevivaOptions = {}) {
+        const { web = {}, useTicket = true, lazyWeb = true, logger = createLogger(), requestPolicy = {}, ...rest } = options;
+        const policy = requestPolicy instanceof RequestPolicy ? requestPolicy : new RequestPolicy(requestPolicy);
+
+        this.rest = new Rest({ ...rest, logger, requestPolicy: policy });
+        this.web = new Web({
+            cid: web.cid ?? "",
+            uid: rest.username ?? "",
+            pwd: rest.password ?? "",
+            pin: web.pin ?? "",
+            target: web.target ?? "",
+        }, {
+            logger,
+            requestPolicy: policy,
+            transport: rest.transport,
+            baseUrl: rest.baseUrl ?? `https://${Enums.Urls[rest.state ?? Enums.States.Italy]}`,
+        });
+        this.#useTicket = useTicket;
+        this.#lazyWeb = lazyWeb;
+        this.#logger = logger || silentLogger;
+        this.#webLogin = undefined;
+    }
+
+    /**
+     * true when the REST api is logged in, the web api logs in on its own when needed
+     */
+    get authorized(): boolean {
+        return this.rest.authorized;
+    }
+
+    /**
+     * Logs into the REST api and, unless lazyWeb is set, into the web api
+     * @returns {object} user object of the REST api
+     */
+    async login(): Promise<void | User> {
+        const user = await this.rest.login();
+        if (!this.#lazyWeb && this.rest.authorized) await this.ensureWeb();
+        return user;
+    }
+
+    /**
+     * Logs out from both the apis
+     * @returns {boolean} true if at least one of them was logged in
+     */
+    logout(): boolean {
+        this.#webLogin = undefined;
+        const web = this.web.authorized && this.web.logout();
+        const rest = this.rest.authorized && this.rest.logout();
+        return Boolean(web || rest);
+    }
+
+    /**
+     * Tells which api a method is sent to
+     * @param {string} method Name of the method
+     * @returns {string | undefined} "rest", "web" or undefined if the facade doesn't have the method
+     */
+    backendOf(method: string): Backend | undefined {
+        return routes[method];
+    }
+
+    /**
+     * Makes sure the web api is logged in. With useTicket it asks the REST api for a ticket and falls back to the password if the ticket is refused
+     * @returns {boolean} true if logged in
+     */
+    async ensureWeb(): Promise<boolean> {
+        if (this.web.authorized) return true;
+
+        this.#webLogin ??= this.#loginWeb().finally(() => {
+            this.#webLogin = undefined;
+        });
+        return this.#webLogin;
+    }
+
+    async getGrades(...args: Parameters<Rest["getGrades"]>): ReturnType<Rest["getGrades"]> {
+        return this.rest.getGrades(...args);
+    }
+
+    async getAbsences(...args: Parameters<Rest["getAbsences"]>): ReturnType<Rest["getAbsences"]> {
+        return this.rest.getAbsences(...args);
+    }
+
+    async getAbsenceReport(...args: Parameters<Rest["getAbsenceReport"]>): ReturnType<Rest["getAbsenceReport"]> {
+        return this.rest.getAbsenceReport(...args);
+    }
+
+    async getAgenda(...args: Parameters<Rest["getAgenda"]>): ReturnType<Rest["getAgenda"]> {
+        return this.rest.getAgenda(...args);
+    }
+
+    async getHomework(...args: Parameters<Rest["getHomework"]>): ReturnType<Rest["getHomework"]> {
+        return this.rest.getHomework(...args);
+    }
+
+    async getLessons(...args: Parameters<Rest["getLessons"]>): ReturnType<Rest["getLessons"]> {
+        return this.rest.getLessons(...args);
+    }
+
+    async getTimetable(...args: Parameters<Rest["getTimetable"]>): ReturnType<Rest["getTimetable"]> {
+        return this.rest.getTimetable(...args);
+    }
+
+    async getNotes(...args: Parameters<Rest["getNotes"]>): ReturnType<Rest["getNotes"]> {
+        return this.rest.getNotes(...args);
+    }
+
+    async getNoticeboard(...args: Parameters<Rest["getNoticeboard"]>): ReturnType<Rest["getNoticeboard"]> {
+        return this.rest.getNoticeboard(...args);
+    }
+
+    async readNotice(...args: Parameters<Rest["readNotice"]>): ReturnType<Rest["readNotice"]> {
+        return this.rest.readNotice(...args);
+    }
+
+    async getDocuments(...args: Parameters<Rest["getDocuments"]>): ReturnType<Rest["getDocuments"]> {
+        return this.rest.getDocuments(...args);
+    }
+
+    async downloadDocument(...args: Parameters<Rest["downloadDocument"]>): ReturnType<Rest["downloadDocument"]> {
+        return this.rest.downloadDocument(...args);
+    }
+
+    async getCalendar(...args: Parameters<Rest["getCalendar"]>): ReturnType<Rest["getCalendar"]> {
+        return this.rest.getCalendar(...args);
+    }
+
+    async getPeriods(...args: Parameters<Rest["getPeriods"]>): ReturnType<Rest["getPeriods"]> {
+        return this.rest.getPeriods(...args);
+    }
+
+    async getSubjects(...args: Parameters<Rest["getSubjects"]>): ReturnType<Rest["getSubjects"]> {
+        return this.rest.getSubjects(...args);
+    }
+
+    async getSchoolBooks(...args: Parameters<Rest["getSchoolBooks"]>): ReturnType<Rest["getSchoolBooks"]> {
+        return this.rest.getSchoolBooks(...args);
+    }
+
+    async getDidactics(...args: Parameters<Rest["getDidactics"]>): ReturnType<Rest["getDidactics"]> {
+        return this.rest.getDidactics(...args);
+    }
+
+    async getCard(...args: Parameters<Rest["getCard"]>): ReturnType<Rest["getCard"]> {
+        return this.rest.getCard(...args);
+    }
+
+    async getTalks(...args: Parameters<Rest["getTalks"]>): ReturnType<Rest["getTalks"]> {
+        return this.rest.getTalks(...args);
+    }
+
+    async bookTalk(...args: Parameters<Rest["bookTalk"]>): ReturnType<Rest["bookTalk"]> {
+        return this.rest.bookTalk(...args);
+    }
+
+    async getMessages(...args: Parameters<Web["getMessages"]>): ReturnType<Web["getMessages"]> {
+        await this.ensureWeb();
+        return this.web.getMessages(...args);
+    }
+
+    async getThread(...args: Parameters<Web["getThread"]>): ReturnType<Web["getThread"]> {
+        await this.ensureWeb();
+        return this.web.getThread(...args);
+    }
+
+    async sendMessage(...args: Parameters<Web["sendMessage"]>): ReturnType<Web["sendMessage"]> {
+        await this.ensureWeb();
+        return this.web.sendMessage(...args);
+    }
+
+    async markMessagesRead(...args: Parameters<Web["markMessagesRead"]>): ReturnType<Web["markMessagesRead"]> {
+        await this.ensureWeb();
+        return this.web.markMessagesRead(...args);
+    }
+
+    async getUnreadMessages(...args: Parameters<Web["getUnreadMessages"]>): ReturnType<Web["getUnreadMessages"]> {
+        await this.ensureWeb();
+        return this.web.getUnreadMessages(...args);
+    }
+
+    async getRubrica(...args: Parameters<Web["getRubrica"]>): ReturnType<Web["getRubrica"]> {
+        await this.ensureWeb();
+        return this.web.getRubrica(...args);
+    }
+
+    async getPortfolio(...args: Parameters<Web["getPortfolio"]>): ReturnType<Web["getPortfolio"]> {
+        await this.ensureWeb();
+        return this.web.getPortfolio(...args);
+    }
+
+    async getBacheca(...args: Parameters<Web["getBacheca"]>): ReturnType<Web["getBacheca"]> {
+        await this.ensureWeb();
+        return this.web.getBacheca(...args);
+    }
+
+    async exportXmlAgenda(...args: Parameters<Web["exportXmlAgenda"]>): ReturnType<Web["exportXmlAgenda"]> {
+        await this.ensureWeb();
+        return this.web.exportXmlAgenda(...args);
+    }
+
+    /**
+     * @private Logs into the web api, with a ticket first if enabled
+     * @returns {boolean} true if logged in
+     */
+    async #loginWeb(): Promise<boolean> {
+        if (this.#useTicket && this.rest.authorized) {
+            try {
+                const { ticket } = (await this.rest.getTicket() ?? {}) as Partial<TicketResponse>;
+                if (ticket && await this.web.loginWithTicket(ticket, this.rest.user.ident)) return true;
+            } catch (e: unknown) {
+                this.#logger.warn(`Could not use the ticket, logging in with the password ⚠️ (${e instanceof Error ? e.message : e})`);
+            }
+        }
+        return this.web.login();
+    }
+}
+
+export default Classeviva;
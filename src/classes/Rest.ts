@@ -1,34 +1,89 @@
-import fetch, { BodyInit, HeadersInit, RequestInit, Response } from 'node-fetch';
-import { parse, join } from 'path';
-import { readFileSync, writeFileSync } from 'fs';
-import { ClassOptions, User, Headers, FetchType, FetchMethod, FetchResponse, LoginResponse, AgendaFilter, TalkOptions, Overview, Card, ContentElement, FetchId, TermsAgreementResponse, setTermsAgreementResponse, readOptions, TokenStatus, TicketResponse, checkDocument, absences, readNotice, Grade, calendarDay } from '../typings/Rest';
+import { EventEmitter } from 'events';
+import { join } from 'path';
+import { BodyInit, HeadersInit, RequestInit, Response } from 'node-fetch';
+import { ClassOptions, User, Headers, FetchType, FetchMethod, FetchResponse, LoginResponse, LoginChoiceResponse, Student, UserSchool, AgendaFilter, TalkOptions, Overview, Card, ContentElement, FetchId, TermsAgreementResponse, setTermsAgreementResponse, readOptions, TokenStatus, TicketResponse, checkDocument, absences, readNotice, Grade, calendarDay, AgendaEvent, DocumentsResponse, NoticeboardItem, SchoolBookCourse, Lesson, AgendaNotes, Period, Subject, DidacticsTeacher, ParentsOptions, OverallTalk, TalkTeacher, TalkBooking, BookTalkResponse, TalkMessagesResponse } from '../typings/Rest';
+import { TeacherSlot, TalkSlotsOptions, SuggestOptions, TalkSuggestion } from '../typings/Talks';
+import { AttendanceOptions, AbsenceReport } from '../typings/Attendance';
+import { WeeklyTimetable, TimetableOptions } from '../typings/Timetable';
+import { Homework } from '../typings/Homework';
+import { DateRange, RangeInput } from '../typings/DateRange';
+import { SessionStore } from '../typings/Stores';
+import { Logger } from '../typings/Logger';
+import { RestEvents } from '../typings/Events';
+import { Schema } from '../typings/Validation';
+import { FetchSignal } from '../typings/Policy';
+import { Transport } from '../typings/Transport';
+import { NoticeboardFilter, ReplyBody } from '../typings/Noticeboard';
+import { CachedResponse } from '../typings/Cache';
+import { DownloadDestination, DownloadOptions, AttachmentDownloadOptions, DownloadResult, BulkDownloadOptions, BulkDownloadResult } from '../typings/Download';
+import { FileSessionStore } from '../stores/SessionStore';
+import SessionManager from '../SessionManager';
+import RequestPolicy, { discard } from '../RequestPolicy';
+import ResponseCache from '../ResponseCache';
+import { defaultTransport } from '../Transport';
+import { saveResponse, existingDownload, existingTarget, sanitize } from '../Download';
+import { filterNotices, buildReplyBody } from '../Noticeboard';
+import { flattenSlots, suggestSlots } from '../Talks';
+import { report } from '../Attendance';
+import { buildTimetable } from '../Timetable';
+import { normalizeHomework } from '../Homework';
+import { schoolYearOf, presetRange, days, chunkRange, splitRange, uniqueBy } from '../DateRange';
+import { createLogger, silentLogger } from '../Logger';
+import { schemas, validate, validateList } from '../Validation';
+import { ClassevivaError, AuthenticationError, NotLoggedInError, ApiError, NetworkError, ParseError } from '../Errors';
 import * as Enums from '../Enums';
 
-class Rest {
+declare interface Rest {
+    on<E extends keyof RestEvents<User>>(event: E, listener: RestEvents<User>[E]): this;
+    once<E extends keyof RestEvents<User>>(event: E, listener: RestEvents<User>[E]): this;
+    off<E extends keyof RestEvents<User>>(event: E, listener: RestEvents<User>[E]): this;
+    emit<E extends keyof RestEvents<User>>(event: E, ...args: Parameters<RestEvents<User>[E]>): boolean;
+}
+
+class Rest extends EventEmitter {
     public readonly username: string;
     readonly #password: string;
     #token: string;
 
     readonly #state: string;
+    readonly #origin: string;
     readonly #baseUrl: string;
-    readonly #directory: string;
+    readonly #store: SessionStore;
+    readonly #session: SessionManager;
+    #credentials: { username: string, password: string };
 
-    public login_timeout: NodeJS.Timeout;
+    /** @deprecated the token is refreshed by the session manager, this is its current timer */
+    public login_timeout: NodeJS.Timeout | undefined;
     public expiration: string;
     
     public authorized: boolean;
     public user: User;
+    public students: Student[];
+    #ident: string | undefined;
+    readonly #schools: Map<string, UserSchool>;
+    readonly #options: ClassOptions;
+    readonly #validate: boolean;
 
     readonly #app : string;
     #headers: Headers;
-    constructor({ username, password, state = Enums.States.Italy, app = Enums.Apps.Students }: ClassOptions = {}) {
+    readonly #compatibilityMode: boolean;
+    readonly #logger: Logger;
+    readonly #policy: RequestPolicy;
+    readonly #transport: Transport;
+    readonly #cache: ResponseCache | undefined;
+    readonly #maxRangeDays: number;
+    constructor(options: ClassOptions = {}) {
+        super();
+        const { username, password, state = Enums.States.Italy, app = Enums.Apps.Students, sessionStore = new FileSessionStore(), compatibilityMode = false, logger = createLogger(), session = {}, requestPolicy = {}, transport = defaultTransport, baseUrl, ident, validate = false, cache, maxRangeDays = Infinity } = options;
         this.username = username || "";
         this.#password = password || "";
         this.#token = "";
 
         this.#state = state;
-        this.#baseUrl = `https://${Enums.Urls[this.#state]}/rest/v1`;
-        this.#directory = join(parse(__dirname).dir, '..');
+        this.#origin = (baseUrl ?? `https://${Enums.Urls[this.#state]}`).replace(/\/+$/, "");
+        this.#baseUrl = `${this.#origin}/rest/v1`;
+        this.#store = sessionStore;
+        this.#credentials = { username: "", password: "" };
 
         this.login_timeout;
         this.expiration = "";
@@ -42,6 +97,10 @@ class Rest {
             type: undefined,
             school: {}
         };
+        this.students = [];
+        this.#ident = ident;
+        this.#schools = new Map();
+        this.#validate = validate;
 
         this.#app = app;
         this.#headers = {
@@ -51,6 +110,22 @@ class Rest {
             "Z-Dev-Apikey": "Tg1NWEwNGIgIC0K",
             "Z-If-None-Match": "",
         };
+        this.#compatibilityMode = compatibilityMode;
+        this.#logger = logger || silentLogger;
+        this.#policy = requestPolicy instanceof RequestPolicy ? requestPolicy : new RequestPolicy(requestPolicy);
+        this.#transport = transport;
+        this.#cache = cache instanceof ResponseCache || !cache ? cache : new ResponseCache({ logger: this.#logger, ...cache });
+        this.#maxRangeDays = maxRangeDays;
+        this.#options = { ...options, sessionStore, logger, requestPolicy: this.#policy, transport, cache: this.#cache };
+        this.#session = new SessionManager({
+            ...session,
+            logger: this.#logger,
+            refresh: (signal: AbortSignal) => this.#refreshToken(signal),
+            onRefreshFailed: (error: unknown) => {
+                this.#logger.error("Could not refresh the token ❌");
+                if (error instanceof Error && this.listenerCount("error") > 0) this.emit("error", error);
+            },
+        });
     }
 
     /**
@@ -58,44 +133,29 @@ class Rest {
      * @param {string} [username] Classeviva credentials username
      * @param {string} [password] Classeviva credentials password
      * @returns {object} user object
+     * @throws {AuthenticationError} If the credentials are missing or rejected
      */
     async login(username = this.username, password = this.#password): Promise<void | User> {
-        if (this.authorized) return this.#log("Already logged in ❌");
-
-        if (!username || !password) return this.#log("Username or password not set ❌");
+        if (this.authorized) {
+            if (this.#compatibilityMode) return this.#logger.warn("Already logged in ❌");
+            return this.user;
+        }
 
-        if (!await this.#checkTemp()) {
-            const userData = {
-                uid: username,
-                pass: password,
-            };
-    
-            const response: Response = await fetch(`${this.#baseUrl}/auth/login/`, {
-                method: "POST",
-                headers: this.#headers,
-                body: JSON.stringify(userData),
-            });
-    
-            const json: any = await response.json();
-    
-            if (json.error) {
-                this.#log(`An error happened: ${json.message} (${json.statusCode}) ❌`);
-                this.authorized = false;
-                return;
-            }
+        if (!username || !password) return this.#fail(new AuthenticationError("Username or password not set"));
 
-            if (response.status !== 200) return this.#log(`The server returned a status code other than 200 (${response.status}) ❌`);
-            
-            this.#updateData(json);
-            await writeFileSync(`${this.#directory}/cvv.json`, JSON.stringify(json, null, 2));
+        this.#credentials = { username, password };
+        try {
+            if (!await this.#restoreSession(this.#storeKey(username))) await this.#authenticate(username, password);
+        } catch (e: unknown) {
+            this.authorized = false;
+            return this.#fail(e as Error);
         }
 
-        if (!this.authorized) return this.#log("Failed to login ❌");
+        if (!this.authorized) return this.#fail(new AuthenticationError("Failed to login"));
 
-        this.#log(`Successfully logged in as "${this.user.name} ${this.user.surname}" ✅`);
-        this.login_timeout = setTimeout(() => {
-            this.login();
-        }, 1000 * 60 * 60 * 1.5);
+        this.#logger.info(`Successfully logged in as "${this.user.name} ${this.user.surname}" ✅`);
+        this.emit("login", this.user);
+        this.#startSession();
         return this.user;
     }
 
@@ -105,25 +165,151 @@ class Rest {
      */
     logout(): boolean {
         if (!this.authorized) {
-            this.#log("Already logged out ❌");
+            this.#logger.warn("Already logged out ❌");
             return false;
         }
-        clearTimeout(this.login_timeout);
-        this.authorized = false;
-        this.#token = "";
-        this.user = {};
-        this.expiration = "";
-        this.#log("Successfully logged out ✅");
+        this.#store.delete(this.#storeKey(this.#credentials.username), this.#state)
+        .catch(() => this.#logger.warn("Could not delete the saved session ⚠️"));
+        this.#reset();
+        this.#logger.info("Successfully logged out ✅");
+        this.emit("logout");
         return true;
     }
 
+    /**
+     * Stops refreshing the token and forgets it, without deleting the saved session: a later login restores it if it's still valid
+     * @returns {boolean} true if the client was logged in
+     */
+    close(): boolean {
+        if (!this.authorized) return false;
+        this.#reset();
+        this.#logger.debug("Session closed, the saved session is kept");
+        return true;
+    }
+
+    /**
+     * Deletes the saved session of the credentials without logging in or out, e.g. to log out from a new process
+     * @returns {Promise<void>}
+     */
+    async forgetSession(): Promise<void> {
+        await this.#store.delete(this.#storeKey(this.#credentials.username || this.username), this.#state);
+    }
+
+    /**
+     * Checks if the current token is still valid and doesn't need to be refreshed yet
+     * @returns {boolean} true if the session can be used without refreshing it
+     */
+    isSessionValid(): boolean {
+        return this.authorized && this.#session.isValid();
+    }
+
+    /**
+     * Makes sure the session can be used, refreshing the token if it's expired or about to expire
+     * @returns {boolean} true if the session is valid
+     * @throws {NotLoggedInError} If login() was never called
+     * @throws {AuthenticationError} If the token could not be refreshed
+     */
+    async ensureSession(): Promise<boolean> {
+        if (!this.authorized) {
+            this.#fail(new NotLoggedInError());
+            return false;
+        }
+
+        try {
+            await this.#session.ensure();
+            return true;
+        } catch (e: unknown) {
+            this.#fail(e as Error);
+            return false;
+        }
+    }
+
+    /**
+     * Turns a range preset into dates: "today", "thisWeek" and "nextWeek" (Monday to Sunday), "thisPeriod" (from getPeriods()) or "schoolYear" (September to August).
+     * Every method taking a start and an end date accepts a preset or a { start, end } object in place of the start date
+     * @param {RangeInput} range The preset, or a range that is returned as it is
+     * @returns {object} The range
+     * @throws {TypeError} If the range is a string that isn't a preset
+     */
+    async getRange(range: RangeInput): Promise<DateRange> {
+        if (typeof range !== "string") return range;
+        return presetRange(range, { periods: range === "thisPeriod" ? await this.getPeriods() : [] });
+    }
+
+    /**
+     * Deletes the cached responses of the user, see the cache option
+     * @param {string} [endpoint] Only the endpoints under this path, e.g. "/grades2", all of them if missing. Whole segments are compared, so "/grades" doesn't match "/grades2"
+     */
+    async invalidateCache(endpoint: string = ""): Promise<void> {
+        await this.#cache?.invalidate(this.#cacheUser(), endpoint);
+    }
+
+    /**
+     * Get the students linked to the account. Parents with more than one child get all of them, everyone else gets a single student
+     * @returns {object[]} Array of objects containing the linked students
+     */
+    async getStudents(): Promise<Student[]> {
+        if (this.students.length > 0) return this.students;
+
+        const cards: Card[] = await this.getCards();
+        this.students = cards.map(card => ({
+            ident: card.ident,
+            id: this.#removeLetters(card.ident || ""),
+            name: `${card.firstName} ${card.lastName}`,
+            school: card.schName,
+        }));
+        return this.students;
+    }
+
+    /**
+     * Switch the active student of a parent account, every following request will be about this student
+     * @param {string} ident Ident of the student, one of those returned by getStudents()
+     * @returns {object} user object of the selected student
+     */
+    async selectStudent(ident: string): Promise<User | void> {
+        if (!this.authorized) return this.#fail(new NotLoggedInError());
+        if (ident === this.user.ident) return this.user;
+        if (this.students.length > 0 && !this.students.some(student => student.ident === ident)) return this.#fail(new TypeError(`Unknown student ${ident}`));
+
+        const previous = { ident: this.#ident, token: this.#token, user: this.user, expiration: this.expiration };
+        const { username, password } = this.#credentials;
+        this.#ident = ident;
+        try {
+            if (!await this.#restoreSession(this.#storeKey(username))) await this.#authenticate(username, password);
+        } catch (e: unknown) {
+            this.#ident = previous.ident;
+            this.#token = previous.token;
+            this.user = previous.user;
+            this.expiration = previous.expiration;
+            this.authorized = true;
+            return this.#fail(e as Error);
+        }
+
+        this.#logger.info(`Selected student "${this.user.name} ${this.user.surname}" ✅`);
+        this.#startSession();
+        return this.user;
+    }
+
+    /**
+     * Get a new instance logged in as another student of the same account, to query several children at the same time
+     * @param {string} ident Ident of the student, one of those returned by getStudents()
+     * @returns {Rest} A logged in instance for the student
+     */
+    async forStudent(ident: string): Promise<Rest> {
+        const { username, password } = this.#credentials;
+        const rest = new Rest({ ...this.#options, username: username || this.username, password: password || this.#password, ident });
+        rest.students = this.students;
+        await rest.login();
+        return rest;
+    }
+
     /**
      * Get student's cards
      * @returns {object[]} Array of objects containing the student's cards
      */
     async getCards(): Promise<Card[] | []> {
         const data: { cards?: Card[] } | void = await this.#fetch("/cards");
-        if (data?.cards && data?.cards?.length > 0) this.#updateUser(data.cards[0]);
+        if (data?.cards && data?.cards?.length > 0) this.#updateUser(data.cards.find(card => card.ident === this.user.ident) ?? data.cards[0]);
         
         return data?.cards ?? [];
     }
@@ -145,6 +331,7 @@ class Rest {
      */
     async getGrades(): Promise<Grade[] | []> {
         const data: {grades: Grade[]} | void = await this.#fetch(`/grades2`);
+        this.#check("getGrades", data?.grades, schemas.Grade);
         return data?.grades ?? [];
     }
 
@@ -154,53 +341,87 @@ class Rest {
      */
     async getAbsences(): Promise<absences[] | []> {
         const data: {events: absences[]} | void = await this.#fetch(`/absences/details`);
+        this.#check("getAbsences", data?.events, schemas.Absence);
         return data?.events ?? [];
     }
 
+    /**
+     * Get a report of the absences: totals per period, events to justify and the share of school hours missed, see Attendance.report()
+     * @param {AttendanceOptions} [options] Report options
+     * @returns {object} The report, a warning is logged when its status isn't "ok"
+     */
+    async getAbsenceReport(options: AttendanceOptions = {}): Promise<AbsenceReport> {
+        const [events, periods, calendar] = await Promise.all([this.getAbsences(), this.getPeriods(), this.getCalendar()]);
+        const absences = report(events, periods, calendar, options);
+        if (absences.status === "exceeded") this.#logger.warn(`${(absences.yearPercentage * 100).toFixed(1)}% of the school hours of the year missed, over the limit ⚠️`);
+        else if (absences.status === "warning") this.#logger.warn(`${(absences.percentage * 100).toFixed(1)}% of the school hours so far missed, ${absences.remainingHours} hours left before the limit ⚠️`);
+        return absences;
+    }
+
     /**
      * Get student's agenda
      * @param {string} filter "all" | "homework" | "other", default "all", used to filter the agenda
-     * @param {Date} start The start date of the agenda (defaults to today)
+     * @param {Date | RangeInput} start The start date of the agenda (defaults to today), or a range like "thisWeek"
      * @param {Date} end  The end date of the agenda (defaults to today)
      * @returns {object[]} Array of objects containing the student's agenda
      */
-    async getAgenda(filter: AgendaFilter = "all", start: Date = new Date(), end: Date = new Date()): Promise<any> {
+    async getAgenda(filter: AgendaFilter = "all", start: Date | RangeInput = new Date(), end: Date = new Date()): Promise<AgendaEvent[] | []> {
         const filters = ["all", "homework", "other"];
-        if (!filters.includes(filter)) return this.#log("Invalid filter ❌");
+        if (!filters.includes(filter)) {
+            this.#fail(new TypeError("Invalid filter"));
+            return [];
+        }
         const map = {
             all: "all",
             homework: "AGHW",
             other: "AGNT",
         };
 
-        const data: any = await this.#fetch(`/agenda/${map[filter]}/${this.#formatDate(start)}/${this.#formatDate(end)}`);
+        const data: {agenda: AgendaEvent[]} | void = await this.#fetchRange(start, end, (from, to) => `/agenda/${map[filter]}/${from}/${to}`, parts => ({
+            agenda: uniqueBy(parts.flatMap(part => part.agenda ?? []), event => event.evtId),
+        }));
+        this.#check("getAgenda", data?.agenda, schemas.AgendaEvent);
         return data?.agenda ?? [];
     }
 
+    /**
+     * Get student's homework from the agenda, see normalizeHomework()
+     * @param {Date | RangeInput} [start] The start date of the agenda (defaults to today), or a range like "nextWeek"
+     * @param {Date} [end] The end date of the agenda (defaults to today)
+     * @returns {object[]} The homework, sorted by due date
+     */
+    async getHomework(start: Date | RangeInput = new Date(), end: Date = new Date()): Promise<Homework[]> {
+        return normalizeHomework(await this.getAgenda("homework", start, end));
+    }
+
     /**
      * Get student's documents
-     * @returns {object[]} Array of objects containing the student's documents
+     * @returns {object} Object containing the student's documents and school reports
      */
-    async getDocuments(): Promise<any> {
-        const data: any = await this.#fetch("/documents", "POST");
-        return data ?? [];
+    async getDocuments(): Promise<DocumentsResponse> {
+        const data: DocumentsResponse | void = await this.#fetch("/documents", "POST");
+        this.#check("getDocuments", data, schemas.Documents, false);
+        return data ?? { documents: [], schoolReports: [] };
     }
 
     /**
      * Get student's noticeboard items
+     * @param {object} [filter] { unread, category, needSign, needJoin, needReply, from, to }, every condition that is set must match
      * @returns {object[]} Array of objects containing the student's noticeboard items
      */
-    async getNoticeboard(): Promise<any> {
-        const data: any = await this.#fetch("/noticeboard");
-        return data?.items ?? [];
+    async getNoticeboard(filter: NoticeboardFilter = {}): Promise<NoticeboardItem[] | []> {
+        const data: {items: NoticeboardItem[]} | void = await this.#fetch("/noticeboard");
+        this.#check("getNoticeboard", data?.items, schemas.NoticeboardItem);
+        return filterNotices(data?.items ?? [], filter);
     }
 
     /**
      * Get student's books
      * @returns {object[]} Array of objects containing the student's books
      */
-    async getSchoolBooks(): Promise<any> {
-        const data: any = await this.#fetch("/schoolbooks");
+    async getSchoolBooks(): Promise<SchoolBookCourse[] | []> {
+        const data: {schoolbooks: SchoolBookCourse[]} | void = await this.#fetch("/schoolbooks");
+        this.#check("getSchoolBooks", data?.schoolbooks, schemas.SchoolBookCourse);
         return data?.schoolbooks ?? [];
     }
 
@@ -210,36 +431,56 @@ class Rest {
      */
     async getCalendar(): Promise<calendarDay[] | []> {
         const data: {calendar: calendarDay[]} | void = await this.#fetch("/calendar/all");
+        this.#check("getCalendar", data?.calendar, schemas.CalendarDay);
         return data?.calendar ?? [];
     }
 
     /**
      * Get student's lessons
-     * @param {boolean} [today] Boolean to get today's lessons, default true
-     * @param {Date} [start] If today is false, the start date of the lessons (defaults to today)
+     * @param {boolean | RangeInput} [today] Boolean to get today's lessons, default true, or a range like "thisWeek"
+     * @param {Date | RangeInput} [start] If today is false, the start date of the lessons (defaults to today), or a range
      * @param {Date} [end] If today is false, the end date of the lessons (defaults to today)
      * @returns {object[]} Array of objects containing the student's lessons
      */
-    async getLessons(today: boolean = true, start: Date = new Date(), end: Date = new Date()): Promise<any> {
-        const data: any = await this.#fetch(`/lessons${today ? "/today" : `/${this.#formatDate(start)}/${this.#formatDate(end)}`}`);
+    async getLessons(today: boolean | RangeInput = true, start: Date | RangeInput = new Date(), end: Date = new Date()): Promise<Lesson[] | []> {
+        const data: {lessons: Lesson[]} | void = today === true
+            ? await this.#fetch(`/lessons/today`)
+            : await this.#fetchRange(today === false ? start : today, end, (from, to) => `/lessons/${from}/${to}`, parts => ({
+                lessons: uniqueBy(parts.flatMap(part => part.lessons ?? []), lesson => lesson.evtId),
+            }));
+        this.#check("getLessons", data?.lessons, schemas.Lesson);
         return data?.lessons ?? [];
     }
 
+    /**
+     * Get the weekly timetable, inferred from the lessons of some weeks, see Timetable.buildTimetable()
+     * @param {Date | RangeInput} [start] The start date of the lessons to look at (defaults to four weeks ago), or a range
+     * @param {Date} [end] The end date of the lessons to look at (defaults to today)
+     * @param {TimetableOptions} [options] Timetable options
+     * @returns {object} The timetable
+     */
+    async getTimetable(start: Date | RangeInput = new Date(Date.now() - 28 * 24 * 60 * 60 * 1000), end: Date = new Date(), options: TimetableOptions = {}): Promise<WeeklyTimetable> {
+        return buildTimetable(await this.getLessons(false, start, end), options);
+    }
+
     /**
      * Get student's notes
-     * @returns {object[]} Array of objects containing the student's notes
+     * @returns {object} Object containing the student's notes grouped by type (NTTE, NTCL, NTWN, NTST)
      */
-    async getNotes(): Promise<any> {
-        const data: any = await this.#fetch("/notes/all");
-        return data ?? [];
+    async getNotes(): Promise<AgendaNotes> {
+        const data: AgendaNotes | void = await this.#fetch("/notes/all");
+        this.#check("getNotes", data, schemas.Notes, false);
+        if (data) Object.entries(data).forEach(([type, notes]) => this.#check("getNotes", notes, type === "NTWN" ? schemas.NoteWarning : schemas.Note, true, type));
+        return data ?? { NTTE: [], NTCL: [], NTWN: [], NTST: [] };
     }
 
     /**
      * Get student's periods
      * @returns {object[]} Array of objects containing the student's periods
      */
-    async getPeriods(): Promise<any> {
-        const data: any = await this.#fetch("/periods");
+    async getPeriods(): Promise<Period[] | []> {
+        const data: {periods: Period[]} | void = await this.#fetch("/periods");
+        this.#check("getPeriods", data?.periods, schemas.Period);
         return data?.periods ?? [];
     }
 
@@ -247,8 +488,9 @@ class Rest {
      * Get student's subjects
      * @returns {object[]} Array of objects containing the student's subjects
      */
-    async getSubjects(): Promise<any> {
-        const data: any = await this.#fetch("/subjects");
+    async getSubjects(): Promise<Subject[] | []> {
+        const data: {subjects: Subject[]} | void = await this.#fetch("/subjects");
+        this.#check("getSubjects", data?.subjects, schemas.Subject);
         return data?.subjects ?? [];
     }
 
@@ -256,8 +498,9 @@ class Rest {
      * Get student's didactics items
      * @returns {object[]} Array of objects containing the student's didactics items
      */
-    async getDidactics(): Promise<any> {
-        const data: any = await this.#fetch("/didactics");
+    async getDidactics(): Promise<DidacticsTeacher[] | []> {
+        const data: {didacticts: DidacticsTeacher[]} | void = await this.#fetch("/didactics");
+        this.#check("getDidactics", data?.didacticts, schemas.DidacticsTeacher);
         return data?.didacticts ?? [];
     }
 
@@ -273,8 +516,8 @@ class Rest {
      * Get a list of the possible parents options for classeviva
      * @returns {object} An object containing all the possible parents options for classeviva
      */
-    async getParentsOptions(): Promise<any> {
-        const data: any = await this.#fetch("/_options", "GET", "parents");
+    async getParentsOptions(): Promise<ParentsOptions> {
+        const data: {options: ParentsOptions} | void = await this.#fetch("/_options", "GET", "parents");
         return data?.options ?? {};
     }
 
@@ -282,36 +525,84 @@ class Rest {
      *  Get a list of the avaible talks with teachers on classeviva
      * @returns {object[]} An array of objects containing data about the avaible talks with teachers for classeviva
      */
-    async getOverallTalks(): Promise<any> {
-        const data: any = await this.#fetch("/overalltalks/list", "GET", "parents");
+    async getOverallTalks(): Promise<OverallTalk[] | []> {
+        const data: {overallTalks: OverallTalk[]} | void = await this.#fetch("/overalltalks/list", "GET", "parents");
         return data?.overallTalks ?? [];
     }
     
     /**
      *  Get a list of something regarding the talks with teachers
-     * @param {Date} start The start date of the talks (defaults to today)
+     * @param {Date | RangeInput} start The start date of the talks (defaults to today), or a range like "nextWeek"
      * @param {Date} end The end date of the talks (defaults to today)
      * @returns {object[]} An array of objects containing data about the talks with teachers for classeviva
      */
-    async getTalks(start: Date = new Date(), end: Date = new Date()): Promise<any> {
-        const data: any = await this.#fetch(`/talks/teachersframes/${this.#formatDate(start)}/${this.#formatDate(end)}`, "GET", "parents");
+    async getTalks(start: Date | RangeInput = new Date(), end: Date = new Date()): Promise<TalkTeacher[] | []> {
+        const data: {teachers: TalkTeacher[]} | void = await this.#fetchRange(start, end, (from, to) => `/talks/teachersframes/${from}/${to}`, parts => ({
+            teachers: [...parts.flatMap(part => part.teachers ?? []).reduce((teachers, teacher) => {
+                const known = teachers.get(teacher.teacherId);
+                return teachers.set(teacher.teacherId, known ? { ...known, frames: [...known.frames, ...teacher.frames] } : teacher);
+            }, new Map<string, TalkTeacher>()).values()],
+        }), "parents");
         return data?.teachers ?? [];
     }
 
+    /**
+     * Get the talk slots of every teacher as a flat list
+     * @param {Date | RangeInput} start The start date of the talks (defaults to today), or a range
+     * @param {Date} end The end date of the talks (defaults to today)
+     * @param {object} [options] { teacherIds, availableOnly }, only free slots are returned unless availableOnly is false
+     * @returns {object[]} Array of slots with their teacher, date, time and place, sorted by date and time
+     */
+    async getTalkSlots(start: Date | RangeInput = new Date(), end: Date = new Date(), options: TalkSlotsOptions = {}): Promise<TeacherSlot[]> {
+        return flattenSlots(await this.getTalks(start, end), options);
+    }
+
+    /**
+     * Get the talks booked by the parent
+     * @param {Date | RangeInput} start The start date of the bookings (defaults to today), or a range
+     * @param {Date} end The end date of the bookings (defaults to today)
+     * @returns {object[]} Array of objects containing the booked talks
+     */
+    async getTalkBookings(start: Date | RangeInput = new Date(), end: Date = new Date()): Promise<TalkBooking[] | []> {
+        const data: {bookings: TalkBooking[]} | void = await this.#fetchRange(start, end, (from, to) => `/talks/mytalks/${from}/${to}`, parts => ({
+            bookings: uniqueBy(parts.flatMap(part => part.bookings ?? []), booking => booking.bookingId),
+        }), "parents");
+        return data?.bookings ?? [];
+    }
+
+    /**
+     * Cancel a booked talk
+     * @param {string | number} bookingId booking id of the talk
+     * @returns {boolean} true if the booking has been deleted
+     */
+    async cancelTalk(bookingId: string | number): Promise<boolean> {
+        const data: {deleted: boolean} | void = await this.#fetch(`/talks/delete/${bookingId}`, "POST", "parents");
+        if (data) await this.invalidateCache("/talks");
+        return data?.deleted ?? false;
+    }
+
+    /**
+     * Suggest which slots to book to meet several teachers on the same day, without overlapping talks and with the shortest visit
+     * @param {string[]} teacherIds The teachers to meet
+     * @param {Date | RangeInput} start The first day to consider (defaults to today), or a range
+     * @param {Date} end The last day to consider (defaults to today)
+     * @param {object} [options] { gap, limit }, gap is the number of minutes needed between two talks
+     * @returns {object[]} The best combination of every day where all the teachers are available, sorted by date
+     */
+    async suggestTalks(teacherIds: string[], start: Date | RangeInput = new Date(), end: Date = new Date(), options: SuggestOptions = {}): Promise<TalkSuggestion[]> {
+        return suggestSlots(await this.getTalkSlots(start, end, { teacherIds }), teacherIds, options);
+    }
+
     /**
      *  Get auth ticket
      * @returns {object} An object containing data about the auth ticket
      */
-    async getTicket(): Promise<TicketResponse | void> {
-        if (!this.authorized) return this.#log("Not authorized ❌");
+    async getTicket(): Promise<TicketResponse | {} | void> {
+        if (!this.authorized) return this.#fail(new NotLoggedInError("Not authorized"));
 
-        const headers = Object.assign({ "Z-Auth-Token": this.#token }, this.#headers);
-        const res: Response = await fetch(`${this.#baseUrl}/auth/ticket`, {
-            headers
-        });
-
-        const data: TicketResponse = await res.json()
-        .catch(() => this.#log("Could not parse JSON while getting ticket ❌"));
+        const data: TicketResponse | void = await this.#request(`${this.#baseUrl}/auth/ticket`, () => ({
+            headers: this.#authHeaders()
+        }));
 
         return data ?? {};
     }
@@ -321,62 +612,89 @@ class Rest {
      * @returns {unknown} The user avatar (not tested)
      */
     async getAvatar(): Promise<any> {
-        if (!this.authorized) return this.#log("Not authorized ❌");
-
-        const headers = Object.assign({ "Z-Auth-Token": this.#token }, this.#headers);
-        const res: Response = await fetch(`${this.#baseUrl}/auth/avatar`, {
-            headers
-        });
+        if (!this.authorized) return this.#fail(new NotLoggedInError("Not authorized"));
 
-        const data: any = await res.json()
-        .catch(() => this.#log("Could not parse JSON while getting avatar ❌"));
+        const data: any = await this.#request(`${this.#baseUrl}/auth/avatar`, () => ({
+            headers: this.#authHeaders()
+        }));
 
         return data ?? {};
     }
 
     /**
      * Get an overview of the day specified or the time specified
-     * @param {Date} start The start date of the overview (defaults to today)
+     * @param {Date | RangeInput} start The start date of the overview (defaults to today), or a range like "thisWeek"
      * @param {Date} end The end date of the overview (defaults to today)
      * @returns {object} An object containing data about the overview of a day or the time specified
      */
-    async getOverview(start: Date = new Date(), end: Date = new Date()): Promise<Overview | {}> {
-        const data: Overview | void = await this.#fetch(`/overview/all/${this.#formatDate(start)}/${this.#formatDate(end)}`);
+    async getOverview(start: Date | RangeInput = new Date(), end: Date = new Date()): Promise<Overview | {}> {
+        const data: Overview | void = await this.#fetchRange(start, end, (from, to) => `/overview/all/${from}/${to}`, parts => ({
+            virtualClassesAgenda: parts.flatMap(part => part.virtualClassesAgenda ?? []),
+            lessons: uniqueBy(parts.flatMap(part => part.lessons ?? []), lesson => lesson.evtId),
+            agenda: uniqueBy(parts.flatMap(part => part.agenda ?? []), event => event.evtId),
+            events: uniqueBy(parts.flatMap(part => part.events ?? []), event => event.evtId),
+            grades: uniqueBy(parts.flatMap(part => part.grades ?? []), grade => grade.evtId),
+            note: {
+                NTTE: parts.flatMap(part => part.note?.NTTE ?? []),
+                NTCL: parts.flatMap(part => part.note?.NTCL ?? []),
+                NTWN: parts.flatMap(part => part.note?.NTWN ?? []),
+                NTST: parts.flatMap(part => part.note?.NTST ?? []),
+            },
+        }));
         return data ?? {};
     }
 
-    /*/**
-     * Not implemented yet 😢
-     * @param {string || number} bookingId booking id of the talk
+    /**
+     * Send a message to the teacher of a booked talk
+     * @param {string | number} bookingId booking id of the talk
      * @param {string} message message to send
-     * @returns {unknown}
+     * @returns {object} An object containing the messages of the talk
      */
-    /*async sendTeacherMessage(bookingId: string, message: string) {
-        const data: any = await this.#fetch(`/talks/teachermessage/${bookingId}`, "POST", "parents");
+    async sendTeacherMessage(bookingId: string | number, message: string): Promise<TalkMessagesResponse | {}> {
+        const data: TalkMessagesResponse | void = await this.#fetch(`/talks/teachermessage/${bookingId}`, "POST", "parents", JSON.stringify({ messageText: message }));
         return data ?? {};
-    }; */
+    }
 
     /**
-     * Read messages from the inbox of a talk
-     * @param {string || number} bookingId booking id of the talk
-     * @param {string} message message to send
-     * @returns {object}
+     * Read messages from the inbox of a talk, they are marked as read
+     * @param {string | number} bookingId booking id of the talk
+     * @returns {object} An object containing the messages of the talk
      */
-    async readTalkMessage(bookingId: string) {
-        const data: any = await this.#fetch(`/talks/teachermessage/${bookingId}`, "POST", "parents", JSON.stringify({"messageRead":true}));
+    async readTalkMessage(bookingId: string | number): Promise<TalkMessagesResponse | {}> {
+        const data: TalkMessagesResponse | void = await this.#fetch(`/talks/teachermessage/${bookingId}`, "POST", "parents", JSON.stringify({"messageRead":true}));
         return data ?? {};
     }
 
     /**
-     * Checks if a document is avaible
+     * Checks if a document is available
      * @param {string | number} hash The hash of the document
      * @returns {object} An object containing data about the document
      */
     async checkDocument(hash: string | number): Promise<checkDocument | {}> {
-        const data: checkDocument | void = await this.#fetch(`/documents/check/${hash}/`, "POST");
+        const data: {document: checkDocument} | void = await this.#fetch(`/documents/check/${hash}/`, "POST");
         return data?.document ?? {};
     }
 
+    /**
+     * Downloads a document to a file, a directory or a writable stream, after checking that it's available
+     * @param {string} hash The hash of the document
+     * @param {string | NodeJS.WritableStream} destination A file path, a directory (existing or ending with a slash) or a writable stream
+     * @param {object} [options] { filename, overwrite }, an existing file with the same size is skipped unless overwrite is true
+     * @returns {object} The downloaded file, with its name and MIME type taken from the response headers
+     */
+    async downloadDocument(hash: string, destination: DownloadDestination, options: DownloadOptions = {}): Promise<DownloadResult | void> {
+        if (!this.authorized) return this.#fail(new NotLoggedInError("Not authorized"));
+
+        const status = await this.checkDocument(hash);
+        if (!("available" in status) || !status.available) return this.#fail(new ClassevivaError(`Document "${hash}" is not available`));
+
+        try {
+            return await this.#download(`${this.#baseUrl}/students/${this.user.id}/documents/read/${hash}/`, "POST", destination, options);
+        } catch (e: unknown) {
+            return this.#fail(e as Error);
+        }
+    }
+
     /**
      * Book a talk with a teacher
      * @param {string | number} teacherId The id of the teacher
@@ -385,8 +703,9 @@ class Rest {
      * @param {object} opts contact options
      * @returns {object} An object containing data about the booked talk
      */
-    async bookTalk(teacherId: string | number, talkId: string | number, slot: string | number, opts: TalkOptions): Promise<any> {
-        const data: any = await this.#fetch(`/talks/book/${teacherId}/${talkId}/${slot}`, "POST", "parents", JSON.stringify(opts));
+    async bookTalk(teacherId: string | number, talkId: string | number, slot: string | number, opts: TalkOptions): Promise<BookTalkResponse | {}> {
+        const data: BookTalkResponse | void = await this.#fetch(`/talks/book/${teacherId}/${talkId}/${slot}`, "POST", "parents", JSON.stringify(opts));
+        if (data) await this.invalidateCache("/talks");
         return data ?? {};
     }
 
@@ -396,16 +715,12 @@ class Rest {
      * @returns {object[]} An array of objects containing data about the contents that's displayed in the app
      */
     async getContents(common = true): Promise<ContentElement[] | [] | void> {
-        if (!this.authorized) return this.#log("Not authorized ❌");
-        if (!this.user.school?.code) return this.#log("No school code, please update using getCard() or getCards() ❌");
-
-        const headers = Object.assign({ "Z-Auth-Token": this.#token }, this.#headers);
-        const response: Response = await fetch(`https://${Enums.Urls[this.#state]}/gek/api/v1/${this.user.school.code}/2021/students/contents?common=${common}`, {
-            headers
-        });
+        if (!this.authorized) return this.#fail(new NotLoggedInError("Not authorized"));
+        if (!this.user.school?.code) return this.#fail(new ClassevivaError("No school code, please update using getCard() or getCards()"));
 
-        const data: ContentElement[] = await response.json()
-        .catch(() => this.#log("Could not parse JSON while getting content ❌"));
+        const data: ContentElement[] | void = await this.#request(`${this.#origin}/gek/api/v1/${this.user.school.code}/${schoolYearOf()}/students/contents?common=${common}`, () => ({
+            headers: this.#authHeaders()
+        }));
 
         return data ?? [];
     }
@@ -431,51 +746,125 @@ class Rest {
     }
 
     /**
-     * Read a notice from the school
+     * Read a notice from the school, and optionally sign it, join it or reply with a text or a file
      * @param {string} eventCode Event code of the notice
      * @param {string | number} id Id of the notice
-     * @param {object} options { sign, join, text }
-     * @returns {object} An object containing data about the notice
+     * @param {object} [options] { sign, join, text, file, attachNum }, the file can be a path or { filename, content, mimeType }
+     * @returns {object} An object containing data about the notice and the current reply
      */
-    async readNotice(eventCode: string, id: string | number, options: readOptions = {}): Promise<readNotice | {}> {
-        const data: readNotice | void = await this.#fetch(`/noticeboard/read/${eventCode}/${id}/101`, "POST", "students", options ? JSON.stringify(options) : "", true, "userId", {
-            "Content-Type": "application/x-www-form-urlencoded"
+    async readNotice(eventCode: string, id: string | number, { attachNum = 101, ...options }: readOptions = {}): Promise<readNotice | {}> {
+        let reply: ReplyBody;
+        try {
+            reply = await buildReplyBody(options);
+        } catch (e: unknown) {
+            this.#fail(e as Error);
+            return {};
+        }
+
+        const data: readNotice | void = await this.#fetch(`/noticeboard/read/${eventCode}/${id}/${attachNum}`, "POST", "students", reply.body, true, "userId", {
+            "Content-Type": reply.contentType
         });
+        if (data) await this.invalidateCache("/noticeboard");
         return data ?? {};
     }
 
+    /**
+     * Marks every unread notice as read
+     * @param {object} [filter] Only the unread notices matching the filter are read, see getNoticeboard()
+     * @returns {object[]} The notices that have been read
+     */
+    async markAllNoticesRead(filter: NoticeboardFilter = {}): Promise<NoticeboardItem[]> {
+        const notices = await this.getNoticeboard({ ...filter, unread: true });
+        const read: NoticeboardItem[] = [];
+
+        for (const notice of notices) {
+            const data = await this.readNotice(notice.evtCode, notice.pubId);
+            if ("item" in data) read.push({ ...notice, readStatus: true });
+        }
+        return read;
+    }
+
     /**
      * Get the document url of a notice attachment
      * @param {string} eventCode Event code of the notice
      * @param {string | number} id Id of the notice
-     * @returns {string} The url of the document
+     * @param {number} [attachNum] Number of the attachment, defaults to the first one
+     * @returns {string} The url of the document, empty if the server sends the file directly
      */
-    async getNoticeDocumentUrl(eventCode: string, id: string | number): Promise<string | void> {
-        if (!this.authorized) return this.#log("Not authorized ❌");
+    async getNoticeDocumentUrl(eventCode: string, id: string | number, attachNum?: number): Promise<string | void> {
+        if (!this.authorized) return this.#fail(new NotLoggedInError("Not authorized"));
 
-        const headers = Object.assign({ "Z-Auth-Token": this.#token }, this.#headers);
-        const response: Response = await fetch(`${this.#baseUrl}/students/${this.user.ident}/noticeboard/attach/${eventCode}/${id}/`, {
-            headers
-        });
+        let response: Response;
+        try {
+            response = await this.#send(this.#attachmentUrl(eventCode, id, attachNum), {
+                headers: this.#authHeaders(),
+                redirect: "manual",
+            });
+        } catch (e: unknown) {
+            return this.#fail(e as Error);
+        }
 
+        discard(response);
         const url = response.headers.get("Location");
         return url ?? "";
     }
 
+    /**
+     * Downloads an attachment of a notice to a file, a directory or a writable stream
+     * @param {string} eventCode Event code of the notice
+     * @param {string | number} id Id of the notice
+     * @param {string | NodeJS.WritableStream} destination A file path, a directory (existing or ending with a slash) or a writable stream
+     * @param {object} [options] { attachNum, filename, overwrite }, an existing file with the same size is skipped unless overwrite is true
+     * @returns {object} The downloaded file, with its name and MIME type taken from the response headers
+     */
+    async downloadNoticeAttachment(eventCode: string, id: string | number, destination: DownloadDestination, { attachNum, ...options }: AttachmentDownloadOptions = {}): Promise<DownloadResult | void> {
+        if (!this.authorized) return this.#fail(new NotLoggedInError("Not authorized"));
+
+        try {
+            return await this.#download(this.#attachmentUrl(eventCode, id, attachNum), "GET", destination, options);
+        } catch (e: unknown) {
+            return this.#fail(e as Error);
+        }
+    }
+
+    /**
+     * Downloads every attachment of the noticeboard to a directory, as "<pubId>_<fileName>".
+     * Files that already exist are skipped without sending any request, a failed attachment doesn't stop the others
+     * @param {string} directory The directory, created if missing
+     * @param {object} [options] { overwrite, unreadOnly }
+     * @returns {object} The downloaded files and the failures
+     */
+    async downloadNoticeboardAttachments(directory: string, { overwrite = false, unreadOnly = false }: BulkDownloadOptions = {}): Promise<BulkDownloadResult> {
+        const result: BulkDownloadResult = { files: [], failures: [] };
+        const notices = (await this.getNoticeboard()).filter(notice => !unreadOnly || !notice.readStatus);
+
+        for (const notice of notices) {
+            for (const { fileName, attachNum } of notice.attachments ?? []) {
+                const path = join(directory, sanitize(`${notice.pubId}_${fileName}`));
+                try {
+                    const existing = overwrite ? undefined : await existingDownload(path);
+                    result.files.push(existing ?? await this.#download(this.#attachmentUrl(notice.evtCode, notice.pubId, attachNum), "GET", path, { overwrite: true }));
+                } catch (e: unknown) {
+                    result.failures.push({ pubId: notice.pubId, attachNum, error: e as Error });
+                }
+            }
+        }
+
+        if (result.failures.length) this.#logger.warn(`Could not download ${result.failures.length} attachments ⚠️`);
+        return result;
+    }
+
     /**
      * Get the status of a token
      * @param {string} token token to check, defaults to the token of the user
      * @returns {object} An object containing data about the token
      */
     async getTokenStatus(token = this.#token): Promise<TokenStatus | {} | void> {
-        if (!this.authorized || !token) return this.#log("Not authorized ❌");
+        if (!this.authorized || !token) return this.#fail(new NotLoggedInError("Not authorized"));
 
-        const headers = Object.assign({ "Z-Auth-Token": token }, this.#headers);
-        const response: Response = await fetch(`${this.#baseUrl}/auth/status/`, {
-            headers
-        });
-        const data: TokenStatus = await response.json()
-        .catch(() => this.#log("Could not parse JSON while getting token status ❌"));
+        const data: TokenStatus | void = await this.#request(`${this.#baseUrl}/auth/status/`, () => ({
+            headers: this.#authHeaders({}, token)
+        }), true, false);
 
         return data ?? {};
     }
@@ -505,25 +894,110 @@ class Rest {
             province: schProv,
             code: schCode
         };
+        if (this.user.ident) this.#schools.set(this.user.ident, this.user.school);
+    }
+
+    /**
+     * @private Posts the credentials to get a new token, then saves the session
+     * @param {string} username Classeviva credentials username
+     * @param {string} password Classeviva credentials password
+     * @param {AbortSignal} [signal] If aborted before the response arrives, the token is not used nor saved
+     * @returns {Promise<void>} Nothing, throws if the login failed
+     */
+    async #authenticate(username: string, password: string, signal?: AbortSignal): Promise<void> {
+        const post = (ident?: string) => this.#call<LoginResponse | LoginChoiceResponse>(`${this.#baseUrl}/auth/login/`, () => ({
+            method: "POST",
+            headers: { ...this.#headers },
+            body: JSON.stringify({ ident, uid: username, pass: password }),
+        }), true, false)
+        .catch((e: unknown) => {
+            if (e instanceof ApiError && e.statusCode < 500) throw new AuthenticationError(e.message, e.statusCode);
+            throw e;
+        });
+
+        let json = await post(this.#ident);
+        if ("choices" in json) {
+            this.students = json.choices.map(({ ident, name, school }) => ({ ident, id: this.#removeLetters(ident), name, school }));
+            // without an ident the first student is used, its session stays under the plain username so the next login finds it
+            const ident = json.choices.some(({ ident }) => ident === this.#ident) ? this.#ident : json.choices[0]?.ident;
+            if (!ident) throw new AuthenticationError("No student linked to the account");
+            if (this.#ident) this.#ident = ident;
+
+            json = await post(ident);
+            if ("choices" in json) throw new AuthenticationError(`Could not log in as ${ident}`);
+        }
+
+        if (signal?.aborted) throw new AuthenticationError("The session was closed while refreshing the token");
+        this.#updateData(json);
+        if (!this.authorized) throw new AuthenticationError("Failed to login");
+
+        await this.#store.set(this.#storeKey(username), this.#state, json)
+        .catch(() => this.#logger.warn("Could not save the session ⚠️"));
     }
 
     /**
-     * @private Checks for temp file
-     * @returns {boolean} True if there was temp file and it updated the data, false otherwise or in case of an error
+     * @private Logs in again with the last credentials to get a new token
+     * @param {AbortSignal} [signal] Aborted when the session is closed, e.g. by logout(), the new token is then thrown away
+     * @returns {Promise<void>} Nothing, throws if the login failed
      */
-    async #checkTemp(): Promise<boolean> {
+    async #refreshToken(signal?: AbortSignal): Promise<void> {
+        const { username, password } = this.#credentials;
+        if (!username || !password) throw new AuthenticationError("Username or password not set");
+
+        const { type, school } = this.user;
+        await this.#authenticate(username, password, signal);
+        this.user = { ...this.user, type, school };
+        this.#startSession();
+        this.#logger.info("Token refreshed ✅");
+        this.emit("tokenRefreshed", this.expiration);
+    }
+
+    /**
+     * @private Starts tracking the expiration of the current token
+     * @returns {void}
+     */
+    #startSession(): void {
+        this.#session.start(this.expiration);
+        this.login_timeout = this.#session.timer;
+    }
+
+    /**
+     * @private Stops the token refresh and forgets the session in memory, the saved session is left to the caller
+     * @returns {void}
+     */
+    #reset(): void {
+        this.#session.stop();
+        this.login_timeout = undefined;
+        this.authorized = false;
+        this.#token = "";
+        this.user = {};
+        this.expiration = "";
+    }
+
+    /**
+     * @private Restores a saved session from the session store, asking the server how long the token still lasts
+     * @param {string} username username the session belongs to
+     * @returns {boolean} True if there was a valid session and it updated the data, false otherwise or in case of an error
+     */
+    async #restoreSession(username: string): Promise<boolean> {
         try {
-            const temp: string = await readFileSync(`${this.#directory}/cvv.json`, "utf8");
-            if (!temp) {
+            const session = await this.#store.get(username, this.#state);
+            if (!session) {
                 return false;
             }
-            const json = JSON.parse(temp);
 
-            if (new Date(json.expire) > new Date()) {
-                this.#updateData(json);
-                return true;
-            } else return false;
+            if (new Date(session.expire) <= new Date()) return false;
+            this.#updateData(session);
+
+            const { status }: TokenStatus = await this.#call<TokenStatus>(`${this.#baseUrl}/auth/status/`, () => ({
+                headers: this.#authHeaders()
+            }), true, false);
+            if (!status?.remains || status.remains <= 0) throw new AuthenticationError("Token expired");
+
+            this.expiration = new Date(Date.now() + status.remains * 1000).toISOString();
+            return true;
         } catch (e) {
+            this.authorized = false;
             return false;
         }
     }
@@ -547,6 +1021,8 @@ class Rest {
                 surname: data.lastName,
                 id: this.#removeLetters(data.ident || ""),
                 ident: data.ident,
+                type: Enums.UserTypes[(data.ident || "")[0]],
+                school: this.#schools.get(data.ident) ?? {},
             };
             this.expiration = data.expire || `${new Date().getFullYear()}-${new Date().getMonth()}-${new Date().getDate()}T${new Date().getHours()}:${new Date().getMinutes()}:${new Date().getSeconds()}+01:00`;
             return;
@@ -554,6 +1030,85 @@ class Rest {
 
     }
 
+    /**
+     * @private Checks a response against its schema when the validate option is enabled, reporting the differences with a warning and the "validation" event
+     * @param {string} method name of the method that received the data
+     * @param {unknown} data the received data, nothing is checked if it's undefined
+     * @param {object} schema the expected shape
+     * @param {boolean} [list] if the data is a list of items
+     * @param {string} [path] path of the data, used in the issues
+     * @returns {void}
+     */
+    #check(method: string, data: unknown, schema: Schema, list: boolean = true, path: string = ""): void {
+        if (!this.#validate || data === undefined) return;
+
+        const issues = list ? validateList(data, schema, path) : validate(data, schema, path);
+        if (!issues.length) return;
+
+        this.#logger.warn(`The response of ${method}() doesn't match the expected shape ⚠️`, issues.map(({ path, kind }) => `${kind} ${path}`).join(", "));
+        this.emit("validation", { method, issues });
+    }
+
+    /**
+     * @private Builds the url of a notice attachment
+     * @param {string} eventCode Event code of the notice
+     * @param {string | number} id Id of the notice
+     * @param {number} [attachNum] Number of the attachment
+     * @returns {string} the url
+     */
+    #attachmentUrl(eventCode: string, id: string | number, attachNum?: number): string {
+        return `${this.#baseUrl}/students/${this.user.ident}/noticeboard/attach/${eventCode}/${id}/${attachNum ?? ""}`;
+    }
+
+    /**
+     * @private Streams a file to the destination without loading it in memory, an existing file is skipped before sending the request when its path is known
+     * @param {string} url full url to request
+     * @param {string} method http method
+     * @param {string | NodeJS.WritableStream} destination where the file is saved
+     * @param {object} [options] download options
+     * @returns {Promise<object>} the downloaded file, throws on errors
+     */
+    async #download(url: string, method: FetchMethod, destination: DownloadDestination, options: DownloadOptions = {}): Promise<DownloadResult> {
+        const existing = options.overwrite ? undefined : await existingTarget(destination, options.filename);
+        if (existing) return existing;
+
+        await this.#session.ensure();
+        return saveResponse(await this.#open(url, method), destination, options);
+    }
+
+    /**
+     * @private Sends a request and returns the response without reading the body. If the token is rejected it's refreshed and the request is sent again once
+     * @param {string} url full url to request
+     * @param {string} method http method
+     * @param {boolean} [reauth] if the token should be refreshed when it's rejected
+     * @returns {Promise<Response>} the response, throws if the status is not 2xx
+     */
+    async #open(url: string, method: FetchMethod, reauth: boolean = true): Promise<Response> {
+        const response: Response = await this.#send(url, { method, headers: this.#authHeaders() });
+        if (response.ok) return response;
+
+        const data = await this.#parse(url, response).catch(() => undefined);
+        const statusCode: number = data?.statusCode ?? response.status;
+        if (statusCode === 401 && reauth && this.#credentials.password) {
+            this.#logger.warn("Token rejected, logging in again ⚠️");
+            await this.#session.refresh();
+            return this.#open(url, method, false);
+        }
+
+        const message: string = `An error happened: ${data?.message ?? data?.error?.split('/').pop() ?? `status ${response.status}`}`;
+        if (statusCode === 401) throw new AuthenticationError(`${message} (${statusCode})`, statusCode);
+        throw new ApiError({ statusCode, message, error: data?.error ?? "" });
+    }
+
+    /**
+     * @private Builds the key used for the session store, including the selected student for parent accounts
+     * @param {string} username Classeviva credentials username
+     * @returns {string} the key
+     */
+    #storeKey(username: string): string {
+        return this.#ident ? `${username}#${this.#ident}` : username;
+    }
+
     /**
      * @private Removes letters from a string
      * @param {string} string string to remove letters from
@@ -587,39 +1142,240 @@ class Rest {
      * @returns {Promise<any>} the response
      */
     async #fetch<TResponse>(path: string = "/", method: FetchMethod = "GET", type: FetchType = "students", body: BodyInit = "", json: boolean = true, id: FetchId = "userId", head: HeadersInit = {}): Promise<TResponse | void> {
-        if (!this.authorized) return this.#log("Not logged in ❌");
+        if (!this.authorized) return this.#fail(new NotLoggedInError());
+
+        const url = this.#studentUrl(path, type, id);
+        if (this.#cache && method.toUpperCase() === "GET" && json) {
+            try {
+                return await this.#get<TResponse>(url, path, head);
+            } catch (e: unknown) {
+                return this.#fail(e as Error);
+            }
+        }
 
-        const headers: HeadersInit = Object.assign(this.#headers, { "Z-Auth-Token": this.#token, ...head });
-        const options: RequestInit = {
-            method: method.toUpperCase(),
-            headers,
-        };
-        if (body && method !== "GET") options.body = body;
+        return this.#request(url, () => {
+            const options: RequestInit = {
+                method: method.toUpperCase(),
+                headers: this.#authHeaders(head),
+            };
+            if (body && method !== "GET") options.body = body;
+            return options;
+        }, json);
+    }
+
+    /**
+     * @private Sends an authenticated request, any error goes through #fail()
+     * @param {string} url full url to request
+     * @param {Function} options builds the request options, called again if the request is retried with a new token
+     * @param {boolean} [json] if the data should be parsed to json
+     * @param {boolean} [reauth] if the token should be refreshed when it's expired or rejected
+     * @returns {Promise<any>} the response data
+     */
+    async #request<TResponse>(url: string, options: () => RequestInit, json: boolean = true, reauth: boolean = true): Promise<TResponse | void> {
+        try {
+            if (reauth) await this.#session.ensure();
+            return await this.#call(url, options, json, reauth);
+        } catch (e: unknown) {
+            return this.#fail(e as Error);
+        }
+    }
+
+    /**
+     * @private Fetches a date range, split in chunks of at most maxRangeDays days. A chunk the server rejects with a 400 is split in two and requested again
+     * @param {Date | RangeInput} start start date, or a range
+     * @param {Date} end end date, used when start is a date
+     * @param {Function} path builds the api path from the formatted start and end dates
+     * @param {Function} merge merges the responses of the chunks, it's not called when there's a single chunk
+     * @param {string} [type] students | parents
+     * @returns {Promise<any>} the merged response
+     */
+    async #fetchRange<TResponse>(start: Date | RangeInput, end: Date, path: (start: string, end: string) => string, merge: (parts: TResponse[]) => TResponse, type: FetchType = "students"): Promise<TResponse | void> {
+        if (!this.authorized) return this.#fail(new NotLoggedInError());
 
-        const response: Response = await require('node-fetch')(`${this.#baseUrl}/${type}/${id == "userId" ? this.user.id : this.user.ident}${path}`, options);
+        try {
+            const range = start instanceof Date ? { start, end } : await this.getRange(start);
+            const parts: TResponse[] = [];
+            for (const chunk of chunkRange(range, this.#maxRangeDays)) parts.push(...await this.#fetchChunk<TResponse>(chunk, path, type));
+            return parts.length === 1 ? parts[0] : merge(parts);
+        } catch (e: unknown) {
+            return this.#fail(e as Error);
+        }
+    }
+
+    /**
+     * @private Fetches a chunk of a date range, splitting it in two while the server rejects it
+     * @param {object} range the chunk
+     * @param {Function} path builds the api path from the formatted start and end dates
+     * @param {string} type students | parents
+     * @returns {Promise<any[]>} the responses, one for every request that succeeded
+     */
+    async #fetchChunk<TResponse>(range: DateRange, path: (start: string, end: string) => string, type: FetchType): Promise<TResponse[]> {
+        const endpoint = path(this.#formatDate(range.start), this.#formatDate(range.end));
+        try {
+            return [await this.#get<TResponse>(this.#studentUrl(endpoint, type), endpoint)];
+        } catch (e: unknown) {
+            if (!(e instanceof ApiError) || e.statusCode !== 400 || days(range) < 2) throw e;
+
+            this.#logger.debug(`Range of ${days(range)} days rejected, splitting it`);
+            const parts: TResponse[] = [];
+            for (const half of splitRange(range)) parts.push(...await this.#fetchChunk<TResponse>(half, path, type));
+            return parts;
+        }
+    }
+
+    /**
+     * @private Sends an authenticated GET request, through the response cache if there's one (with the ETag of the cached response as Z-If-None-Match)
+     * @param {string} url full url to request
+     * @param {string} endpoint api path, used for the ttl and the invalidation of the cache
+     * @param {object} [head] additional headers to send
+     * @returns {Promise<any>} the response data, cached or not, throws on errors
+     */
+    async #get<TResponse>(url: string, endpoint: string, head: HeadersInit = {}): Promise<TResponse> {
+        if (!this.#cache) {
+            await this.#session.ensure();
+            return this.#call<TResponse>(url, () => ({ method: "GET", headers: this.#authHeaders(head) }));
+        }
+
+        return await this.#cache.resolve(this.#cacheUser(), endpoint, async (etag: string) => {
+            await this.#session.ensure();
+            return this.#exchange(url, () => ({
+                method: "GET",
+                headers: this.#authHeaders({ ...head, "Z-If-None-Match": etag }),
+            }));
+        }) as TResponse;
+    }
+
+    /**
+     * @private Builds the url of an endpoint of the student
+     * @param {string} path api path
+     * @param {string} [type] students | parents
+     * @param {string} [id] user identifier
+     * @returns {string} the full url
+     */
+    #studentUrl(path: string, type: FetchType = "students", id: FetchId = "userId"): string {
+        return `${this.#baseUrl}/${type}/${id == "userId" ? this.user.id : this.user.ident}${path}`;
+    }
+
+    /**
+     * @private Sends a request, parses the response and checks it for errors. If the token is rejected it's refreshed and the request is sent again once
+     * @param {string} url full url to request
+     * @param {Function} options builds the request options
+     * @param {boolean} [json] if the data should be parsed to json
+     * @param {boolean} [reauth] if the token should be refreshed when it's rejected
+     * @returns {Promise<any>} the response data, throws on errors
+     */
+    async #call<TResponse>(url: string, options: () => RequestInit, json: boolean = true, reauth: boolean = true): Promise<TResponse> {
+        const { data } = await this.#exchange(url, options, json, reauth);
+        return data as TResponse;
+    }
+
+    /**
+     * @private Same as #call(), but it also returns the status and the ETag of the response. A 304 is not an error, its data is undefined
+     * @param {string} url full url to request
+     * @param {Function} options builds the request options
+     * @param {boolean} [json] if the data should be parsed to json
+     * @param {boolean} [reauth] if the token should be refreshed when it's rejected
+     * @returns {Promise<object>} the status, the ETag and the data of the response, throws on errors
+     */
+    async #exchange(url: string, options: () => RequestInit, json: boolean = true, reauth: boolean = true): Promise<CachedResponse> {
+        const response: Response = await this.#send(url, options());
+        const etag = response.headers.get("etag") ?? "";
+        if (response.status === 304) {
+            discard(response);
+            return { status: 304, etag, data: undefined };
+        }
 
         const res: FetchResponse = {
             status: response.status,
-            data: json ? await response.json() : await response.buffer()
+            data: await this.#parse(url, response, json)
         };
 
+        const statusCode: number = res.data?.statusCode ?? res.status;
+        if (statusCode === 401 && reauth && this.#credentials.password) {
+            this.#logger.warn("Token rejected, logging in again ⚠️");
+            await this.#session.refresh();
+            return this.#exchange(url, options, json, false);
+        }
+
         if (res.data?.error) {
             const { data } = res;
-            return this.#log(`An error happened: ${data.message ? data.message : data.error.split('/').pop()} (${data.statusCode}) ❌`);
+            const message: string = `An error happened: ${data.message ? data.message : data.error.split('/').pop()}`;
+            if (statusCode === 401) throw new AuthenticationError(`${message} (${statusCode})`, statusCode);
+            throw new ApiError({ statusCode, message, error: data.error });
+        }
+
+        if (res.status !== 200) throw new ApiError({ statusCode: res.status, message: "The server returned a status different from 200", error: "" });
+
+        return { status: res.status, etag, data: res.data };
+    }
+
+    /**
+     * @private Owner of the cached responses: the account and the student they belong to
+     * @returns {string} the owner
+     */
+    #cacheUser(): string {
+        return `${this.#credentials.username || this.username}/${this.user.ident ?? this.user.id}`;
+    }
+
+    /**
+     * @private Sends a request to the server
+     * @param {string} url full url to request
+     * @param {object} options request options
+     * @returns {Promise<Response>} the raw response, throws a NetworkError if the server can't be reached within the request policy
+     */
+    async #send(url: string, options: RequestInit): Promise<Response> {
+        const method = options.method ?? "GET";
+
+        try {
+            return await this.#policy.execute(method, async (signal: FetchSignal) => {
+                const start = Date.now();
+                this.#logger.debug(`${method} ${url}`);
+                this.emit("request", { method, url });
+
+                const response: Response = await this.#transport.fetch(url, { ...options, signal });
+                this.emit("response", { method, url, status: response.status, duration: Date.now() - start });
+                return response;
+            });
+        } catch (e: unknown) {
+            throw new NetworkError(url, e);
         }
+    }
 
-        if (res.status !== 200) return this.#log(`The server returned a status different from 200 (${res.status}) ❌`);
+    /**
+     * @private Reads the body of a response
+     * @param {string} url requested url, used in errors
+     * @param {Response} response response to read
+     * @param {boolean} [json] if the data should be parsed to json
+     * @returns {Promise<any>} the parsed body, throws a ParseError if it can't be read or a NetworkError if it timed out
+     */
+    async #parse(url: string, response: Response, json: boolean = true): Promise<any> {
+        try {
+            return json ? await response.json() : await response.buffer();
+        } catch (e: unknown) {
+            if (e instanceof Error && e.name === "AbortError") throw new NetworkError(url, new Error("Request timed out while reading the response"));
+            throw new ParseError(url, json ? "Could not parse JSON" : "Could not read the response");
+        }
+    }
 
-        return res.data;
+    /**
+     * @private Builds the headers of an authenticated request
+     * @param {object} [head] additional headers to send
+     * @param {string} [token] token to send, defaults to the token of the user
+     * @returns {object} the headers
+     */
+    #authHeaders(head: HeadersInit = {}, token: string = this.#token): HeadersInit {
+        return { ...this.#headers, "Z-Auth-Token": token, ...head };
     }
 
     /**
-     * @private Logs whatever provided
-     * @param  {any[]} args arguments to log
-     * @returns {void} log in the console
+     * @private Throws the error, or logs it and returns nothing in compatibility mode. The "error" event is emitted only if someone is listening, so it never crashes the process
+     * @param {Error} error error to throw
+     * @returns {void} nothing in compatibility mode
      */
-    #log(...args: any[]): void {
-        return console.log(`\x1b[31m[CLASSEVIVA]\x1b[0m`, ...args);
+    #fail(error: Error): void {
+        if (this.listenerCount("error") > 0) this.emit("error", error);
+        if (!this.#compatibilityMode) throw error;
+        return this.#logger.error(`${error.message} ❌`);
     }
 }
 
@@ -1,18 +1,53 @@
-import fetch, { HeadersInit, RequestInit, Response } from "node-fetch";
+import { EventEmitter } from "events";
+import { HeadersInit, RequestInit, Response } from "node-fetch";
 import {
   ClassOptions,
+  WebOptions,
   ClassUser,
   FetchOptions,
+  MessageAttachment,
+  WebMessage,
+  RubricaContact,
+  MessagesOptions,
+  MessagesPage,
+  MessageThread,
+  SendMessageOptions,
+  WebAgendaEvent,
   prodotto,
 } from "../typings/Web";
+import { Homework } from "../typings/Homework";
+import { Logger } from "../typings/Logger";
+import { ClientEvents } from "../typings/Events";
+import { FetchSignal } from "../typings/Policy";
+import { Transport } from "../typings/Transport";
+import { createLogger, silentLogger } from "../Logger";
+import { WebSession } from "../typings/Cookies";
+import { ClassevivaError } from "../Errors";
+import CookieJar from "../CookieJar";
+import RequestPolicy, { discard } from "../RequestPolicy";
+import { defaultTransport } from "../Transport";
+import { normalizeHomework } from "../Homework";
+
+const MAX_REDIRECTS = 10;
+
+declare interface Web {
+  on<E extends keyof ClientEvents<ClassUser>>(event: E, listener: ClientEvents<ClassUser>[E]): this;
+  once<E extends keyof ClientEvents<ClassUser>>(event: E, listener: ClientEvents<ClassUser>[E]): this;
+  off<E extends keyof ClientEvents<ClassUser>>(event: E, listener: ClientEvents<ClassUser>[E]): this;
+  emit<E extends keyof ClientEvents<ClassUser>>(event: E, ...args: Parameters<ClientEvents<ClassUser>[E]>): boolean;
+}
 
-class Web {
-  readonly #data: ClassOptions;
-  #token: string;
+class Web extends EventEmitter {
+  #data: ClassOptions;
+  readonly #jar: CookieJar;
   authorized: boolean;
+  readonly #origin: string;
   readonly #baseUrl: (path?: string) => string;
   #headers: { [key: string]: string };
   public user: ClassUser;
+  readonly #logger: Logger;
+  readonly #policy: RequestPolicy;
+  readonly #transport: Transport;
   /**
    * Web api class constructor
    * @param {ClassOptions} [loginData] Login data
@@ -21,6 +56,11 @@ class Web {
    * @param {string} [loginData.pwd] User Password
    * @param {string} [loginData.pin] PIN (???)
    * @param {string} [loginData.target] Target (???)
+   * @param {WebOptions} [options] Class options
+   * @param {Logger | false} [options.logger] Logger used by the class, false to silence it
+   * @param {RequestPolicy | object} [options.requestPolicy] Timeout, retry and rate limit rules of the requests
+   * @param {Transport} [options.transport] Sends the requests, defaults to node-fetch
+   * @param {string} [options.baseUrl] Url of the server, defaults to https://web.spaggiari.eu
    */
   constructor(
     loginData: ClassOptions = {
@@ -29,14 +69,17 @@ class Web {
       pwd: "",
       pin: "",
       target: "",
-    }
+    },
+    { logger = createLogger(), requestPolicy = {}, transport = defaultTransport, baseUrl = "https://web.spaggiari.eu" }: WebOptions = {}
   ) {
+    super();
     this.#data = loginData;
-    this.#token = "";
+    this.#jar = new CookieJar();
     this.authorized = false;
 
+    this.#origin = baseUrl.replace(/\/+$/, "");
     this.#baseUrl = (path: string = "fml") =>
-      `https://web.spaggiari.eu/${path}/app/default/`;
+      `${this.#origin}/${path}/app/default/`;
     this.#headers = {
       "X-Requested-With": "XMLHttpRequest",
       "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/102.0.5005.63 Safari/537.36 Edg/102.0.1245.33",
@@ -49,51 +92,101 @@ class Web {
       id: 0,
       type: "",
     };
+    this.#logger = logger || silentLogger;
+    this.#policy = requestPolicy instanceof RequestPolicy ? requestPolicy : new RequestPolicy(requestPolicy);
+    this.#transport = transport;
   }
 
   async login(data: ClassOptions = this.#data): Promise<boolean> {
-    const url = `${this.#baseUrl("auth-p7")}AuthApi4.php?a=aLoginPwd`;
-    const body = new URLSearchParams(Object.entries(data)).toString();
+    const logged = await this.#authenticate(
+      "aLoginPwd",
+      new URLSearchParams(Object.entries(data)).toString()
+    );
+    this.#data = data;
+    return logged;
+  }
 
-    const response = await fetch(url, {
-      method: "POST",
-      body,
-      headers: {
-        "Content-Type": "application/x-www-form-urlencoded",
-        "X-Requested-With": "XMLHttpRequest",
-        Referer: "https://web.spaggiari.eu/home/app/default/login.php",
-        Origin: "https://web.spaggiari.eu",
-      },
-    });
+  /**
+   * Logs in with a ticket of the REST api (Rest.getTicket()), without sending the password again
+   * @param {string} ticket The ticket
+   * @param {string} [ident] Ident of the user the ticket belongs to
+   * @returns {boolean} true if logged in
+   */
+  async loginWithTicket(ticket: string, ident: string = ""): Promise<boolean> {
+    return this.#authenticate(
+      "aLoginTicket",
+      new URLSearchParams({ ticket, uid: ident }).toString()
+    );
+  }
 
-    const json = await response
-      .json()
-      .catch(() => this.#error("Could not parse JSON"));
+  /**
+   * Forgets the session
+   * @returns {boolean} true if logged out, false if already logged out
+   */
+  logout(): boolean {
+    if (!this.authorized) {
+      this.#logger.warn("Already logged out ❌");
+      return false;
+    }
 
-    if (json.error && json.error.length > 0) return this.#error(json.error);
+    this.#jar.clear();
+    this.#setAuthorized(false);
+    this.#logger.info("Successfully logged out ✅");
+    this.emit("logout");
+    return true;
+  }
 
-    const cookies = response.headers.get("Set-Cookie");
-    const cookie = cookies?.split(", ").pop();
-    /*
-    const values = cookie?.split(';') ?? [''];
-    const session = values[0];
-    const token = session.split('PHPSESSID=').pop();
-    */
+  /**
+   * Exports the cookies and the user, to restore the session with importSession() after a restart
+   * @returns {WebSession} The session, it contains the session cookie so keep it private
+   */
+  exportSession(): WebSession {
+    return {
+      cookies: this.#jar.toJSON(),
+      user: { ...this.user },
+      savedAt: new Date().toISOString(),
+    };
+  }
 
-    if (!cookie) return this.#error("Login failed (no token)");
-    this.setSessionId(cookie);
+  /**
+   * Restores a session from exportSession(), use checkSession() to know if it's still valid
+   * @param {WebSession} session The exported session
+   * @returns {boolean} true if the session contains a session cookie
+   */
+  importSession(session: WebSession): boolean {
+    this.#jar.clear();
+    session.cookies.forEach((cookie) => this.#jar.setCookies([`${cookie.name}=${cookie.value}; Path=${cookie.path}${cookie.domain ? `; Domain=${cookie.domain}` : ""}${cookie.expires ? `; Expires=${new Date(cookie.expires).toUTCString()}` : ""}`]));
+    this.user = { ...session.user };
+    this.#setAuthorized(Boolean(this.#jar.get("PHPSESSID")));
+    return this.authorized;
+  }
 
-    if (!json?.data?.auth?.accountInfo) return this.#error("Login failed (no account info)");
-    this.user = json.data.auth.accountInfo;
+  /**
+   * Checks if the session is still accepted by the server, without logging in again
+   * @returns {boolean} true if the session is valid
+   */
+  async checkSession(): Promise<boolean> {
+    if (!this.authorized) return false;
 
-    return this.authorized;
+    const url = `${this.#baseUrl("tools")}get_username.php`;
+    const response = await this.#send(url, {
+      headers: { ...this.#headers, Cookie: this.#cookiesFor(url) },
+      redirect: "manual",
+    });
+    this.#jar.setCookies(response.headers.raw()["set-cookie"] ?? []);
+    discard(response);
+    if (!this.#isLoginRedirect(response) && response.ok) return true;
+
+    this.#jar.clear();
+    this.#setAuthorized(false);
+    return false;
   }
 
   async getAgenda(
     start: Date = new Date(),
     end: Date = new Date(),
     nascondiAuleVirtuale: boolean = false
-  ): Promise<any> {
+  ): Promise<WebAgendaEvent[]> {
     const query = new URLSearchParams({
       classe_id: "",
       gruppo_id: "",
@@ -113,6 +206,16 @@ class Web {
     return data;
   }
 
+  /**
+   * Get the homework of the agenda, in the same shape as Rest.getHomework()
+   * @param {Date} [start] The start date of the agenda, defaults to today
+   * @param {Date} [end] The end date of the agenda, defaults to today
+   * @returns {object[]} The homework, sorted by due date
+   */
+  async getHomework(start: Date = new Date(), end: Date = new Date()): Promise<Homework[]> {
+    return normalizeHomework(await this.getAgenda(start, end));
+  }
+
   async getPortfolio(): Promise<any> {
     const data = await this.#fetch({ url: "get_pfolio.php", path: "tools" });
     return data ?? {};
@@ -201,15 +304,38 @@ class Web {
     return response?.OAS?.gooBApiK ?? "";
   }
 
-  async getRubrica(): Promise<any> {
+  /**
+   * Gets the address book, the contacts that can receive a message
+   * @returns {object[]} The contacts ({ id, nome, tipo })
+   */
+  async getRubrica(): Promise<RubricaContact[]> {
     const response = await this.#fetch({
       url: "SocMsgApi.php?a=acGetRubrica",
       path: "sps",
     });
-    return response?.OAS?.targets ?? {};
+    return response?.OAS?.targets ?? [];
   }
 
-  async getMessages(): Promise<any> {
+  /**
+   * Gets a page of messages
+   * @param {MessagesOptions} [options] Page options
+   * @param {number} [options.page] Page number, starting from 1
+   * @param {number} [options.perPage] Messages per page, defaults to 20
+   * @param {string} [options.search] Text searched in the subject and in the text
+   * @param {boolean} [options.unreadOnly] Only unread messages
+   * @returns {object[]} The messages of the page
+   */
+  async getMessages(options: MessagesOptions = {}): Promise<WebMessage[]> {
+    const { messages } = await this.getMessagesPage(options);
+    return messages;
+  }
+
+  /**
+   * Gets a page of messages with the pagination data
+   * @param {MessagesOptions} [options] Page options, see getMessages()
+   * @returns {object} The messages, the page, the total number of messages and if there are more pages
+   */
+  async getMessagesPage({ page = 1, perPage = 20, search = "", unreadOnly = false }: MessagesOptions = {}): Promise<MessagesPage> {
     const query = new URLSearchParams({
       anyt: "0",
       ctx: "",
@@ -217,12 +343,12 @@ class Web {
       ignpf: "0",
       mid: "0",
       mmid: "0",
-      mpp: "20",
+      mpp: perPage.toString(),
       nosp: "0",
       nwth: "0",
-      p: "1",
-      search: "",
-      unreadOnly: "0",
+      p: page.toString(),
+      search,
+      unreadOnly: unreadOnly ? "1" : "0",
       _stkx: "",
     });
 
@@ -231,8 +357,105 @@ class Web {
       path: "sps",
       method: "POST",
       body: query.toString(),
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    });
+
+    const messages: WebMessage[] = response?.OAS?.rows ?? [];
+    const total = Number(response?.OAS?.totRows ?? NaN);
+    return {
+      messages,
+      page,
+      perPage,
+      total: isNaN(total) ? (page - 1) * perPage + messages.length : total,
+      hasMore: isNaN(total) ? messages.length === perPage : page * perPage < total,
+    };
+  }
+
+  /**
+   * Iterates over every message, requesting the pages when needed
+   * @param {MessagesOptions} [options] Page options, see getMessages(), the page is where the iteration starts
+   * @returns {AsyncGenerator<object>} The messages
+   */
+  async *iterateMessages(options: MessagesOptions = {}): AsyncGenerator<WebMessage> {
+    let page = options.page ?? 1;
+    while (true) {
+      const result = await this.getMessagesPage({ ...options, page });
+      for (const message of result.messages) yield message;
+      if (!result.hasMore || !result.messages.length) return;
+      page++;
+    }
+  }
+
+  /**
+   * Gets every message of a thread, with their attachments
+   * @param {string} threadId Id of the thread
+   * @returns {object} The thread and its messages, oldest first
+   */
+  async getThread(threadId: string): Promise<MessageThread> {
+    const response = await this.#fetch({
+      url: "SocMsgApi.php?a=acGetMsgThread",
+      path: "sps",
+      method: "POST",
+      body: new URLSearchParams({ threadId }).toString(),
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    });
+    return { threadId, messages: response?.OAS?.rows ?? [] };
+  }
+
+  /**
+   * Gets the url of a message attachment, it needs the session cookie to be downloaded
+   * @param {MessageAttachment | string} attachment The attachment or its id
+   * @returns {string} The url of the attachment
+   */
+  getAttachmentUrl(attachment: MessageAttachment | string): string {
+    const id = typeof attachment === "string" ? attachment : attachment.attachId;
+    return `${this.#baseUrl("sps")}SocMsgApi.php?a=acGetAttach&aid=${encodeURIComponent(id)}`;
+  }
+
+  /**
+   * Marks messages as read
+   * @param {string[]} msgIds Ids of the messages
+   * @returns {boolean} true if the messages have been marked
+   */
+  async markMessagesRead(msgIds: string[]): Promise<boolean> {
+    if (!msgIds.length) return true;
+
+    const response = await this.#fetch({
+      url: "SocMsgApi.php?a=acSetMsgRead",
+      path: "sps",
+      method: "POST",
+      body: new URLSearchParams({ mids: msgIds.join(",") }).toString(),
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    });
+    return response?.OAS?.read === true;
+  }
+
+  /**
+   * Sends a message to contacts of the address book
+   * @param {SendMessageOptions} message The message
+   * @param {Array<string | object>} message.to Recipients, their ids or the contacts from getRubrica()
+   * @param {string} message.subject Subject of the message
+   * @param {string} message.text Text of the message
+   * @returns {object} The sent message, rejects if the server does not return it
+   */
+  async sendMessage({ to, subject, text }: SendMessageOptions): Promise<WebMessage> {
+    if (!to.length) return this.#error("No recipients");
+    if (!subject.trim() || !text.trim()) return this.#error("Subject and text are required");
+
+    const ids = to.map(target => typeof target === "string" ? target : target.id);
+    const rubrica = await this.getRubrica();
+    const unknown = ids.filter(id => !rubrica.some(contact => contact.id === id));
+    if (unknown.length) return this.#error(`Recipients not in the address book: ${unknown.join(", ")}`);
+
+    const response = await this.#fetch({
+      url: "SocMsgApi.php?a=acSendMsg",
+      path: "sps",
+      method: "POST",
+      body: new URLSearchParams({ targets: ids.join(","), subject, text }).toString(),
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
     });
-    return response?.OAS?.rows ?? [];
+    if (!response?.OAS?.msg) return this.#error("The message was not sent");
+    return response.OAS.msg;
   }
 
   async getBacheca(nascondiNonAttive: boolean = false): Promise<any> {
@@ -307,8 +530,13 @@ class Web {
     return response ?? {};
   }
 
+  /**
+   * Uses an existing session
+   * @param {string} token The PHPSESSID value, or a full cookie ("PHPSESSID=...; path=/")
+   * @returns {void}
+   */
   public setSessionId(token: string): void {
-    this.#token = token;
+    this.#jar.setCookies([token.includes("=") ? token : `PHPSESSID=${token}`]);
     this.#setAuthorized(true);
   }
 
@@ -322,40 +550,155 @@ class Web {
   }
 
   #error(message: string): Promise<never> {
+    this.#logger.error(`${message} ❌`);
+    if (this.listenerCount("error") > 0) this.emit("error", new ClassevivaError(message));
     return Promise.reject(message);
   }
 
-  async #fetch({
-    url,
-    path,
-    method = "GET",
-    body,
-    headers: head = {},
-    json = true,
-  }: FetchOptions): Promise<any> {
-    if (!this.authorized) return this.#error("Not logged in ❌");
+  async #send(url: string, options: RequestInit): Promise<Response> {
+    const method = options.method ?? "GET";
+
+    return this.#policy.execute(method, async (signal: FetchSignal) => {
+      const start = Date.now();
+      this.#logger.debug(`${method} ${url}`);
+      this.emit("request", { method, url });
 
-    const headers: HeadersInit = Object.assign(this.#headers, {
-      Cookie: this.#token,
-      ...head,
+      const response: Response = await this.#transport.fetch(url, { ...options, signal });
+      this.emit("response", { method, url, status: response.status, duration: Date.now() - start });
+      return response;
     });
-    const options: RequestInit = {
-      method: method.toUpperCase(),
-      headers,
-    };
-    if (body && method !== "GET") options.body = body;
+  }
 
-    const response: Response = await fetch(`${this.#baseUrl(path)}${url}`, options);
-    if (!response.ok) return this.#error(`Response not ok (${response.status} - ${response.statusText})`);
+  /**
+   * @private Sends a login request and stores the session cookies and the account
+   * @param {string} action Action of AuthApi4.php
+   * @param {string} body Form encoded body
+   * @returns {boolean} true if logged in
+   */
+  async #authenticate(action: string, body: string): Promise<boolean> {
+    const url = `${this.#baseUrl("auth-p7")}AuthApi4.php?a=${action}`;
 
-    const data = json
-      ? await response.json().catch(() => this.#error("Could not parse JSON"))
-      : await response.text().catch(() => this.#error("Could not parse Text"));
+    const response = await this.#send(url, {
+      method: "POST",
+      body,
+      headers: {
+        "Content-Type": "application/x-www-form-urlencoded",
+        "X-Requested-With": "XMLHttpRequest",
+        Referer: `${this.#baseUrl("home")}login.php`,
+        Origin: this.#origin,
+      },
+    });
+
+    const json = await response
+      .json()
+      .catch(() => this.#error("Could not parse JSON"));
+
+    if (json.error && json.error.length > 0) return this.#error(json.error);
+
+    this.#jar.clear();
+    this.#jar.setCookies(response.headers.raw()["set-cookie"] ?? []);
+    if (!this.#jar.get("PHPSESSID")) return this.#error("Login failed (no token)");
+    this.#setAuthorized(true);
+
+    if (!json?.data?.auth?.accountInfo) return this.#error("Login failed (no account info)");
+    this.user = json.data.auth.accountInfo;
+
+    this.#logger.info(`Successfully logged in as "${this.user.nome} ${this.user.cognome}" ✅`);
+    this.emit("login", this.user);
+    return this.authorized;
+  }
+
+  /**
+   * @private Sends a request with the session cookies, following redirects with the cookies of each hop. If the session has expired it logs in again with the stored credentials and retries once
+   * @param {FetchOptions} options Request options
+   * @param {boolean} [retry] If the request can be retried after a new login
+   * @returns {Promise<any>} The parsed response
+   */
+  async #fetch(options: FetchOptions, retry: boolean = true): Promise<any> {
+    if (!this.authorized) return this.#error("Not logged in");
+
+    const { url, path, method = "GET", body, headers: head = {}, json = true } = options;
+    let target = `${this.#baseUrl(path)}${url}`;
+    let request: RequestInit = { method: method.toUpperCase(), redirect: "manual" };
+    if (body && method !== "GET") request.body = body;
+
+    let response: Response;
+    for (let redirects = 0; ; redirects++) {
+      response = await this.#send(target, { ...request, headers: { ...this.#headers, Cookie: this.#cookiesFor(target), ...head } });
+      this.#jar.setCookies(response.headers.raw()["set-cookie"] ?? []);
+
+      if (this.#isLoginRedirect(response) || response.status === 401) {
+        discard(response);
+        return this.#expired(options, retry);
+      }
+      const location = response.headers.get("Location");
+      if (response.status < 300 || response.status >= 400 || !location) break;
+      discard(response);
+      if (redirects >= MAX_REDIRECTS) return this.#error(`Too many redirects, the last one to ${location}`);
+
+      target = new URL(location, target).href;
+      if (response.status === 303 || (request.method === "POST" && response.status !== 307 && response.status !== 308)) request = { method: "GET", redirect: "manual" };
+    }
+
+    if (!response.ok) {
+      discard(response);
+      return this.#error(`Response not ok (${response.status} - ${response.statusText})`);
+    }
+
+    const text = await response.text().catch(() => this.#error("Could not parse Text"));
+    if (!json) return text;
+
+    let data;
+    try {
+      data = JSON.parse(text);
+    } catch (e) {
+      if (/login\.php|type=["']?password/i.test(text)) return this.#expired(options, retry);
+      return this.#error("Could not parse JSON");
+    }
 
     if (data?.error && data?.error?.length > 0) return this.#error(data?.error || "Unknown error");
 
     return data;
   }
+
+  /**
+   * @private Forgets the expired session, then logs in again and retries the request if there are stored credentials
+   * @param {FetchOptions} options Request options
+   * @param {boolean} retry If the request can be retried
+   * @returns {Promise<any>} The response of the retried request
+   */
+  async #expired(options: FetchOptions, retry: boolean): Promise<any> {
+    this.#logger.warn("Web session expired ⚠️");
+    this.#jar.clear();
+    this.#setAuthorized(false);
+
+    if (!retry || !this.#data.uid || !this.#data.pwd) {
+      this.emit("logout");
+      return this.#error("Session expired");
+    }
+
+    await this.login();
+    return this.#fetch(options, false);
+  }
+
+  /**
+   * @private Builds the Cookie header of a request, the cookies are only sent to the server they come from
+   * @param {string} url Full url of the request
+   * @returns {string} The header value
+   */
+  #cookiesFor(url: string): string {
+    const { origin, pathname, hostname } = new URL(url);
+    return origin === new URL(this.#origin).origin ? this.#jar.header(pathname, hostname) : "";
+  }
+
+  /**
+   * @private Checks if a response redirects to the login page
+   * @param {Response} response The response
+   * @returns {boolean} true if the session is not valid anymore
+   */
+  #isLoginRedirect(response: Response): boolean {
+    return response.status >= 300 && response.status < 400 && /login\.php/i.test(response.headers.get("Location") ?? "");
+  }
 }
 
 export default Web;
@@ -0,0 +1,407 @@
+import { Grade, absences, calendarDay, TalkTeacher, TalkBooking, TalkMessage } from '../typings/Rest';
+import { FakeData, FakeDataOptions, FakeRecord } from '../typings/Mock';
+
+const firstNames = ["Mario", "Giulia", "Luca", "Sofia", "Marco", "Chiara", "Andrea", "Elena"];
+const lastNames = ["Rossi", "Bianchi", "Russo", "Ferrari", "Esposito", "Romano", "Colombo", "Ricci"];
+const subjectNames = ["ITALIANO", "MATEMATICA", "INGLESE", "STORIA", "FISICA", "SCIENZE NATURALI", "SCIENZE MOTORIE E SPORTIVE"];
+const topics = ["Ripasso", "Esercitazione", "Verifica scritta", "Interrogazioni", "Lettura e analisi del testo", "Introduzione al nuovo argomento"];
+
+/**
+ * Generates a fake but consistent school year for a student, the same seed always gives the same data
+ * @param {object} [options] Generation options
+ * @param {number} [options.seed] Seed of the random generator, defaults to 1
+ * @param {Date} [options.today] The day the data is generated around, defaults to now
+ * @param {string} [options.username] Username accepted by the mock server, defaults to the student ident
+ * @param {string} [options.password] Password accepted by the mock server, defaults to "password"
+ * @returns {object} The generated data
+ */
+function generateFakeData({ seed = 1, today = new Date(), username, password = "password" }: FakeDataOptions = {}): FakeData {
+    const random = mulberry32(seed);
+    const pick = <T>(items: T[]): T => items[Math.floor(random() * items.length)];
+    const int = (min: number, max: number): number => min + Math.floor(random() * (max - min + 1));
+
+    const id = int(1000000, 9999999);
+    const ident = `S${id}X`;
+    const firstName = pick(firstNames);
+    const lastName = pick(lastNames);
+
+    const year = today.getMonth() >= 8 ? today.getFullYear() : today.getFullYear() - 1;
+    const start = new Date(year, 8, 12);
+    const end = new Date(year + 1, 5, 8);
+    const split = new Date(year + 1, 0, 31);
+
+    const periods: FakeRecord[] = [
+        { periodCode: "Q1", periodPos: 1, periodDesc: "Primo Quadrimestre", isFinal: false, dateStart: formatDay(start), dateEnd: formatDay(split), miurDivisionCode: null },
+        { periodCode: "Q3", periodPos: 3, periodDesc: "Secondo Quadrimestre", isFinal: true, dateStart: formatDay(addDays(split, 1)), dateEnd: formatDay(end), miurDivisionCode: null },
+    ];
+    const periodOf = (date: Date) => date <= split ? periods[0] : periods[1];
+
+    const subjects: FakeRecord[] = subjectNames.map((description, order) => ({
+        id: 215000 + order * 17,
+        description,
+        order,
+        teachers: [{ teacherId: `T${int(100000, 999999)}`, teacherName: `${pick(lastNames).toUpperCase()} ${pick(firstNames).toUpperCase()}` }],
+    }));
+    const teacherOf = (subject: FakeRecord): string => (subject.teachers as FakeRecord[])[0].teacherName as string;
+
+    const holidays = (date: Date): boolean => {
+        const month = date.getMonth();
+        const day = date.getDate();
+        return (month === 10 && day === 1) || (month === 11 && day >= 23) || (month === 0 && day <= 6) || (month === 3 && day >= 13 && day <= 18);
+    };
+    const calendar: calendarDay[] = [];
+    for (let day = new Date(start); day <= end; day = addDays(day, 1)) {
+        const dayOfWeek = day.getDay() === 0 ? 7 : day.getDay();
+        calendar.push({
+            dayDate: formatDay(day),
+            dayOfWeek,
+            status: dayOfWeek >= 6 ? "NW" : holidays(day) ? "HD" : "SD",
+        });
+    }
+    const schoolDays = calendar.filter(({ status }) => status === "SD").map(({ dayDate }) => new Date(`${dayDate}T00:00:00`));
+    const pastDays = schoolDays.filter(day => day <= today);
+    const futureDays = schoolDays.filter(day => day > today);
+
+    const timetable: number[][] = Array.from({ length: 5 }, () => Array.from({ length: 5 }, () => int(0, subjects.length - 1)));
+    const lessons: FakeRecord[] = [];
+    for (const day of schoolDays.filter(day => day <= addDays(today, 7))) {
+        timetable[day.getDay() - 1].forEach((index, hour) => {
+            const subject = subjects[index];
+            lessons.push({
+                evtId: 500000 + lessons.length,
+                evtDate: formatDay(day),
+                evtCode: "LSF0",
+                evtHPOS: hour + 1,
+                evtDuration: 1,
+                classDesc: "3A LICEO SCIENTIFICO",
+                authorName: random() < 0.05 ? `${pick(lastNames).toUpperCase()} ${pick(firstNames).toUpperCase()}` : teacherOf(subject),
+                subjectId: subject.id,
+                subjectCode: "",
+                subjectDesc: subject.description,
+                lessonType: "Lezione",
+                lessonArg: pick(topics),
+            });
+        });
+    }
+
+    const grades: Grade[] = [];
+    for (const subject of subjects) {
+        for (let i = int(3, 6); i > 0 && pastDays.length; i--) {
+            const day = pick(pastDays);
+            const period = periodOf(day);
+            const numeric = random() > 0.1;
+            const value = int(16, 40) / 4;
+
+            grades.push({
+                subjectId: subject.id as number,
+                subjectCode: "",
+                subjectDesc: subject.description as string,
+                evtId: 100000 + grades.length,
+                evtCode: pick(["GRV0", "GRS0", "GRT0"]),
+                evtDate: formatDay(day),
+                decimalValue: numeric ? value : null,
+                displayValue: numeric ? displayGrade(value) : pick(["+", "-", "g"]),
+                displaPos: 1,
+                notesForFamily: random() < 0.3 ? pick(topics) : "",
+                color: !numeric ? "blue" : value < 6 ? "red" : "green",
+                canceled: random() < 0.05,
+                underlined: false,
+                periodPos: period.periodPos as number,
+                periodDesc: period.periodDesc as string,
+                componentPos: 1,
+                componentDesc: "Scritto/Grafico",
+                weightFactor: random() < 0.15 ? 0.5 : 1,
+                skillId: 0,
+                gradeMasterId: 0,
+                skillDesc: "",
+                skillCode: "",
+                skillMasterId: 0,
+                skillValueDesc: "",
+                skillValueShortDesc: "",
+                oldskillId: 0,
+                oldskillDesc: "",
+            });
+        }
+    }
+    grades.sort((a, b) => a.evtDate.localeCompare(b.evtDate));
+
+    const agenda: FakeRecord[] = [];
+    for (let i = 0; i < 20 && schoolDays.length; i++) {
+        const day = pick(random() < 0.6 ? (futureDays.length ? futureDays : schoolDays) : (pastDays.length ? pastDays : schoolDays));
+        const subject = pick(subjects);
+        const homework = random() < 0.7;
+        const hour = int(8, 12);
+        agenda.push({
+            evtId: 200000 + i,
+            evtCode: homework ? "AGHW" : "AGNT",
+            evtDatetimeBegin: `${formatDay(day)}T${pad(hour)}:00:00+01:00`,
+            evtDatetimeEnd: `${formatDay(day)}T${pad(hour + 1)}:00:00+01:00`,
+            isFullDay: !homework && random() < 0.3,
+            notes: homework ? `${pick(topics)}: esercizi da pagina ${int(10, 300)}` : pick(topics),
+            authorName: teacherOf(subject),
+            classDesc: "3A LICEO SCIENTIFICO",
+            subjectId: homework ? subject.id : null,
+            subjectDesc: homework ? subject.description : null,
+            homeworkId: null,
+        });
+    }
+    agenda.sort((a, b) => String(a.evtDatetimeBegin).localeCompare(String(b.evtDatetimeBegin)));
+
+    const absenceList: absences[] = [];
+    for (let i = int(4, 10); i > 0 && pastDays.length; i--) {
+        const evtCode = pick(["ABA0", "ABA0", "ABR0", "ABU0"]);
+        const justified = random() < 0.7;
+        absenceList.push({
+            evtId: 300000 + absenceList.length,
+            evtCode,
+            evtDate: formatDay(pick(pastDays)),
+            evtHPos: evtCode === "ABA0" ? null : evtCode === "ABR0" ? 2 : 4,
+            evtValue: evtCode === "ABA0" ? null : 1,
+            isJustified: justified,
+            justifReasonCode: justified ? "A" : "",
+            justifReasonDesc: justified ? "Motivi di salute" : "",
+        });
+    }
+    absenceList.sort((a, b) => a.evtDate.localeCompare(b.evtDate));
+
+    const notes: { [type: string]: FakeRecord[] } = { NTTE: [], NTCL: [], NTWN: [], NTST: [] };
+    for (let i = int(1, 4); i > 0 && pastDays.length; i--) {
+        const type = pick(["NTTE", "NTCL", "NTWN"]);
+        notes[type].push({
+            evtId: 400000 + i,
+            evtText: pick(["Dimentica il materiale", "Disturba la lezione", "Ottima partecipazione", "Compiti non svolti"]),
+            evtDate: formatDay(pick(pastDays)),
+            authorName: teacherOf(pick(subjects)),
+            readStatus: random() < 0.5,
+            ...(type === "NTWN" ? { warningType: "RIT" } : {}),
+        });
+    }
+
+    const noticeboard: FakeRecord[] = [];
+    for (let i = 0; i < 6; i++) {
+        const published = addDays(today, -int(1, 60));
+        const attach = random() < 0.5;
+        noticeboard.push({
+            pubId: 600000 + i,
+            pubDT: `${formatDay(published)}T10:00:00+01:00`,
+            readStatus: random() < 0.4,
+            evtCode: "CF",
+            cntId: 700000 + i,
+            cntValidFrom: formatDay(published),
+            cntValidTo: formatDay(addDays(published, 90)),
+            cntValidInRange: true,
+            cntStatus: "active",
+            cntTitle: `Circolare n. ${int(1, 300)} - ${pick(["Uscita didattica", "Sciopero", "Colloqui generali", "Assemblea di istituto", "Orario provvisorio"])}`,
+            cntCategory: pick(["Circolare", "News", "Modulistica"]),
+            cntHasChanged: false,
+            cntHasAttach: attach,
+            needJoin: random() < 0.3,
+            needReply: false,
+            needFile: false,
+            needSign: random() < 0.3,
+            evento_id: `${800000 + i}`,
+            attachments: attach ? [{ fileName: `circolare_${i + 1}.pdf`, attachNum: 1 }] : [],
+        });
+    }
+
+    const documents: FakeRecord[] = [
+        { hash: `${seed}a1b2c3`, desc: "Pagella primo quadrimestre" },
+        { hash: `${seed}d4e5f6`, desc: "Certificato di iscrizione" },
+    ];
+
+    const schoolbooks: FakeRecord[] = [{
+        courseId: 1,
+        courseDesc: "3A LICEO SCIENTIFICO",
+        books: subjects.slice(0, 4).map((subject, index) => ({
+            bookId: 900 + index,
+            isbnCode: `978880${int(1000000, 9999999)}`,
+            title: `${subject.description} ${int(1, 3)}`,
+            subheading: "",
+            volume: "U",
+            author: `${pick(lastNames)} ${pick(firstNames)}`,
+            publisher: pick(["Zanichelli", "Mondadori", "Pearson"]),
+            subject: subject.description,
+            price: int(1500, 4500) / 100,
+            toBuy: false,
+            newAdoption: false,
+            alreadyOwned: true,
+            alreadyInUse: true,
+            recommended: false,
+            recommendedFor: "",
+            coverUrl: "",
+            publisherUnlockCode: "",
+        })),
+    }];
+
+    const didactics: FakeRecord[] = subjects.slice(0, 3).map(subject => ({
+        teacherId: (subject.teachers as FakeRecord[])[0].teacherId,
+        teacherName: teacherOf(subject),
+        teacherFirstName: teacherOf(subject).split(" ")[1],
+        teacherLastName: teacherOf(subject).split(" ")[0],
+        folders: [{
+            folderId: int(1000, 9999),
+            folderName: `Materiale di ${String(subject.description).toLowerCase()}`,
+            lastShareDT: `${formatDay(addDays(today, -int(1, 30)))}T12:00:00+01:00`,
+            contents: [{ contentId: int(10000, 99999), contentName: "Dispensa.pdf", objectId: int(10000, 99999), objectType: "file", shareDT: `${formatDay(addDays(today, -int(1, 30)))}T12:00:00+01:00` }],
+        }],
+    }));
+
+    const rubrica: FakeRecord[] = subjects.map(subject => ({
+        id: (subject.teachers as FakeRecord[])[0].teacherId,
+        nome: teacherOf(subject),
+        tipo: "D",
+    }));
+
+    const messages: FakeRecord[] = [];
+    for (let i = 0; i < 45; i++) {
+        const sender = pick(rubrica);
+        const subject = pick(["Riunione", "Compiti per casa", "Uscita didattica", "Materiale", "Avviso"]);
+        messages.push({
+            msgId: `${1000 + i}`,
+            threadId: `${1000 + i}`,
+            msgSubject: subject,
+            msgPreview: `${subject}: ${pick(topics).toLowerCase()}`,
+            msgText: `${subject}. ${pick(topics)}, saluti.`,
+            senderId: sender.id,
+            senderName: sender.nome,
+            dinsert: `${formatDay(addDays(today, -i))} 09:${pad(i % 60)}:00`,
+            read: random() < 0.6,
+            hasAttach: random() < 0.2,
+            attachments: [],
+        });
+    }
+    messages.filter(message => message.hasAttach).forEach(message => {
+        message.attachments = [{ attachId: `A${message.msgId}`, fileName: `allegato_${message.msgId}.pdf`, fileSize: 2048 }];
+    });
+
+    const bacheca: FakeRecord[] = noticeboard.map((notice, index) => ({
+        id: notice.pubId,
+        id_relazione: `${index + 1}`,
+        titolo: notice.cntTitle,
+        data_start: notice.cntValidFrom,
+        data_stop: notice.cntValidTo,
+        tipo_com: notice.cntCategory,
+        letto: notice.readStatus,
+    }));
+
+    const card = {
+        ident,
+        usrType: "S",
+        usrId: id,
+        miurSchoolCode: "RMPS000000",
+        miurDivisionCode: "RMPS000000",
+        firstName,
+        lastName,
+        birthDate: `${year - 16}-0${int(1, 9)}-1${int(0, 9)}`,
+        fiscalCode: `${lastName.slice(0, 3).toUpperCase()}${firstName.slice(0, 3).toUpperCase()}00A01H501X`,
+        schCode: "RMLS0001",
+        schName: "LICEO SCIENTIFICO STATALE",
+        schDedication: "GALILEO GALILEI",
+        schCity: "ROMA",
+        schProv: "RM",
+    };
+
+    const talkDays = [1, 4, 8].map(index => futureDays[index]).filter(Boolean);
+    const talks: TalkTeacher[] = subjects.map(subject => {
+        const teacher = (subject.teachers as FakeRecord[])[0];
+        return {
+            teacherId: teacher.teacherId as string,
+            teacherName: teacher.teacherName as string,
+            subjects: [subject.description as string],
+            frames: talkDays.filter(() => random() < 0.8).map(day => {
+                const online = random() < 0.3;
+                const start = int(15, 17) * 60;
+                const time = (minutes: number) => `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+                return {
+                    talkId: 900000 + int(0, 99999),
+                    evtDate: formatDay(day),
+                    startTime: time(start),
+                    endTime: time(start + 60),
+                    place: online ? "Online" : "Aula colloqui",
+                    online,
+                    slots: Array.from({ length: 6 }, (_, i) => ({
+                        slot: i + 1,
+                        startTime: time(start + i * 10),
+                        endTime: time(start + (i + 1) * 10),
+                        available: random() < 0.7,
+                    })),
+                };
+            }),
+        };
+    });
+
+    return {
+        username: username ?? ident,
+        password,
+        ident,
+        firstName,
+        lastName,
+        card,
+        subjects,
+        periods,
+        grades,
+        absences: absenceList,
+        agenda,
+        lessons,
+        notes,
+        noticeboard,
+        documents,
+        schoolbooks,
+        didactics,
+        calendar,
+        account: {
+            cid: "RMLS0001",
+            cognome: lastName.toUpperCase(),
+            nome: firstName.toUpperCase(),
+            id,
+            type: "S",
+        },
+        messages,
+        rubrica,
+        bacheca,
+        talks,
+        talkBookings: [] as TalkBooking[],
+        talkMessages: {} as { [bookingId: string]: TalkMessage[] },
+    };
+}
+
+/**
+ * @private Small seedable random generator
+ * @param {number} seed The seed
+ * @returns {Function} Returns a number between 0 and 1 every time it's called
+ */
+function mulberry32(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+function displayGrade(value: number): string {
+    const whole = Math.floor(value);
+    const rest = value - whole;
+    if (rest === 0.25) return `${whole}+`;
+    if (rest === 0.5) return `${whole}½`;
+    if (rest === 0.75) return `${whole + 1}-`;
+    return `${whole}`;
+}
+
+function addDays(date: Date, days: number): Date {
+    const copy = new Date(date);
+    copy.setDate(copy.getDate() + days);
+    return copy;
+}
+
+function pad(value: number): string {
+    return value < 10 ? `0${value}` : `${value}`;
+}
+
+function formatDay(date: Date): string {
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+export default generateFakeData;
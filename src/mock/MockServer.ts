@@ -0,0 +1,500 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { randomBytes, createHash } from 'crypto';
+import { FakeData, FakeRecord, MockServerOptions } from '../typings/Mock';
+import generateFakeData from './FakeData';
+
+type Route = {
+    method: string;
+    pattern: RegExp;
+    handler: (context: RouteContext) => unknown;
+};
+
+type RouteContext = {
+    params: string[];
+    query: URLSearchParams;
+    body: string;
+    request: IncomingMessage;
+    response: ServerResponse;
+};
+
+/**
+ * Local stand-in for web.spaggiari.eu, implementing the endpoints used by Rest and Web with seedable fake data
+ */
+class MockServer {
+    readonly data: FakeData;
+    readonly #port: number;
+    readonly #host: string;
+    readonly #tokenLifetime: number;
+    readonly #maxRangeDays: number;
+    readonly #tokens: Map<string, Date>;
+    readonly #sessions: Set<string>;
+    readonly #tickets: Set<string>;
+    readonly #routes: Route[];
+    #server: Server | undefined;
+
+    /**
+     * @param {object} [options] Server options
+     * @param {number} [options.port] Port to listen on, defaults to a random free port
+     * @param {string} [options.host] Host to listen on, defaults to 127.0.0.1
+     * @param {number} [options.tokenLifetime] Lifetime of the REST tokens in seconds, defaults to 90 minutes
+     * @param {number} [options.maxRangeDays] Longest date range accepted by the REST endpoints, longer ones get a 400, defaults to no limit
+     * @param {number} [options.seed] Seed of the fake data
+     * @param {Date} [options.today] The day the fake data is generated around
+     * @param {string} [options.username] Accepted username, defaults to the student ident
+     * @param {string} [options.password] Accepted password, defaults to "password"
+     */
+    constructor({ port = 0, host = "127.0.0.1", tokenLifetime = 60 * 90, maxRangeDays = Infinity, ...data }: MockServerOptions = {}) {
+        this.data = generateFakeData(data);
+        this.#port = port;
+        this.#host = host;
+        this.#tokenLifetime = tokenLifetime;
+        this.#maxRangeDays = maxRangeDays;
+        this.#tokens = new Map();
+        this.#sessions = new Set();
+        this.#tickets = new Set();
+        this.#routes = [...this.#restRoutes(), ...this.#webRoutes()];
+    }
+
+    /**
+     * The url of the server, to be passed as baseUrl to Rest and Web
+     */
+    get url(): string {
+        const address = this.#server?.address() as AddressInfo | null;
+        if (!address) return "";
+        return `http://${this.#host}:${address.port}`;
+    }
+
+    /**
+     * Starts the server
+     * @returns {Promise<string>} The url of the server
+     */
+    start(): Promise<string> {
+        return new Promise((resolve, reject) => {
+            this.#server = createServer((request, response) => {
+                this.#handle(request, response).catch(() => {
+                    if (!response.headersSent) send(response, 500, restError(500, "InternalServerError", "mock server error"));
+                });
+            });
+            this.#server.once("error", reject);
+            this.#server.listen(this.#port, this.#host, () => resolve(this.url));
+        });
+    }
+
+    /**
+     * Stops the server
+     * @returns {Promise<void>}
+     */
+    stop(): Promise<void> {
+        return new Promise((resolve, reject) => {
+            if (!this.#server) return resolve();
+            this.#server.close(error => error ? reject(error) : resolve());
+            this.#server = undefined;
+        });
+    }
+
+    /**
+     * Makes every issued REST token and web session invalid, useful to test re-logins
+     * @returns {void}
+     */
+    expireSessions(): void {
+        this.#tokens.clear();
+        this.#sessions.clear();
+        this.#tickets.clear();
+    }
+
+    async #handle(request: IncomingMessage, response: ServerResponse): Promise<void> {
+        const url = new URL(request.url ?? "/", "http://localhost");
+        const body = await readBody(request);
+
+        const route = this.#routes.find(({ method, pattern }) => method === request.method && pattern.test(url.pathname));
+        if (!route) return send(response, 404, restError(404, "NotFound", "not found"));
+
+        const params = (url.pathname.match(route.pattern) ?? []).slice(1);
+        const result = route.handler({ params, query: url.searchParams, body, request, response });
+        if (response.headersSent) return;
+
+        if (request.method === "GET" && url.pathname.startsWith("/rest/v1/")) {
+            const etag = `"${createHash("md5").update(JSON.stringify(result ?? {})).digest("hex")}"`;
+            response.setHeader("ETag", etag);
+            if (request.headers["z-if-none-match"] === etag) {
+                response.writeHead(304);
+                return void response.end();
+            }
+        }
+        send(response, 200, result);
+    }
+
+    #restRoutes(): Route[] {
+        const data = this.data;
+        const student = (path: string) => new RegExp(`^/rest/v1/(?:students|parents|users)/(\\w+)${path}/?$`);
+        const auth = (handler: (context: RouteContext) => unknown) => (context: RouteContext): unknown => {
+            const token = context.request.headers["z-auth-token"];
+            const expire = typeof token === "string" ? this.#tokens.get(token) : undefined;
+            if (!expire || expire <= new Date()) return send(context.response, 401, restError(401, "Unauthorized", "auth token expired"));
+            if (![data.ident, data.ident.replace(/\D/g, "")].includes(context.params[0])) return send(context.response, 403, restError(403, "Forbidden", "wrong user"));
+            const [start, end] = context.params.slice(-2);
+            if (/^\d{8}$/.test(start) && /^\d{8}$/.test(end) && rangeDays(start, end) > this.#maxRangeDays) return send(context.response, 400, restError(400, "BadRequest", "date range too long"));
+            return handler(context);
+        };
+        const inRange = (date: unknown, start: string, end: string) => {
+            const day = String(date).slice(0, 10).replace(/-/g, "");
+            return day >= start && day <= end;
+        };
+
+        return [
+            { method: "POST", pattern: /^\/rest\/v1\/auth\/login\/?$/, handler: ({ body, response }) => {
+                const { uid, pass } = parseJson(body);
+                if (uid !== data.username && uid !== data.ident || pass !== data.password) return send(response, 422, restError(422, "WrongCredentials", "Username and password do not match"));
+
+                const token = randomBytes(24).toString("hex");
+                const expire = new Date(Date.now() + this.#tokenLifetime * 1000);
+                this.#tokens.set(token, expire);
+                return {
+                    ident: data.ident,
+                    firstName: data.firstName,
+                    lastName: data.lastName,
+                    token,
+                    showPwdChangeReminder: false,
+                    release: new Date().toISOString(),
+                    expire: expire.toISOString(),
+                };
+            } },
+            { method: "GET", pattern: /^\/rest\/v1\/auth\/status\/?$/, handler: ({ request, response }) => {
+                const token = String(request.headers["z-auth-token"]);
+                const expire = this.#tokens.get(token);
+                if (!expire || expire <= new Date()) return send(response, 401, restError(401, "Unauthorized", "auth token expired"));
+                return { status: { expire: expire.toISOString(), release: new Date().toISOString(), ident: data.ident, remains: Math.floor((expire.getTime() - Date.now()) / 1000) } };
+            } },
+            { method: "GET", pattern: /^\/rest\/v1\/auth\/ticket\/?$/, handler: ({ request, response }) => {
+                if (!this.#tokens.has(String(request.headers["z-auth-token"]))) return send(response, 401, restError(401, "Unauthorized", "auth token expired"));
+                const ticket = randomBytes(16).toString("hex");
+                this.#tickets.add(ticket);
+                return { ticket, len: ticket.length, ulen: ticket.length, md5: createHash("md5").update(ticket).digest("hex") };
+            } },
+            { method: "GET", pattern: /^\/rest\/v1\/auth\/avatar\/?$/, handler: () => ({}) },
+            { method: "GET", pattern: student("/cards"), handler: auth(() => ({ cards: [data.card] })) },
+            { method: "GET", pattern: student("/card"), handler: auth(() => ({ card: data.card })) },
+            { method: "GET", pattern: student("/grades2"), handler: auth(() => ({ grades: data.grades })) },
+            { method: "GET", pattern: student("/absences/details"), handler: auth(() => ({ events: data.absences })) },
+            { method: "GET", pattern: student("/agenda/(all|AGHW|AGNT)/(\\d{8})/(\\d{8})"), handler: auth(({ params: [, code, start, end] }) => ({
+                agenda: data.agenda.filter(event => (code === "all" || event.evtCode === code) && inRange(event.evtDatetimeBegin, start, end)),
+            })) },
+            { method: "POST", pattern: student("/documents"), handler: auth(() => ({ documents: data.documents, schoolReports: [] })) },
+            { method: "POST", pattern: student("/documents/check/(\\w+)"), handler: auth(({ params: [, hash] }) => ({ document: { available: data.documents.some(document => document.hash === hash) } })) },
+            { method: "POST", pattern: student("/documents/read/(\\w+)"), handler: auth(({ params: [, hash], response }) => {
+                const document = data.documents.find(item => item.hash === hash);
+                if (!document) return send(response, 404, restError(404, "NotFound", "document not found"));
+                response.writeHead(200, { "Content-Type": "application/pdf", "Content-Disposition": `attachment; filename="${hash}.pdf"` });
+                return response.end(fakePdf(String(document.desc)));
+            }) },
+            { method: "GET", pattern: student("/noticeboard"), handler: auth(() => ({ items: data.noticeboard })) },
+            { method: "POST", pattern: student("/noticeboard/read/(\\w+)/(\\d+)/(\\d+)"), handler: auth(({ params: [, , id], body, request, response }) => {
+                const notice = data.noticeboard.find(item => String(item.pubId) === id);
+                if (!notice) return send(response, 404, restError(404, "NotFound", "notice not found"));
+                notice.readStatus = true;
+                notice.reply = { ...(notice.reply as FakeRecord ?? { replFile: null, replText: null, replJoin: null, replSign: null }), ...parseReply(body, request.headers["content-type"]) };
+                return { item: { text: `Testo della comunicazione "${notice.cntTitle}"`, title: notice.cntTitle }, reply: notice.reply };
+            }) },
+            { method: "GET", pattern: student("/noticeboard/attach/(\\w+)/(\\d+)(?:/(\\d+))?"), handler: auth(({ params: [, , id, attachNum], response }) => {
+                const notice = data.noticeboard.find(item => String(item.pubId) === id);
+                const attachments = (notice?.attachments as FakeRecord[] | undefined) ?? [];
+                const attachment = attachNum ? attachments.find(item => String(item.attachNum) === attachNum) : attachments[0];
+                if (!attachment) return send(response, 404, restError(404, "NotFound", "attachment not found"));
+                response.writeHead(200, { "Content-Type": "application/pdf", "Content-Disposition": `attachment; filename="${attachment.fileName}"` });
+                return response.end(fakePdf(String(notice?.cntTitle)));
+            }) },
+            { method: "GET", pattern: student("/schoolbooks"), handler: auth(() => ({ schoolbooks: data.schoolbooks })) },
+            { method: "GET", pattern: student("/calendar/all"), handler: auth(() => ({ calendar: data.calendar })) },
+            { method: "GET", pattern: student("/lessons/today"), handler: auth(() => {
+                const today = formatDay(new Date());
+                return { lessons: data.lessons.filter(lesson => lesson.evtDate === today) };
+            }) },
+            { method: "GET", pattern: student("/lessons/(\\d{8})/(\\d{8})"), handler: auth(({ params: [, start, end] }) => ({
+                lessons: data.lessons.filter(lesson => inRange(lesson.evtDate, start, end)),
+            })) },
+            { method: "GET", pattern: student("/notes/all"), handler: auth(() => data.notes) },
+            { method: "GET", pattern: student("/periods"), handler: auth(() => ({ periods: data.periods })) },
+            { method: "GET", pattern: student("/subjects"), handler: auth(() => ({ subjects: data.subjects })) },
+            { method: "GET", pattern: student("/didactics"), handler: auth(() => ({ didacticts: data.didactics })) },
+            { method: "GET", pattern: student("/overview/all/(\\d{8})/(\\d{8})"), handler: auth(({ params: [, start, end] }) => ({
+                virtualClassesAgenda: [],
+                lessons: data.lessons.filter(lesson => inRange(lesson.evtDate, start, end)),
+                agenda: data.agenda.filter(event => inRange(event.evtDatetimeBegin, start, end)),
+                events: data.absences.filter(event => inRange(event.evtDate, start, end)),
+                grades: data.grades.filter(grade => inRange(grade.evtDate, start, end)),
+                note: data.notes,
+            })) },
+            { method: "GET", pattern: student("/_options"), handler: auth(() => ({ options: { talks: true, talksExtended: false, parentsTalks: true, noticeboard: true, grades: true, absences: true, agenda: true, lessons: true, notes: true, documents: true, schoolbooks: true, didactics: true } })) },
+            { method: "GET", pattern: student("/overalltalks/list"), handler: auth(() => ({ overallTalks: [] })) },
+            { method: "GET", pattern: student("/talks/teachersframes/(\\d{8})/(\\d{8})"), handler: auth(({ params: [, start, end] }) => ({
+                teachers: data.talks.map(teacher => ({ ...teacher, frames: teacher.frames.filter(frame => inRange(frame.evtDate, start, end)) })),
+            })) },
+            { method: "GET", pattern: student("/talks/mytalks/(\\d{8})/(\\d{8})"), handler: auth(({ params: [, start, end] }) => ({
+                bookings: data.talkBookings.filter(booking => inRange(booking.evtDate, start, end)),
+            })) },
+            { method: "POST", pattern: student("/talks/book/(\\w+)/(\\d+)/(\\d+)"), handler: auth(({ params: [, teacherId, talkId, slotNumber], response }) => {
+                const teacher = data.talks.find(item => item.teacherId === teacherId);
+                const frame = teacher?.frames.find(item => String(item.talkId) === talkId);
+                const slot = frame?.slots.find(item => String(item.slot) === slotNumber);
+                if (!teacher || !frame || !slot) return send(response, 404, restError(404, "NotFound", "slot not found"));
+                if (!slot.available) return send(response, 409, restError(409, "Conflict", "slot already booked"));
+
+                slot.available = false;
+                const booking = {
+                    bookingId: 950000 + data.talkBookings.length,
+                    teacherId,
+                    teacherName: teacher.teacherName,
+                    talkId: frame.talkId,
+                    slot: slot.slot,
+                    evtDate: frame.evtDate,
+                    startTime: slot.startTime,
+                    endTime: slot.endTime,
+                    place: frame.place,
+                    online: frame.online,
+                    link: frame.online ? `https://meet.example.com/${frame.talkId}-${slot.slot}` : null,
+                };
+                data.talkBookings.push(booking);
+                data.talkMessages[booking.bookingId] = [{ messageId: 1, text: "Buongiorno, confermo il colloquio.", date: new Date().toISOString(), fromTeacher: true, read: false }];
+                return { booking };
+            }) },
+            { method: "POST", pattern: student("/talks/delete/(\\d+)"), handler: auth(({ params: [, bookingId], response }) => {
+                const index = data.talkBookings.findIndex(item => String(item.bookingId) === bookingId);
+                if (index < 0) return send(response, 404, restError(404, "NotFound", "booking not found"));
+
+                const [booking] = data.talkBookings.splice(index, 1);
+                const slot = data.talks.find(item => item.teacherId === booking.teacherId)?.frames
+                .find(item => item.talkId === booking.talkId)?.slots.find(item => item.slot === booking.slot);
+                if (slot) slot.available = true;
+                return { deleted: true };
+            }) },
+            { method: "POST", pattern: student("/talks/teachermessage/(\\d+)"), handler: auth(({ params: [, bookingId], body, response }) => {
+                const messages = data.talkMessages[bookingId];
+                if (!messages) return send(response, 404, restError(404, "NotFound", "booking not found"));
+
+                const { messageText, messageRead } = parseJson(body);
+                if (typeof messageText === "string") messages.push({ messageId: messages.length + 1, text: messageText, date: new Date().toISOString(), fromTeacher: false, read: true });
+                if (messageRead) messages.forEach(message => { message.read = true; });
+                return { messages };
+            }) },
+            { method: "GET", pattern: student("/getTermsAgreement"), handler: auth(() => ({ schoolpass: 0, bitmask: 1, data_accettazione: new Date().toISOString() })) },
+            { method: "POST", pattern: student("/setTermsAgreement"), handler: auth(() => ({ msg: "ok" })) },
+        ];
+    }
+
+    #webRoutes(): Route[] {
+        const data = this.data;
+        const app = (path: string, file: string) => new RegExp(`^/${path}/app/default/${file.replace(/\./g, "\\.")}$`);
+        const session = (handler: (context: RouteContext) => unknown) => (context: RouteContext): unknown => {
+            const cookies = String(context.request.headers.cookie ?? "");
+            const id = cookies.match(/PHPSESSID=([^;\s]+)/)?.[1];
+            if (!id || !this.#sessions.has(id)) {
+                context.response.writeHead(302, { Location: "/home/app/default/login.php" });
+                return context.response.end();
+            }
+            return handler(context);
+        };
+
+        return [
+            { method: "GET", pattern: app("home", "login.php"), handler: ({ response }) => {
+                response.writeHead(200, { "Content-Type": "text/html; charset=utf-8" });
+                return response.end("<!DOCTYPE html><html><head><title>La scuola italiana - Login</title></head><body><form id=\"login\"></form></body></html>");
+            } },
+            { method: "POST", pattern: app("auth-p7", "AuthApi4.php"), handler: ({ query, body, response }) => {
+                const form = new URLSearchParams(body);
+                if (query.get("a") === "aLoginTicket") {
+                    const ticket = form.get("ticket") ?? "";
+                    if (!this.#tickets.delete(ticket)) return { data: { auth: { verified: false, loggedIn: false } }, error: ["Ticket non valido"] };
+                } else if (form.get("uid") !== data.username && form.get("uid") !== data.ident || form.get("pwd") !== data.password) return { data: { auth: { verified: false, loggedIn: false } }, error: ["Username e/o password errati"] };
+
+                const id = randomBytes(16).toString("hex");
+                this.#sessions.add(id);
+                response.setHeader("Set-Cookie", [`webrole=gen; path=/`, `webidentity=${data.ident}; path=/`, `PHPSESSID=${id}; path=/; HttpOnly`]);
+                return { data: { auth: { verified: true, loggedIn: true, accountInfo: data.account } }, error: [] };
+            } },
+            { method: "POST", pattern: app("auth", "OtpApi.php"), handler: session(() => ({ data: { status: "disabled" }, error: [] })) },
+            { method: "GET", pattern: app("auth", "OtpApi.php"), handler: session(() => ({ data: { status: "disabled" }, error: [] })) },
+            { method: "POST", pattern: app("sps", "SocMsgApi.php"), handler: session(context => this.#socMsgApi(context)) },
+            { method: "GET", pattern: app("sps", "SocMsgApi.php"), handler: session(context => this.#socMsgApi(context)) },
+            { method: "GET", pattern: app("sif", "bacheca_personale.php"), handler: session(({ query, response }) => {
+                if (query.get("action") === "read_all") {
+                    const ids = (query.get("id_relazioni") ?? "").split(",");
+                    data.bacheca.forEach(item => ids.includes(String(item.id_relazione)) && (item.letto = true));
+                    response.writeHead(200, { "Content-Type": "text/plain" });
+                    return response.end("OK");
+                }
+                return { msg_new: data.bacheca.filter(item => !item.letto), read: data.bacheca.filter(item => item.letto) };
+            }) },
+            { method: "GET", pattern: app("fml", "agenda_studenti.php"), handler: session(({ query, response }) => {
+                const start = Number(query.get("start")) * 1000;
+                const end = Number(query.get("end")) * 1000;
+                const events = data.agenda
+                .filter(event => {
+                    const time = new Date(String(event.evtDatetimeBegin)).getTime();
+                    return time >= start && time <= end + 1000 * 60 * 60 * 24;
+                })
+                .map(event => ({
+                    id: event.evtId,
+                    title: event.notes,
+                    start: String(event.evtDatetimeBegin).replace("T", " ").slice(0, 19),
+                    end: String(event.evtDatetimeEnd).replace("T", " ").slice(0, 19),
+                    allDay: event.isFullDay,
+                    data_inserimento: String(event.evtDatetimeBegin).slice(0, 10),
+                    nota_2: event.notes,
+                    master_id: null,
+                    classe_id: "",
+                    classe_desc: event.classDesc,
+                    gruppo: 0,
+                    autore_desc: event.authorName,
+                    autore_id: "",
+                    tipo: event.evtCode === "AGHW" ? "compiti" : "nota",
+                    materia_desc: event.subjectDesc ?? "",
+                    materia_id: event.subjectId ?? "",
+                }));
+                response.writeHead(200, { "Content-Type": "text/html; charset=utf-8" });
+                return response.end(events.length ? JSON.stringify(events) : "null");
+            }) },
+            { method: "GET", pattern: app("tools", "get_username.php"), handler: session(() => ({ name: `${data.firstName} ${data.lastName}`, username: data.ident })) },
+            { method: "GET", pattern: app("tools", "get_avatar.php"), handler: session(() => ({})) },
+            { method: "GET", pattern: app("tools", "get_pfolio.php"), handler: session(() => ({ pfolio: [] })) },
+        ];
+    }
+
+    #socMsgApi({ query, body, response }: RouteContext): unknown {
+        const data = this.data;
+        const form = new URLSearchParams(body);
+        switch (query.get("a")) {
+            case "acGetUnreadCount":
+                return { OAS: { unread: { totCount: data.messages.filter(message => !message.read).length } } };
+            case "acGooBApiK":
+                return { OAS: { gooBApiK: "mock-google-key" } };
+            case "acGetRubrica":
+                return { OAS: { targets: data.rubrica } };
+            case "acGetMsgPag": {
+                const page = Number(form.get("p") ?? 1);
+                const perPage = Number(form.get("mpp") ?? 20);
+                const search = (form.get("search") ?? "").toLowerCase();
+                const rows = data.messages
+                .filter(message => form.get("unreadOnly") !== "1" || !message.read)
+                .filter(message => !search || `${message.msgSubject} ${message.msgText}`.toLowerCase().includes(search));
+                return { OAS: { rows: rows.slice((page - 1) * perPage, page * perPage), totRows: rows.length } };
+            }
+            case "acGetMsgThread": {
+                const rows = data.messages
+                .filter(message => message.threadId === form.get("threadId"))
+                .sort((a, b) => String(a.dinsert).localeCompare(String(b.dinsert)));
+                return { OAS: { rows } };
+            }
+            case "acSetMsgRead": {
+                const ids = (form.get("mids") ?? "").split(",");
+                data.messages.forEach(message => ids.includes(String(message.msgId)) && (message.read = true));
+                return { OAS: { read: true } };
+            }
+            case "acSendMsg": {
+                const targets = (form.get("targets") ?? "").split(",");
+                if (targets.some(target => !data.rubrica.some(contact => contact.id === target))) return { error: ["Destinatario non valido"] };
+
+                const msgId = `${1000 + data.messages.length}`;
+                const text = form.get("text") ?? "";
+                const msg = {
+                    msgId,
+                    threadId: msgId,
+                    msgSubject: form.get("subject") ?? "",
+                    msgPreview: text.slice(0, 50),
+                    msgText: text,
+                    senderId: String(data.account.id),
+                    senderName: `${data.account.nome} ${data.account.cognome}`,
+                    dinsert: new Date().toISOString().slice(0, 19).replace("T", " "),
+                    read: true,
+                    hasAttach: false,
+                    attachments: [],
+                    targets,
+                };
+                data.messages.unshift(msg);
+                return { OAS: { msg } };
+            }
+            case "acGetAttach": {
+                const attachment = data.messages
+                .flatMap(message => message.attachments as FakeRecord[])
+                .find(item => item.attachId === query.get("aid"));
+                if (!attachment) return { error: ["Allegato non trovato"] };
+
+                response.writeHead(200, { "Content-Type": "application/pdf", "Content-Disposition": `attachment; filename="${attachment.fileName}"` });
+                return response.end(fakePdf(String(attachment.fileName)));
+            }
+            default:
+                return { error: [`Unknown action ${query.get("a")}`] };
+        }
+    }
+}
+
+function readBody(request: IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        request.on("data", (chunk: Buffer) => chunks.push(chunk));
+        request.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+        request.on("error", reject);
+    });
+}
+
+/**
+ * @private Reads the sign, join, text and file fields of a notice reply
+ * @param {string} body The request body, form encoded or multipart
+ * @param {string} [contentType] The Content-Type header of the request
+ * @returns {object} The reply fields that have been sent
+ */
+function parseReply(body: string, contentType: string = ""): FakeRecord {
+    const fields = new Map<string, string>();
+    const boundary = contentType.match(/boundary=(.+)$/)?.[1];
+
+    if (boundary) {
+        for (const part of body.split(`--${boundary}`)) {
+            const name = part.match(/name="([^"]+)"/)?.[1];
+            const filename = part.match(/filename="([^"]*)"/)?.[1];
+            if (name) fields.set(name, filename ?? part.slice(part.indexOf("\r\n\r\n") + 4, -2));
+        }
+    } else {
+        new URLSearchParams(body).forEach((value, key) => fields.set(key, value));
+    }
+
+    const reply: FakeRecord = {};
+    if (fields.has("sign")) reply.replSign = fields.get("sign") === "true";
+    if (fields.has("join")) reply.replJoin = fields.get("join") === "true";
+    if (fields.has("text")) reply.replText = fields.get("text");
+    if (fields.has("file")) reply.replFile = fields.get("file");
+    return reply;
+}
+
+function send(response: ServerResponse, status: number, data: unknown): void {
+    response.writeHead(status, { "Content-Type": "application/json" });
+    response.end(JSON.stringify(data ?? {}));
+}
+
+function rangeDays(start: string, end: string): number {
+    const date = (day: string) => Date.UTC(Number(day.slice(0, 4)), Number(day.slice(4, 6)) - 1, Number(day.slice(6, 8)));
+    return (date(end) - date(start)) / (1000 * 60 * 60 * 24) + 1;
+}
+
+function restError(statusCode: number, name: string, message: string): FakeRecord {
+    return { statusCode, error: `${statusCode} ${name}/${message}`, message };
+}
+
+function parseJson(body: string): FakeRecord {
+    try {
+        return JSON.parse(body);
+    } catch (e) {
+        return {};
+    }
+}
+
+function fakePdf(title: string): Buffer {
+    return Buffer.from(`%PDF-1.4\n% ${title}\n%%EOF\n`, "utf8");
+}
+
+function formatDay(date: Date): string {
+    const month = date.getMonth() + 1;
+    const day = date.getDate();
+    return `${date.getFullYear()}-${month < 10 ? "0" + month : month}-${day < 10 ? "0" + day : day}`;
+}
+
+export default MockServer;
@@ -0,0 +1,91 @@
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+import { KeyValueStore, JsonFileStoreOptions } from '../typings/Stores';
+
+/**
+ * Keeps values in memory, they are lost when the process exits
+ */
+class MemoryStore<T> implements KeyValueStore<T> {
+    readonly #values: Map<string, T>;
+
+    constructor() {
+        this.#values = new Map();
+    }
+
+    async get(key: string): Promise<T | undefined> {
+        return this.#values.get(key);
+    }
+
+    async set(key: string, value: T): Promise<void> {
+        this.#values.set(key, value);
+    }
+
+    async delete(key: string): Promise<void> {
+        this.#values.delete(key);
+    }
+}
+
+/**
+ * Keeps every value in a single json file, writes are queued so concurrent updates don't overwrite each other
+ */
+class JsonFileStore<T> implements KeyValueStore<T> {
+    readonly path: string;
+    readonly #fileMode: number;
+    #queue: Promise<unknown>;
+
+    /**
+     * @param {object} options Store options
+     * @param {string} options.path Path of the json file, its directory is created if missing
+     * @param {number} [options.fileMode] Permissions of the file, defaults to 0o600
+     */
+    constructor({ path, fileMode = 0o600 }: JsonFileStoreOptions) {
+        this.path = path;
+        this.#fileMode = fileMode;
+        this.#queue = Promise.resolve();
+    }
+
+    async get(key: string): Promise<T | undefined> {
+        await this.#queue;
+        return (await this.#read())[key];
+    }
+
+    async set(key: string, value: T): Promise<void> {
+        return this.#update(values => { values[key] = value; });
+    }
+
+    async delete(key: string): Promise<void> {
+        return this.#update(values => { delete values[key]; });
+    }
+
+    /**
+     * @private Reads the whole file
+     * @returns {object} The stored values, empty if the file is missing or corrupted
+     */
+    async #read(): Promise<{ [key: string]: T }> {
+        try {
+            return JSON.parse(await fs.readFile(this.path, "utf8"));
+        } catch (e) {
+            return {};
+        }
+    }
+
+    /**
+     * @private Queues a read-modify-write of the file
+     * @param {Function} change Function that edits the stored values
+     */
+    #update(change: (values: { [key: string]: T }) => void): Promise<void> {
+        const task = this.#queue.then(async () => {
+            const values = await this.#read();
+            change(values);
+            await fs.mkdir(dirname(this.path), { recursive: true });
+            await fs.writeFile(this.path, JSON.stringify(values, null, 2), { mode: this.#fileMode });
+        });
+        this.#queue = task.catch(() => undefined);
+        return task;
+    }
+}
+
+export {
+    MemoryStore,
+    JsonFileStore,
+};
@@ -0,0 +1,114 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { LoginResponse } from '../typings/Rest';
+import { SessionStore, FileSessionStoreOptions } from '../typings/Stores';
+
+/**
+ * Stores every session in its own json file, readable and writable only by the current user
+ */
+class FileSessionStore implements SessionStore {
+    readonly directory: string;
+    readonly #fileMode: number;
+    readonly #directoryMode: number;
+
+    /**
+     * @param {object} [options] Store options
+     * @param {string} [options.directory] Directory where the session files are saved, defaults to "classeviva.js" inside the os temp directory
+     * @param {number} [options.fileMode] Permissions of the session files, defaults to 0o600
+     * @param {number} [options.directoryMode] Permissions of the directory, defaults to 0o700
+     */
+    constructor({ directory = join(tmpdir(), "classeviva.js"), fileMode = 0o600, directoryMode = 0o700 }: FileSessionStoreOptions = {}) {
+        this.directory = directory;
+        this.#fileMode = fileMode;
+        this.#directoryMode = directoryMode;
+    }
+
+    async get(username: string, state: string): Promise<LoginResponse | undefined> {
+        try {
+            const content = await fs.readFile(this.#path(username, state), "utf8");
+            return content ? JSON.parse(content) : undefined;
+        } catch (e) {
+            return undefined;
+        }
+    }
+
+    async set(username: string, state: string, session: LoginResponse): Promise<void> {
+        await fs.mkdir(this.directory, { recursive: true, mode: this.#directoryMode });
+        // mkdir keeps the permissions of a directory that already exists
+        await fs.chmod(this.directory, this.#directoryMode);
+
+        const path = this.#path(username, state);
+        await fs.writeFile(path, JSON.stringify(session, null, 2), { mode: this.#fileMode });
+        await fs.chmod(path, this.#fileMode);
+    }
+
+    async delete(username: string, state: string): Promise<void> {
+        await fs.rm(this.#path(username, state), { force: true });
+    }
+
+    /**
+     * @private Builds the path of the session file of a user, the username is percent-encoded so every user gets a different file inside the directory
+     * @param {string} username Classeviva username
+     * @param {string} state Classeviva state
+     * @returns {string} The path of the session file
+     */
+    #path(username: string, state: string): string {
+        return join(this.directory, `cvv-${encode(state)}-${encode(username)}.json`);
+    }
+}
+
+/**
+ * Keeps sessions in memory, they are lost when the process exits
+ */
+class MemorySessionStore implements SessionStore {
+    readonly #sessions: Map<string, LoginResponse>;
+
+    constructor() {
+        this.#sessions = new Map();
+    }
+
+    async get(username: string, state: string): Promise<LoginResponse | undefined> {
+        return this.#sessions.get(`${state}:${username}`);
+    }
+
+    async set(username: string, state: string, session: LoginResponse): Promise<void> {
+        this.#sessions.set(`${state}:${username}`, session);
+    }
+
+    async delete(username: string, state: string): Promise<void> {
+        this.#sessions.delete(`${state}:${username}`);
+    }
+}
+
+/**
+ * Never persists sessions, every login hits the server
+ */
+class NoopSessionStore implements SessionStore {
+    async get(): Promise<LoginResponse | undefined> {
+        return undefined;
+    }
+
+    async set(): Promise<void> {
+        return;
+    }
+
+    async delete(): Promise<void> {
+        return;
+    }
+}
+
+/**
+ * @private Percent-encodes a part of a file name, "*" too since some file systems don't allow it
+ * @param {string} value The part of the name
+ * @returns {string} The encoded part, decodeURIComponent gives it back
+ */
+function encode(value: string): string {
+    return encodeURIComponent(value).replace(/\*/g, "%2A");
+}
+
+export {
+    FileSessionStore,
+    MemorySessionStore,
+    NoopSessionStore,
+};
@@ -0,0 +1,62 @@
+interface AverageOptions {
+    weighted?: boolean;
+}
+
+interface SubjectAverage {
+    subjectId: number;
+    subjectDesc: string;
+    average: number | null;
+    count: number;
+}
+
+interface PeriodAverage {
+    periodPos: number;
+    periodDesc: string;
+    average: number | null;
+    count: number;
+}
+
+interface TrendPoint {
+    date: string;
+    value: number;
+    average: number;
+}
+
+interface Trend {
+    points: TrendPoint[];
+    slope: number;
+}
+
+interface TrendOptions extends AverageOptions {
+    subjectId?: number;
+}
+
+interface ProjectionOptions extends AverageOptions {
+    weight?: number;
+    count?: number;
+    min?: number;
+    max?: number;
+}
+
+interface Projection {
+    grade: number;
+    reachable: boolean;
+}
+
+interface InsufficientCount {
+    subjectId: number;
+    subjectDesc: string;
+    count: number;
+}
+
+export {
+    AverageOptions,
+    SubjectAverage,
+    PeriodAverage,
+    TrendPoint,
+    Trend,
+    TrendOptions,
+    ProjectionOptions,
+    Projection,
+    InsufficientCount,
+};
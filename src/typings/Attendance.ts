@@ -0,0 +1,50 @@
+import { absences } from './Rest';
+
+type AbsenceKind = "absence" | "late" | "earlyExit";
+
+type AttendanceStatus = "ok" | "warning" | "exceeded";
+
+interface AttendanceOptions {
+    hoursPerDay?: number;
+    threshold?: number;
+    warnAt?: number;
+    today?: Date;
+}
+
+interface AbsenceTotals {
+    days: number;
+    hours: number;
+    lates: number;
+    earlyExits: number;
+    unjustified: number;
+}
+
+interface PeriodAbsences extends AbsenceTotals {
+    periodPos: number;
+    periodDesc: string;
+    dateStart: string;
+    dateEnd: string;
+}
+
+interface AbsenceReport {
+    totals: AbsenceTotals;
+    periods: PeriodAbsences[];
+    pending: absences[];
+    schoolDays: number;
+    schoolHours: number;
+    elapsedHours: number;
+    percentage: number;
+    yearPercentage: number;
+    allowedHours: number;
+    remainingHours: number;
+    status: AttendanceStatus;
+}
+
+export {
+    AbsenceKind,
+    AttendanceStatus,
+    AttendanceOptions,
+    AbsenceTotals,
+    PeriodAbsences,
+    AbsenceReport,
+};
@@ -0,0 +1,35 @@
+import { KeyValueStore } from "./Stores";
+import { Logger } from "./Logger";
+
+interface CacheEntry {
+    etag: string;
+    data: unknown;
+    storedAt: number;
+    expiresAt: number;
+}
+
+type CacheRecord = CacheEntry | string[];
+
+interface CachedResponse {
+    status: number;
+    etag: string;
+    data: unknown;
+}
+
+type CacheLoader = (etag: string) => Promise<CachedResponse>;
+
+interface ResponseCacheOptions {
+    store?: KeyValueStore<CacheRecord>;
+    ttl?: number;
+    ttls?: { [endpoint: string]: number };
+    staleWhileRevalidate?: boolean | number;
+    logger?: Logger | false;
+}
+
+export {
+    CacheEntry,
+    CacheRecord,
+    CachedResponse,
+    CacheLoader,
+    ResponseCacheOptions,
+};
@@ -0,0 +1,21 @@
+import { ClassOptions as RestOptions } from './Rest';
+
+interface WebLoginOptions {
+    cid?: string;
+    pin?: string;
+    target?: string;
+}
+
+interface ClassevivaOptions extends RestOptions {
+    web?: WebLoginOptions;
+    useTicket?: boolean;
+    lazyWeb?: boolean;
+}
+
+type Backend = "rest" | "web";
+
+export {
+    WebLoginOptions,
+    ClassevivaOptions,
+    Backend,
+};
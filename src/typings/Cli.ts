@@ -0,0 +1,44 @@
+interface CliConfig {
+    username?: string;
+    password?: string;
+    state?: string;
+    app?: string;
+    baseUrl?: string;
+    sessionDirectory?: string;
+}
+
+interface CliOutput {
+    write(chunk: string): unknown;
+}
+
+interface CliContext {
+    stdout: CliOutput;
+    stderr: CliOutput;
+    env: { [key: string]: string | undefined };
+    cwd: string;
+}
+
+type CliFlags = { [flag: string]: string | boolean };
+
+interface CliArgs {
+    positionals: string[];
+    flags: CliFlags;
+}
+
+type Column<T> = [header: string, value: (row: T) => unknown];
+
+interface CliResult<T = any> {
+    data: T;
+    columns?: Column<T>[];
+    text?: string;
+}
+
+export {
+    CliConfig,
+    CliOutput,
+    CliContext,
+    CliFlags,
+    CliArgs,
+    Column,
+    CliResult,
+};
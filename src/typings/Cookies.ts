@@ -0,0 +1,17 @@
+import { ClassUser } from "./Web";
+
+interface Cookie {
+  name: string;
+  value: string;
+  domain?: string;
+  path: string;
+  expires?: string;
+}
+
+interface WebSession {
+  cookies: Cookie[];
+  user: ClassUser;
+  savedAt: string;
+}
+
+export { Cookie, WebSession };
@@ -0,0 +1,22 @@
+import { Period } from "./Rest";
+
+interface DateRange {
+    start: Date;
+    end: Date;
+}
+
+type RangePreset = "today" | "thisWeek" | "nextWeek" | "thisPeriod" | "schoolYear";
+
+type RangeInput = RangePreset | DateRange;
+
+interface PresetOptions {
+    today?: Date;
+    periods?: Period[];
+}
+
+export {
+    DateRange,
+    RangePreset,
+    RangeInput,
+    PresetOptions,
+};
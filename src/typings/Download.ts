@@ -0,0 +1,44 @@
+interface DownloadOptions {
+    filename?: string;
+    overwrite?: boolean;
+}
+
+interface AttachmentDownloadOptions extends DownloadOptions {
+    attachNum?: number;
+}
+
+interface DownloadResult {
+    filename: string;
+    mimeType: string;
+    size: number;
+    path?: string;
+    skipped: boolean;
+}
+
+interface BulkDownloadOptions {
+    overwrite?: boolean;
+    unreadOnly?: boolean;
+}
+
+interface BulkDownloadFailure {
+    pubId: number;
+    attachNum: number;
+    error: Error;
+}
+
+interface BulkDownloadResult {
+    files: DownloadResult[];
+    failures: BulkDownloadFailure[];
+}
+
+type DownloadDestination = string | NodeJS.WritableStream;
+
+export {
+    DownloadOptions,
+    AttachmentDownloadOptions,
+    DownloadResult,
+    BulkDownloadOptions,
+    BulkDownloadFailure,
+    BulkDownloadResult,
+    DownloadDestination,
+};
@@ -0,0 +1,31 @@
+import { ValidationReport } from "./Validation";
+
+interface RequestEvent {
+    method: string;
+    url: string;
+}
+
+interface ResponseEvent extends RequestEvent {
+    status: number;
+    duration: number;
+}
+
+interface ClientEvents<TUser> {
+    login: (user: TUser) => void;
+    logout: () => void;
+    tokenRefreshed: (expiration: string) => void;
+    request: (request: RequestEvent) => void;
+    response: (response: ResponseEvent) => void;
+    error: (error: Error) => void;
+}
+
+interface RestEvents<TUser> extends ClientEvents<TUser> {
+    validation: (report: ValidationReport) => void;
+}
+
+export {
+    RequestEvent,
+    ResponseEvent,
+    ClientEvents,
+    RestEvents,
+};
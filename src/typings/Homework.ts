@@ -0,0 +1,50 @@
+import { KeyValueStore } from "./Stores";
+import { TimetableSlot } from "./Timetable";
+
+interface HomeworkAttachment {
+    name: string;
+    url: string;
+}
+
+interface Homework {
+    id: number;
+    source: "rest" | "web";
+    subjectId: number | null;
+    subject: string;
+    teacher: string;
+    due: string;
+    allDay: boolean;
+    text: string;
+    attachments: HomeworkAttachment[];
+    done: boolean;
+}
+
+type HomeworkGroups = { [key: string]: Homework[] };
+
+interface LessonPreparation {
+    slot: TimetableSlot;
+    homework: Homework[];
+}
+
+interface HomeworkPreparation {
+    date: string;
+    lessons: LessonPreparation[];
+    unscheduled: Homework[];
+}
+
+type DoneSnapshot = { [id: string]: string };
+
+interface HomeworkPlannerOptions {
+    store?: KeyValueStore<DoneSnapshot>;
+    key?: string;
+}
+
+export {
+    HomeworkAttachment,
+    Homework,
+    HomeworkGroups,
+    LessonPreparation,
+    HomeworkPreparation,
+    DoneSnapshot,
+    HomeworkPlannerOptions,
+};
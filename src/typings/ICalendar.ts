@@ -0,0 +1,41 @@
+import { AgendaEvent, Lesson, calendarDay } from "./Rest";
+
+interface CalendarEvent {
+    uid: string;
+    start: Date;
+    end?: Date;
+    allDay?: boolean;
+    floating?: boolean;
+    summary: string;
+    description?: string;
+    location?: string;
+    categories?: string[];
+    transparent?: boolean;
+    recurrence?: string;
+}
+
+interface IcsOptions {
+    name?: string;
+    prodId?: string;
+    timezone?: string;
+    stamp?: Date;
+}
+
+interface LessonTimesOptions {
+    firstHour?: string;
+    hourLength?: number;
+    hourStarts?: string[];
+}
+
+interface CalendarSources {
+    agenda?: AgendaEvent[];
+    lessons?: Lesson[];
+    calendar?: calendarDay[];
+}
+
+export {
+    CalendarEvent,
+    IcsOptions,
+    LessonTimesOptions,
+    CalendarSources,
+};
@@ -0,0 +1,19 @@
+type LogLevel = "debug" | "info" | "warn" | "error" | "silent";
+
+interface Logger {
+    debug(...args: any[]): void;
+    info(...args: any[]): void;
+    warn(...args: any[]): void;
+    error(...args: any[]): void;
+}
+
+interface LoggerOptions {
+    level?: LogLevel;
+    prefix?: string;
+}
+
+export {
+    LogLevel,
+    Logger,
+    LoggerOptions,
+};
@@ -0,0 +1,53 @@
+import { Grade, absences, calendarDay, Card, TalkTeacher, TalkBooking, TalkMessage } from "./Rest";
+import { ClassUser } from "./Web";
+
+interface FakeDataOptions {
+    seed?: number;
+    today?: Date;
+    username?: string;
+    password?: string;
+}
+
+type FakeRecord = { [key: string]: unknown };
+
+interface FakeData {
+    username: string;
+    password: string;
+    ident: string;
+    firstName: string;
+    lastName: string;
+    card: Card;
+    subjects: FakeRecord[];
+    periods: FakeRecord[];
+    grades: Grade[];
+    absences: absences[];
+    agenda: FakeRecord[];
+    lessons: FakeRecord[];
+    notes: { [type: string]: FakeRecord[] };
+    noticeboard: FakeRecord[];
+    documents: FakeRecord[];
+    schoolbooks: FakeRecord[];
+    didactics: FakeRecord[];
+    calendar: calendarDay[];
+    account: ClassUser;
+    messages: FakeRecord[];
+    rubrica: FakeRecord[];
+    bacheca: FakeRecord[];
+    talks: TalkTeacher[];
+    talkBookings: TalkBooking[];
+    talkMessages: { [bookingId: string]: TalkMessage[] };
+}
+
+interface MockServerOptions extends FakeDataOptions {
+    port?: number;
+    host?: string;
+    tokenLifetime?: number;
+    maxRangeDays?: number;
+}
+
+export {
+    FakeDataOptions,
+    FakeRecord,
+    FakeData,
+    MockServerOptions,
+};
@@ -0,0 +1,26 @@
+interface NoticeboardFilter {
+    unread?: boolean;
+    category?: string | string[];
+    needSign?: boolean;
+    needJoin?: boolean;
+    needReply?: boolean;
+    from?: Date | string;
+    to?: Date | string;
+}
+
+interface NoticeReplyFile {
+    filename: string;
+    content: Buffer;
+    mimeType?: string;
+}
+
+interface ReplyBody {
+    body: Buffer | string;
+    contentType: string;
+}
+
+export {
+    NoticeboardFilter,
+    NoticeReplyFile,
+    ReplyBody,
+};
@@ -0,0 +1,27 @@
+import { RequestInit, Response } from "node-fetch";
+
+interface RateLimitOptions {
+    requests: number;
+    interval: number;
+}
+
+interface RequestPolicyOptions {
+    timeout?: number;
+    retries?: number;
+    backoff?: number;
+    maxBackoff?: number;
+    retryMethods?: string[];
+    concurrency?: number;
+    rateLimit?: RateLimitOptions;
+}
+
+type FetchSignal = NonNullable<RequestInit["signal"]>;
+
+type PolicyRequest = (signal: FetchSignal) => Promise<Response>;
+
+export {
+    RateLimitOptions,
+    RequestPolicyOptions,
+    FetchSignal,
+    PolicyRequest,
+};
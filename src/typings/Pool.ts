@@ -0,0 +1,48 @@
+import { ClassOptions } from "./Rest";
+import { Logger } from "./Logger";
+import Rest from "../classes/Rest";
+
+interface PoolAccount extends ClassOptions {
+    id?: string;
+    username: string;
+    password: string;
+}
+
+interface AccountPoolOptions {
+    accounts?: PoolAccount[];
+    maxSessions?: number;
+    defaults?: ClassOptions;
+    logger?: Logger | false;
+}
+
+interface BatchOptions {
+    concurrency?: number;
+    ids?: string[];
+}
+
+interface AccountResult<T> {
+    id: string;
+    value: T;
+}
+
+interface AccountFailure {
+    id: string;
+    error: Error;
+}
+
+interface BatchResult<T> {
+    results: AccountResult<T>[];
+    failures: AccountFailure[];
+}
+
+type AccountTask<T> = (client: Rest, id: string) => Promise<T> | T;
+
+export {
+    PoolAccount,
+    AccountPoolOptions,
+    BatchOptions,
+    AccountResult,
+    AccountFailure,
+    BatchResult,
+    AccountTask,
+};
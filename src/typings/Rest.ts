@@ -1,8 +1,29 @@
+import { SessionStore } from "./Stores";
+import { Logger } from "./Logger";
+import { SessionOptions } from "./Session";
+import { RequestPolicyOptions } from "./Policy";
+import { Transport } from "./Transport";
+import { NoticeReplyFile } from "./Noticeboard";
+import { ResponseCacheOptions } from "./Cache";
+import RequestPolicy from "../RequestPolicy";
+import ResponseCache from "../ResponseCache";
+
 interface ClassOptions {
     username?: string;
     password?: string;
     state?: string;
     app?: string;
+    sessionStore?: SessionStore;
+    compatibilityMode?: boolean;
+    logger?: Logger | false;
+    session?: SessionOptions;
+    requestPolicy?: RequestPolicy | RequestPolicyOptions;
+    transport?: Transport;
+    baseUrl?: string;
+    ident?: string;
+    validate?: boolean;
+    cache?: ResponseCache | ResponseCacheOptions;
+    maxRangeDays?: number;
 }
 interface User {
     name?: string;
@@ -43,6 +64,26 @@ interface LoginResponse {
     expire: string,
 }
 
+interface LoginChoice {
+    cid: string,
+    ident: string,
+    name: string,
+    school: string,
+}
+
+interface LoginChoiceResponse {
+    requestedAction: "choose",
+    choices: LoginChoice[],
+    message: string,
+}
+
+interface Student {
+    ident: string,
+    id: string,
+    name: string,
+    school?: string,
+}
+
 type AgendaFilter = "all" | "homework" | "other";
 
 interface TalkOptions {
@@ -62,6 +103,7 @@ interface Overview {
     virtualClassesAgenda: unknown[],
     lessons: Lesson[],
     agenda: AgendaEvent[],
+    events: absences[],
     grades: Grade[],
     note: AgendaNotes
 }
@@ -83,24 +125,23 @@ type Lesson = {
 
 type AgendaEvent = {
     evtId: number,
-    evtCode: string,
+    evtCode: "AGHW" | "AGNT" | string,
     evtDatetimeBegin: string,
     evtDatetimeEnd: string,
     isFullDay: boolean,
     notes: string,
-    evtHpos: number,
-    evtValue: number,
-    isJustified: boolean,
-    justifReasonCode: string,
-    justifReasonDesc: string,
-    hoursAbsence: unknown[],
+    authorName: string,
+    classDesc: string,
+    subjectId: number | null,
+    subjectDesc: string | null,
+    homeworkId: number | null,
 };
 
 type AgendaNotes = {
     NTTE: NTTE[],
-    NTCL: unknown[],
+    NTCL: Note[],
     NTWN: NTWN[],
-    NTST: unknown[],
+    NTST: Note[],
 };
 
 type Grade = {
@@ -110,7 +151,7 @@ type Grade = {
     evtId: number,
     evtCode: string,
     evtDate: string,
-    decimalValue: number,
+    decimalValue: number | null,
     displayValue: string,
     displaPos: number,
     notesForFamily: string,
@@ -135,7 +176,7 @@ type Grade = {
 
 type colorType = "red" | "green" | "blue";
 
-type NTTE = {
+type Note = {
     evtId: number,
     evtText: string,
     evtDate: string,
@@ -143,15 +184,194 @@ type NTTE = {
     readStatus: boolean,
 };
 
-type NTWN = {
-    evtId: number,
-    evtText: string,
-    evtDate: string,
-    authorName: string,
-    readStatus: boolean,
+type NTTE = Note;
+
+type NTWN = Note & {
     warningType: string,
 };
 
+type Period = {
+    periodCode: string,
+    periodPos: number,
+    periodDesc: string,
+    isFinal: boolean,
+    dateStart: string,
+    dateEnd: string,
+    miurDivisionCode: string | null,
+};
+
+type Subject = {
+    id: number,
+    description: string,
+    order: number,
+    teachers: {
+        teacherId: string,
+        teacherName: string,
+    }[],
+};
+
+type Document = {
+    hash: string,
+    desc: string,
+};
+
+type SchoolReport = {
+    desc: string,
+    confirmLink: string,
+    viewLink: string,
+};
+
+interface DocumentsResponse {
+    documents: Document[],
+    schoolReports: SchoolReport[],
+}
+
+type NoticeboardAttachment = {
+    fileName: string,
+    attachNum: number,
+};
+
+type NoticeboardItem = {
+    pubId: number,
+    pubDT: string,
+    readStatus: boolean,
+    evtCode: string,
+    cntId: number,
+    cntValidFrom: string,
+    cntValidTo: string,
+    cntValidInRange: boolean,
+    cntStatus: string,
+    cntTitle: string,
+    cntCategory: string,
+    cntHasChanged: boolean,
+    cntHasAttach: boolean,
+    needJoin: boolean,
+    needReply: boolean,
+    needFile: boolean,
+    needSign: boolean,
+    evento_id: string,
+    attachments: NoticeboardAttachment[],
+};
+
+type SchoolBook = {
+    bookId: number,
+    isbnCode: string,
+    title: string,
+    subheading: string,
+    volume: string,
+    author: string,
+    publisher: string,
+    subject: string,
+    price: number,
+    toBuy: boolean,
+    newAdoption: boolean,
+    alreadyOwned: boolean,
+    alreadyInUse: boolean,
+    recommended: boolean,
+    recommendedFor: string,
+    coverUrl: string,
+    publisherUnlockCode: string,
+};
+
+type SchoolBookCourse = {
+    courseId: number,
+    courseDesc: string,
+    books: SchoolBook[],
+};
+
+type DidacticsContent = {
+    contentId: number,
+    contentName: string,
+    objectId: number,
+    objectType: string,
+    shareDT: string,
+};
+
+type DidacticsFolder = {
+    folderId: number,
+    folderName: string,
+    lastShareDT: string,
+    contents: DidacticsContent[],
+};
+
+type DidacticsTeacher = {
+    teacherId: string,
+    teacherName: string,
+    teacherFirstName: string,
+    teacherLastName: string,
+    folders: DidacticsFolder[],
+};
+
+type ParentsOptions = {
+    talks?: boolean,
+    talksExtended?: boolean,
+    parentsTalks?: boolean,
+    [option: string]: boolean | undefined,
+};
+
+type OverallTalk = {
+    overallTalkId: number,
+    title: string,
+    dateStart: string,
+    dateEnd: string,
+    place: string,
+    teachers: string[],
+};
+
+type TalkSlot = {
+    slot: number,
+    startTime: string,
+    endTime: string,
+    available: boolean,
+};
+
+type TalkFrame = {
+    talkId: number,
+    evtDate: string,
+    startTime: string,
+    endTime: string,
+    place: string,
+    online: boolean,
+    slots: TalkSlot[],
+};
+
+type TalkTeacher = {
+    teacherId: string,
+    teacherName: string,
+    subjects: string[],
+    frames: TalkFrame[],
+};
+
+type TalkBooking = {
+    bookingId: number,
+    teacherId: string,
+    teacherName: string,
+    talkId: number,
+    slot: number,
+    evtDate: string,
+    startTime: string,
+    endTime: string,
+    place: string,
+    online: boolean,
+    link: string | null,
+};
+
+interface BookTalkResponse {
+    booking: TalkBooking,
+}
+
+type TalkMessage = {
+    messageId: number,
+    text: string,
+    date: string,
+    fromTeacher: boolean,
+    read: boolean,
+};
+
+interface TalkMessagesResponse {
+    messages: TalkMessage[],
+}
+
 type Card = {
     ident: string,
     usrType: string,
@@ -204,6 +424,8 @@ interface readOptions {
     sign?: boolean,
     join?: boolean,
     text?: string,
+    file?: NoticeReplyFile | string,
+    attachNum?: number,
 }
 
 interface TokenStatus {
@@ -223,9 +445,7 @@ interface TicketResponse {
 }
 
 interface checkDocument {
-    document: {
-        avaible: boolean,
-    }
+    available: boolean,
 }
 
 interface absences {
@@ -260,6 +480,34 @@ interface calendarDay {
 
 export {
     ClassOptions,
+    Lesson,
+    AgendaEvent,
+    AgendaNotes,
+    Note,
+    NTTE,
+    NTWN,
+    Period,
+    Subject,
+    Document,
+    SchoolReport,
+    DocumentsResponse,
+    NoticeboardAttachment,
+    NoticeboardItem,
+    SchoolBook,
+    SchoolBookCourse,
+    DidacticsContent,
+    DidacticsFolder,
+    DidacticsTeacher,
+    ParentsOptions,
+    OverallTalk,
+    TalkSlot,
+    TalkFrame,
+    TalkTeacher,
+    TalkBooking,
+    BookTalkResponse,
+    TalkMessage,
+    TalkMessagesResponse,
+    ResponseError,
     User,
     Headers,
     FetchType,
@@ -267,6 +515,10 @@ export {
     FetchId,
     FetchResponse,
     LoginResponse,
+    LoginChoice,
+    LoginChoiceResponse,
+    Student,
+    UserSchool,
     AgendaFilter,
     TalkOptions,
     Overview,
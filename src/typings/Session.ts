@@ -0,0 +1,18 @@
+import { Logger } from "./Logger";
+
+interface SessionOptions {
+    refreshMargin?: number;
+    retries?: number;
+    backoff?: number;
+}
+
+interface SessionManagerOptions extends SessionOptions {
+    refresh: (signal: AbortSignal) => Promise<void>;
+    onRefreshFailed?: (error: unknown) => void;
+    logger?: Logger;
+}
+
+export {
+    SessionOptions,
+    SessionManagerOptions,
+};
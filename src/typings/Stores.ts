@@ -0,0 +1,31 @@
+import { LoginResponse } from "./Rest";
+
+interface SessionStore {
+    get(username: string, state: string): Promise<LoginResponse | undefined>;
+    set(username: string, state: string, session: LoginResponse): Promise<void>;
+    delete(username: string, state: string): Promise<void>;
+}
+
+interface KeyValueStore<T> {
+    get(key: string): Promise<T | undefined>;
+    set(key: string, value: T): Promise<void>;
+    delete(key: string): Promise<void>;
+}
+
+interface JsonFileStoreOptions {
+    path: string;
+    fileMode?: number;
+}
+
+interface FileSessionStoreOptions {
+    directory?: string;
+    fileMode?: number;
+    directoryMode?: number;
+}
+
+export {
+    SessionStore,
+    FileSessionStoreOptions,
+    KeyValueStore,
+    JsonFileStoreOptions,
+};
@@ -0,0 +1,35 @@
+type TeacherSlot = {
+    teacherId: string,
+    teacherName: string,
+    talkId: number,
+    slot: number,
+    evtDate: string,
+    startTime: string,
+    endTime: string,
+    place: string,
+    online: boolean,
+};
+
+interface TalkSlotsOptions {
+    teacherIds?: string[];
+    availableOnly?: boolean;
+}
+
+interface SuggestOptions {
+    gap?: number;
+    limit?: number;
+}
+
+interface TalkSuggestion {
+    evtDate: string;
+    startTime: string;
+    endTime: string;
+    slots: TeacherSlot[];
+}
+
+export {
+    TeacherSlot,
+    TalkSlotsOptions,
+    SuggestOptions,
+    TalkSuggestion,
+};
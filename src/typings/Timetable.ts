@@ -0,0 +1,57 @@
+import { Lesson, calendarDay } from "./Rest";
+import { IcsOptions, LessonTimesOptions } from "./ICalendar";
+
+interface TimetableSlot {
+    dayOfWeek: number;
+    hour: number;
+    duration: number;
+    subjectId: number;
+    subjectDesc: string;
+    teachers: string[];
+    confidence: number;
+}
+
+interface WeeklyTimetable {
+    from: string;
+    to: string;
+    weeks: number;
+    slots: TimetableSlot[];
+}
+
+interface TimetableOptions {
+    minConfidence?: number;
+}
+
+interface Substitution {
+    lesson: Lesson;
+    expected: TimetableSlot | undefined;
+    reason: "subject" | "teacher" | "extra";
+}
+
+interface UpcomingLesson {
+    start: Date;
+    end: Date;
+    slot: TimetableSlot;
+}
+
+interface NextLessonOptions extends LessonTimesOptions {
+    calendar?: calendarDay[];
+}
+
+interface TimetableIcsOptions extends IcsOptions, LessonTimesOptions {
+    from?: Date;
+    until?: Date;
+}
+
+type TimetableDays = { [day: string]: TimetableSlot[] };
+
+export {
+    TimetableSlot,
+    WeeklyTimetable,
+    TimetableOptions,
+    Substitution,
+    UpcomingLesson,
+    NextLessonOptions,
+    TimetableIcsOptions,
+    TimetableDays,
+};
@@ -0,0 +1,35 @@
+import { RequestInit, Response } from "node-fetch";
+
+interface Transport {
+    fetch(url: string, init?: RequestInit): Promise<Response>;
+}
+
+interface FixtureRequest {
+    method: string;
+    url: string;
+}
+
+interface FixtureResponse {
+    status: number;
+    headers?: { [key: string]: string | string[] };
+    body: string;
+    encoding?: "utf8" | "base64";
+}
+
+interface Fixture {
+    request: FixtureRequest;
+    response: FixtureResponse;
+}
+
+interface RecordingTransportOptions {
+    transport?: Transport;
+    redact?: (fixture: Fixture) => Fixture;
+}
+
+export {
+    Transport,
+    FixtureRequest,
+    FixtureResponse,
+    Fixture,
+    RecordingTransportOptions,
+};
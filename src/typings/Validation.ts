@@ -0,0 +1,27 @@
+type FieldType = "string" | "number" | "boolean" | "array" | "object" | "null";
+
+type Schema = {
+    [field: string]: FieldType | FieldType[];
+};
+
+type ValidationIssueKind = "missing" | "type" | "unexpected";
+
+interface ValidationIssue {
+    path: string;
+    kind: ValidationIssueKind;
+    expected?: string;
+    received?: string;
+}
+
+interface ValidationReport {
+    method: string;
+    issues: ValidationIssue[];
+}
+
+export {
+    FieldType,
+    Schema,
+    ValidationIssueKind,
+    ValidationIssue,
+    ValidationReport,
+};
@@ -0,0 +1,44 @@
+import Rest from "../classes/Rest";
+import { Grade, Note, NoticeboardItem, absences, AgendaEvent } from "./Rest";
+import { KeyValueStore } from "./Stores";
+import { Logger } from "./Logger";
+
+type WatchSource = "grades" | "notes" | "noticeboard" | "absences" | "agenda";
+
+type WatchedClient = Pick<Rest, "username" | "getGrades" | "getNotes" | "getNoticeboard" | "getAbsences" | "getAgenda">;
+
+type Snapshot = { [id: string]: string };
+
+interface WatcherOptions {
+    interval?: number;
+    intervals?: Partial<Record<WatchSource, number>>;
+    sources?: WatchSource[];
+    store?: KeyValueStore<Snapshot>;
+    key?: string;
+    agendaDays?: number;
+    emitInitial?: boolean;
+    snapshotSize?: number;
+    logger?: Logger | false;
+}
+
+type NoteType = "NTTE" | "NTCL" | "NTWN" | "NTST";
+
+interface WatcherEvents {
+    newGrade: (grade: Grade) => void;
+    gradeCanceled: (grade: Grade) => void;
+    newNote: (note: Note, type: NoteType) => void;
+    newNotice: (notice: NoticeboardItem) => void;
+    newAbsence: (absence: absences) => void;
+    homeworkAdded: (homework: AgendaEvent) => void;
+    poll: (source: WatchSource, changes: number) => void;
+    error: (error: Error, source: WatchSource) => void;
+}
+
+export {
+    WatchSource,
+    WatchedClient,
+    Snapshot,
+    WatcherOptions,
+    NoteType,
+    WatcherEvents,
+};
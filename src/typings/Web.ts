@@ -1,4 +1,8 @@
 import { HeadersInit } from "node-fetch";
+import { Logger } from "./Logger";
+import { RequestPolicyOptions } from "./Policy";
+import { Transport } from "./Transport";
+import RequestPolicy from "../RequestPolicy";
 
 interface ClassOptions {
   cid?: string;
@@ -8,6 +12,13 @@ interface ClassOptions {
   target?: string;
 }
 
+interface WebOptions {
+  logger?: Logger | false;
+  requestPolicy?: RequestPolicy | RequestPolicyOptions;
+  transport?: Transport;
+  baseUrl?: string;
+}
+
 interface ClassUser {
   cid: string;
   cognome: string;
@@ -25,6 +36,77 @@ interface FetchOptions {
   json?: boolean;
 }
 
+interface MessageAttachment {
+  attachId: string;
+  fileName: string;
+  fileSize?: number;
+}
+
+interface WebMessage {
+  msgId: string;
+  threadId: string;
+  msgSubject: string;
+  msgPreview: string;
+  msgText: string;
+  senderId: string;
+  senderName: string;
+  dinsert: string;
+  read: boolean;
+  hasAttach: boolean;
+  attachments: MessageAttachment[];
+}
+
+interface RubricaContact {
+  id: string;
+  nome: string;
+  tipo: string;
+}
+
+interface MessagesOptions {
+  page?: number;
+  perPage?: number;
+  search?: string;
+  unreadOnly?: boolean;
+}
+
+interface MessagesPage {
+  messages: WebMessage[];
+  page: number;
+  perPage: number;
+  total: number;
+  hasMore: boolean;
+}
+
+interface MessageThread {
+  threadId: string;
+  messages: WebMessage[];
+}
+
+interface SendMessageOptions {
+  to: (string | RubricaContact)[];
+  subject: string;
+  text: string;
+}
+
+interface WebAgendaEvent {
+  id: number;
+  title: string;
+  start: string;
+  end: string;
+  allDay: boolean;
+  data_inserimento: string;
+  nota_2: string;
+  master_id: number | null;
+  classe_id: string;
+  classe_desc: string;
+  gruppo: number;
+  autore_desc: string;
+  autore_id: string;
+  tipo: "compiti" | "nota" | string;
+  materia_desc: string;
+  materia_id: number | "";
+}
+
 type prodotto =
   | "set"
   | "cvv"
@@ -36,4 +118,18 @@ type prodotto =
   | "e2c"
   | "cvp";
 
-export { ClassOptions, ClassUser, FetchOptions, prodotto };
+export {
+  ClassOptions,
+  WebOptions,
+  ClassUser,
+  FetchOptions,
+  MessageAttachment,
+  WebMessage,
+  RubricaContact,
+  MessagesOptions,
+  MessagesPage,
+  MessageThread,
+  SendMessageOptions,
+  WebAgendaEvent,
+  prodotto,
+};
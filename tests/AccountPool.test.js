@@ -0,0 +1,90 @@
+const { AccountPool, MockServer, MemorySessionStore, AuthenticationError, ClassevivaError } = require('../dist/index.js');
+
+let server;
+let defaults;
+let accounts;
+
+beforeAll(async () => {
+    server = new MockServer({ seed: 22, today: new Date(2022, 10, 15) });
+    const baseUrl = await server.start();
+    defaults = { baseUrl, sessionStore: new MemorySessionStore() };
+    // the mock accepts both the username and the ident of its student
+    accounts = [
+        { id: 'first', username: server.data.username, password: server.data.password },
+        { id: 'second', username: server.data.ident, password: server.data.password },
+    ];
+});
+
+afterAll(() => server.stop());
+
+const wait = ms => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('AccountPool', () => {
+    it('logs in lazily with a client per account', async () => {
+        const pool = new AccountPool({ accounts, defaults, logger: false });
+        expect(pool.ids).toEqual(['first', 'second']);
+        expect(pool.active).toBe(0);
+        expect(() => pool.add(accounts[0])).toThrow(ClassevivaError);
+
+        const first = await pool.use('first', client => client);
+        const second = await pool.use('second', client => client);
+        expect(first).not.toBe(second);
+        expect(first.username).toBe(server.data.username);
+        expect(second.username).toBe(server.data.ident);
+        expect(await pool.use('first', client => client)).toBe(first);
+        expect(pool.active).toBe(2);
+
+        await expect(pool.use('missing', () => 1)).rejects.toThrow('Unknown account "missing"');
+        expect(pool.logoutAll()).toBe(2);
+        expect(first.authorized || second.authorized).toBe(false);
+    });
+
+    it('aggregates the results and the failures of every account', async () => {
+        const pool = new AccountPool({ accounts: [...accounts, { username: 'wrong', password: 'wrong' }], defaults, logger: false });
+
+        const { results, failures } = await pool.forEachAccount(async client => (await client.getGrades()).length);
+        expect(results).toEqual([{ id: 'first', value: server.data.grades.length }, { id: 'second', value: server.data.grades.length }]);
+        expect(failures).toHaveLength(1);
+        expect(failures[0].id).toBe('wrong');
+        expect(failures[0].error).toBeInstanceOf(AuthenticationError);
+        expect(pool.active).toBe(2);
+        pool.logoutAll();
+    });
+
+    it('never keeps more than maxSessions accounts logged in', async () => {
+        const pool = new AccountPool({ accounts, defaults, maxSessions: 1, logger: false });
+        let running = 0;
+        let peak = 0;
+
+        const { results } = await pool.forEachAccount(async client => {
+            peak = Math.max(peak, ++running, pool.active);
+            await wait(20);
+            running--;
+            return client.authorized;
+        }, { concurrency: 2 });
+
+        expect(results.map(result => result.value)).toEqual([true, true]);
+        expect(peak).toBe(1);
+        expect(pool.active).toBe(1);
+
+        expect(pool.remove('second')).toBe(true);
+        expect(pool.active).toBe(0);
+        expect(pool.ids).toEqual(['first']);
+    });
+
+    it('keeps the saved session of the accounts it evicts', async () => {
+        const sessionStore = new MemorySessionStore();
+        const deleted = jest.spyOn(sessionStore, 'delete');
+        const pool = new AccountPool({ accounts, defaults: { ...defaults, sessionStore }, maxSessions: 1, logger: false });
+
+        const first = await pool.use('first', client => client);
+        await pool.use('second', () => undefined);
+        expect(first.authorized).toBe(false);
+        expect(first.login_timeout).toBeUndefined();
+        expect(deleted).not.toHaveBeenCalled();
+
+        expect(await pool.use('first', client => client.getGrades())).toHaveLength(server.data.grades.length);
+        expect(pool.logoutAll()).toBe(1);
+        expect(deleted).toHaveBeenCalledTimes(1);
+    });
+});
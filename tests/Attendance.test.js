@@ -0,0 +1,87 @@
+const { Attendance, Rest, MockServer, MemorySessionStore } = require('../dist/index.js');
+
+const event = (evtCode, evtDate, extra = {}) => ({
+    evtId: evtDate.length + evtCode.length,
+    evtCode,
+    evtDate,
+    evtHPos: null,
+    evtValue: null,
+    isJustified: true,
+    justifReasonCode: 'A',
+    justifReasonDesc: 'Motivi di salute',
+    ...extra,
+});
+
+const periods = [
+    { periodCode: 'Q3', periodPos: 3, periodDesc: 'Secondo Quadrimestre', isFinal: true, dateStart: '2023-02-01', dateEnd: '2023-06-10', miurDivisionCode: null },
+    { periodCode: 'Q1', periodPos: 1, periodDesc: 'Primo Quadrimestre', isFinal: false, dateStart: '2022-09-12', dateEnd: '2023-01-31', miurDivisionCode: null },
+];
+
+// 20 school days from 2022-10-03, weekends excluded
+const calendar = [];
+for (let day = new Date(2022, 9, 3); calendar.filter(item => item.status === 'SD').length < 20; day.setDate(day.getDate() + 1)) {
+    const dayDate = `${day.getFullYear()}-${String(day.getMonth() + 1).padStart(2, '0')}-${String(day.getDate()).padStart(2, '0')}`;
+    calendar.push({ dayDate, dayOfWeek: day.getDay() || 7, status: day.getDay() % 6 === 0 ? 'NW' : 'SD' });
+}
+
+const events = [
+    event('ABA0', '2022-10-03'),
+    event('ABU0', '2022-10-03', { evtHPos: 4 }),
+    event('ABR0', '2022-10-04', { evtHPos: 3, isJustified: false }),
+    event('ABU0', '2022-10-05', { evtHPos: 4, evtValue: 1 }),
+    event('ABA0', '2023-02-06', { isJustified: false, justifReasonCode: '', justifReasonDesc: '' }),
+];
+
+describe('Attendance', () => {
+    it('counts the hours missed by every kind of event', () => {
+        expect(events.map(item => Attendance.kindOf(item))).toEqual(['absence', 'earlyExit', 'late', 'earlyExit', 'absence']);
+        expect(Attendance.hoursMissed(events[2], 6)).toBe(2);
+        expect(Attendance.hoursMissed(events[1], 5)).toBe(1);
+        expect(Attendance.hoursMissed(events[3])).toBe(1);
+        expect(Attendance.hoursMissed(event('XYZ', '2022-10-03'))).toBe(0);
+    });
+
+    it('adds up the totals per period, counting an absent day once', () => {
+        expect(Attendance.totals(events)).toEqual({ days: 2, hours: 15, lates: 1, earlyExits: 2, unjustified: 2 });
+
+        const [first, second] = Attendance.byPeriod(events, periods);
+        expect(first).toMatchObject({ periodPos: 1, days: 1, hours: 9, lates: 1, earlyExits: 2, unjustified: 1 });
+        expect(second).toMatchObject({ periodPos: 3, days: 1, hours: 6, unjustified: 1 });
+        expect(Attendance.pending(events).map(item => item.evtDate)).toEqual(['2022-10-04', '2023-02-06']);
+    });
+
+    it('compares the hours missed with the school hours', () => {
+        const early = Attendance.report(events.slice(0, 4), periods, calendar, { today: new Date(2022, 9, 7) });
+        expect(early).toMatchObject({ schoolDays: 20, schoolHours: 120, elapsedHours: 30, allowedHours: 30, remainingHours: 21, status: 'warning' });
+        expect(early.percentage).toBeCloseTo(0.3);
+        expect(early.yearPercentage).toBeCloseTo(0.075);
+
+        const late = Attendance.report(events.slice(0, 4), periods, calendar, { today: new Date(2022, 10, 30) });
+        expect(late.status).toBe('ok');
+
+        const exceeded = Attendance.report([...events, ...['10-10', '10-11', '10-12', '10-13'].map(day => event('ABA0', `2022-${day}`))], periods, calendar, { today: new Date(2022, 10, 30) });
+        expect(exceeded).toMatchObject({ remainingHours: 0, status: 'exceeded' });
+    });
+
+    it('builds the report from the api', async () => {
+        const server = new MockServer({ seed: 20, today: new Date(2022, 10, 15) });
+        const baseUrl = await server.start();
+        const { username, password } = server.data;
+        const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+        const cvv = new Rest({ username, password, baseUrl, sessionStore: new MemorySessionStore(), logger });
+        await cvv.login();
+
+        const report = await cvv.getAbsenceReport({ today: new Date(2022, 10, 15) });
+        expect(report.totals.days + report.totals.lates + report.totals.earlyExits).toBe(server.data.absences.length);
+        expect(report.schoolDays).toBe(server.data.calendar.filter(day => day.status === 'SD').length);
+        expect(report.periods.map(period => period.periodPos)).toEqual([1, 3]);
+        expect(report.pending).toHaveLength(server.data.absences.filter(item => !item.isJustified).length);
+
+        const warning = await cvv.getAbsenceReport({ today: new Date(2022, 10, 15), warnAt: 0, threshold: 1 });
+        expect(warning.status).toBe('warning');
+        expect(logger.warn).toHaveBeenLastCalledWith(`${(warning.percentage * 100).toFixed(1)}% of the school hours so far missed, ${warning.remainingHours} hours left before the limit ⚠️`);
+
+        cvv.logout();
+        server.stop();
+    });
+});
@@ -0,0 +1,73 @@
+const { Classeviva, MockServer, MemorySessionStore } = require('../dist/index.js');
+
+let server;
+let options;
+
+beforeAll(async () => {
+    server = new MockServer({ seed: 19, today: new Date(2022, 10, 15) });
+    const baseUrl = await server.start();
+    const { username, password } = server.data;
+    options = { username, password, baseUrl, logger: false };
+});
+
+afterAll(() => server.stop());
+
+const create = (extra = {}) => new Classeviva({ ...options, sessionStore: new MemorySessionStore(), ...extra });
+
+describe('Classeviva', () => {
+    it('routes every feature to its api', async () => {
+        const cvv = create();
+        await cvv.login();
+        expect(cvv.web.authorized).toBe(false);
+
+        const grades = await cvv.getGrades();
+        expect(grades).toHaveLength(server.data.grades.length);
+        expect(cvv.web.authorized).toBe(false);
+
+        const messages = await cvv.getMessages({ perPage: 100 });
+        expect(messages).toHaveLength(server.data.messages.length);
+        expect(cvv.web.authorized).toBe(true);
+
+        expect(cvv.backendOf('getGrades')).toBe('rest');
+        expect(cvv.backendOf('getMessages')).toBe('web');
+        expect(cvv.backendOf('getSomething')).toBeUndefined();
+
+        expect(cvv.logout()).toBe(true);
+        expect(cvv.rest.authorized || cvv.web.authorized).toBe(false);
+    });
+
+    it('opens the web session with a ticket, once', async () => {
+        const cvv = create({ lazyWeb: false });
+        const password = jest.spyOn(cvv.web, 'login');
+        const ticket = jest.spyOn(cvv.web, 'loginWithTicket');
+
+        await cvv.login();
+        await Promise.all([cvv.getUnreadMessages(), cvv.getRubrica(), cvv.ensureWeb()]);
+
+        expect(ticket).toHaveBeenCalledTimes(1);
+        expect(password).not.toHaveBeenCalled();
+        expect(cvv.web.user.nome).toBe(server.data.account.nome);
+        cvv.logout();
+    });
+
+    it('falls back to the password when the ticket is refused', async () => {
+        const cvv = create();
+        const password = jest.spyOn(cvv.web, 'login');
+        await cvv.login();
+        cvv.rest.getTicket = async () => ({ ticket: 'not-a-ticket' });
+
+        await expect(cvv.getUnreadMessages()).resolves.toBe(server.data.messages.filter(message => !message.read).length);
+        expect(password).toHaveBeenCalledTimes(1);
+        cvv.logout();
+    });
+
+    it('uses the password when tickets are disabled', async () => {
+        const cvv = create({ useTicket: false });
+        const ticket = jest.spyOn(cvv.web, 'loginWithTicket');
+        await cvv.login();
+
+        expect(await cvv.ensureWeb()).toBe(true);
+        expect(ticket).not.toHaveBeenCalled();
+        cvv.logout();
+    });
+});
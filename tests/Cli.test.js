@@ -0,0 +1,101 @@
+const { MockServer } = require('../dist/index.js');
+const { run, parseArgs, table } = require('../dist/src/Cli.js');
+const { mkdtempSync, writeFileSync, readFileSync, readdirSync, existsSync, rmSync } = require('fs');
+const { tmpdir } = require('os');
+const { join } = require('path');
+
+let server;
+let cwd;
+
+const cli = async (args, env = {}) => {
+    let stdout = '';
+    let stderr = '';
+    const code = await run(args, {
+        stdout: { write: chunk => { stdout += chunk; } },
+        stderr: { write: chunk => { stderr += chunk; } },
+        env: { CLASSEVIVA_CONFIG: 'config.json', ...env },
+        cwd,
+    });
+    return { code, stdout, stderr };
+};
+
+beforeAll(async () => {
+    server = new MockServer({ seed: 7, today: new Date(2022, 10, 15) });
+    const baseUrl = await server.start();
+    cwd = mkdtempSync(join(tmpdir(), 'cvv-cli-'));
+    writeFileSync(join(cwd, 'config.json'), JSON.stringify({
+        username: server.data.username,
+        password: server.data.password,
+        baseUrl,
+        sessionDirectory: 'sessions',
+    }));
+});
+
+afterAll(() => {
+    server.stop();
+    rmSync(cwd, { recursive: true, force: true });
+});
+
+describe('Command line interface', () => {
+    it('parses flags and positionals', () => {
+        expect(parseArgs(['agenda', '--from', '2022-11-01', '--to=2022-11-30', '--json', '--filter', 'homework'])).toEqual({
+            positionals: ['agenda'],
+            flags: { from: '2022-11-01', to: '2022-11-30', json: true, filter: 'homework' },
+        });
+    });
+
+    it('prints tables', () => {
+        expect(table([{ a: 1, b: 'x' }], [['A', row => row.a], ['Long header', row => row.b]])).toBe('A  Long header\n-  -----------\n1  x');
+        expect(table([], [])).toBe('Nothing to show');
+    });
+
+    it('logs in and saves the session', async () => {
+        const { code, stdout } = await cli(['login']);
+        expect(code).toBe(0);
+        expect(stdout).toContain(server.data.ident);
+        expect(existsSync(join(cwd, 'sessions'))).toBe(true);
+    });
+
+    it('prints json', async () => {
+        const { code, stdout } = await cli(['agenda', '--from', '2022-09-01', '--to', '2023-06-30', '--filter', 'homework', '--json']);
+        expect(code).toBe(0);
+
+        const agenda = JSON.parse(stdout);
+        expect(agenda.length).toBeGreaterThan(0);
+        expect(agenda.every(event => event.evtCode === 'AGHW')).toBe(true);
+    });
+
+    it('reads notices and exports the calendar', async () => {
+        const [notice] = server.data.noticeboard;
+        const read = await cli(['notice', 'read', `${notice.pubId}`]);
+        expect(read.code).toBe(0);
+        expect(read.stdout).toContain(notice.cntTitle);
+
+        const exported = await cli(['export', 'ics', '--from', '2022-11-14', '--to', '2022-11-18', '--out', 'school.ics']);
+        expect(exported.code).toBe(0);
+        expect(readFileSync(join(cwd, 'school.ics'), 'utf8')).toContain('BEGIN:VEVENT');
+    });
+
+    it('lists messages through the web api', async () => {
+        const { code, stdout } = await cli(['messages']);
+        expect(code).toBe(0);
+        expect(stdout.split('\n')[0]).toMatch(/^Date\s+From\s+Read\s+Subject$/);
+    });
+
+    it('forgets the session without logging in', async () => {
+        await cli(['login']);
+        expect(readdirSync(join(cwd, 'sessions'))).toHaveLength(1);
+
+        writeFileSync(join(cwd, 'offline.json'), JSON.stringify({ username: server.data.username, baseUrl: 'http://127.0.0.1:1', sessionDirectory: 'sessions' }));
+        const { code, stdout } = await cli(['logout'], { CLASSEVIVA_CONFIG: 'offline.json' });
+        expect(code).toBe(0);
+        expect(stdout).toBe('Logged out\n');
+        expect(readdirSync(join(cwd, 'sessions'))).toHaveLength(0);
+    });
+
+    it('reports errors with a non-zero exit code', async () => {
+        await expect(cli(['grades', '--state', 'Atlantis'])).resolves.toMatchObject({ code: 1, stderr: expect.stringContaining('Invalid state') });
+        await expect(cli(['unknown'])).resolves.toMatchObject({ code: 1, stderr: expect.stringContaining('Unknown command') });
+        await expect(cli(['grades'], { CLASSEVIVA_CONFIG: 'missing.json' })).resolves.toMatchObject({ code: 1 });
+    });
+});
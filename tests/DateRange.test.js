@@ -0,0 +1,107 @@
+const { DateRange, Rest, MockServer, MemorySessionStore } = require('../dist/index.js');
+
+const day = date => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+const days = range => [day(range.start), day(range.end)];
+
+const periods = [
+    { periodCode: 'Q1', periodPos: 1, periodDesc: 'Primo Quadrimestre', isFinal: false, dateStart: '2022-09-12', dateEnd: '2023-01-31', miurDivisionCode: null },
+    { periodCode: 'Q3', periodPos: 3, periodDesc: 'Secondo Quadrimestre', isFinal: true, dateStart: '2023-02-01', dateEnd: '2023-06-10', miurDivisionCode: null },
+];
+
+describe('Date ranges', () => {
+    it('knows the school year and the presets', () => {
+        expect(DateRange.schoolYearOf(new Date(2022, 8, 1))).toBe(2022);
+        expect(DateRange.schoolYearOf(new Date(2023, 7, 31))).toBe(2022);
+        expect(days(DateRange.schoolYear(new Date(2023, 2, 1)))).toEqual(['2022-09-01', '2023-08-31']);
+
+        const today = new Date(2022, 10, 16); // a Wednesday
+        expect(days(DateRange.presetRange('today', { today }))).toEqual(['2022-11-16', '2022-11-16']);
+        expect(days(DateRange.presetRange('thisWeek', { today }))).toEqual(['2022-11-14', '2022-11-20']);
+        expect(days(DateRange.presetRange('nextWeek', { today: new Date(2022, 10, 20) }))).toEqual(['2022-11-21', '2022-11-27']);
+        expect(days(DateRange.presetRange('thisPeriod', { today: new Date(2023, 2, 1), periods }))).toEqual(['2023-02-01', '2023-06-10']);
+        expect(days(DateRange.presetRange('thisPeriod', { today: new Date(2023, 6, 1), periods }))).toEqual(['2022-09-01', '2023-08-31']);
+        expect(() => DateRange.presetRange('lastYear')).toThrow(TypeError);
+    });
+
+    it('splits ranges in chunks', () => {
+        const range = { start: new Date(2022, 9, 1), end: new Date(2022, 9, 31) };
+        expect(DateRange.days(range)).toBe(31);
+        expect(DateRange.chunkRange(range, 10).map(days)).toEqual([
+            ['2022-10-01', '2022-10-10'], ['2022-10-11', '2022-10-20'], ['2022-10-21', '2022-10-30'], ['2022-10-31', '2022-10-31'],
+        ]);
+        expect(DateRange.splitRange(range).map(days)).toEqual([['2022-10-01', '2022-10-16'], ['2022-10-17', '2022-10-31']]);
+        expect(DateRange.chunkRange(range, Infinity)).toEqual([range]);
+    });
+});
+
+describe('Rest date ranges', () => {
+    let server;
+    let cvv;
+    let statuses;
+
+    beforeAll(async () => {
+        server = new MockServer({ seed: 23, today: new Date(), maxRangeDays: 40 });
+        const baseUrl = await server.start();
+        const { username, password } = server.data;
+        cvv = new Rest({ username, password, baseUrl, sessionStore: new MemorySessionStore(), logger: false });
+        await cvv.login();
+        cvv.on('response', ({ status }) => statuses.push(status));
+    });
+
+    beforeEach(() => {
+        statuses = [];
+    });
+
+    afterAll(() => {
+        cvv.logout();
+        server.stop();
+    });
+
+    it('splits the ranges the server rejects', async () => {
+        const range = await cvv.getRange('schoolYear');
+        const agenda = await cvv.getAgenda('all', range);
+
+        const [start, end] = days(range);
+        const expected = server.data.agenda.filter(event => event.evtDatetimeBegin.slice(0, 10) >= start && event.evtDatetimeBegin.slice(0, 10) <= end);
+        expect(agenda.map(event => event.evtId).sort()).toEqual(expected.map(event => event.evtId).sort());
+        expect(statuses).toContain(400);
+        expect(statuses.filter(status => status === 200).length).toBeGreaterThan(1);
+    });
+
+    it('accepts presets in every range method', async () => {
+        const week = await cvv.getRange('thisWeek');
+        const [start, end] = days(week);
+
+        const lessons = await cvv.getLessons('thisWeek');
+        expect(lessons).toHaveLength(server.data.lessons.filter(lesson => lesson.evtDate >= start && lesson.evtDate <= end).length);
+        expect(await cvv.getLessons(false, week)).toEqual(lessons);
+        expect((await cvv.getOverview('thisWeek')).lessons).toEqual(lessons);
+        expect(statuses).not.toContain(400);
+
+        // outside the periods (in summer) it's the whole school year
+        const today = day(new Date());
+        const current = server.data.periods.find(item => item.dateStart <= today && today <= item.dateEnd);
+        expect(days(await cvv.getRange('thisPeriod'))).toEqual(current ? [current.dateStart, current.dateEnd] : days(DateRange.schoolYear()));
+    });
+
+    it('rejects strings that are not presets', async () => {
+        await expect(cvv.getRange('lastWeek')).rejects.toThrow('Unknown range "lastWeek"');
+        await expect(cvv.getAgenda('all', 'lastWeek')).rejects.toThrow('Unknown range "lastWeek"');
+        expect(statuses).toEqual([]);
+    });
+
+    it('chunks long ranges before sending them with maxRangeDays', async () => {
+        const { username, password } = server.data;
+        const chunked = new Rest({ username, password, baseUrl: server.url, sessionStore: new MemorySessionStore(), logger: false, maxRangeDays: 30 });
+        const chunks = [];
+        chunked.on('response', ({ status }) => chunks.push(status));
+        await chunked.login();
+        chunks.length = 0;
+
+        const end = new Date();
+        const range = { start: new Date(end.getFullYear(), end.getMonth(), end.getDate() - 89), end };
+        expect((await chunked.getOverview(range)).lessons).toEqual(await cvv.getLessons(false, range));
+        expect(chunks).toEqual([200, 200, 200]);
+        chunked.logout();
+    });
+});
@@ -0,0 +1,96 @@
+const { Rest, MockServer, MemorySessionStore, ClassevivaError, defaultTransport } = require('../dist/index.js');
+const { parseFilename, parseMimeType } = require('../dist/src/Download.js');
+const { mkdtempSync, readdirSync, readFileSync, rmSync } = require('fs');
+const { tmpdir } = require('os');
+const { join } = require('path');
+const { PassThrough } = require('stream');
+
+let server;
+let cvv;
+let directory;
+
+beforeAll(async () => {
+    server = new MockServer({ seed: 3, today: new Date(2022, 10, 15) });
+    const baseUrl = await server.start();
+    const { username, password } = server.data;
+    cvv = new Rest({ username, password, baseUrl, sessionStore: new MemorySessionStore(), logger: false });
+    await cvv.login();
+});
+
+beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'cvv-download-'));
+});
+
+afterEach(() => rmSync(directory, { recursive: true, force: true }));
+
+afterAll(() => {
+    cvv.logout();
+    server.stop();
+});
+
+describe('Downloads', () => {
+    it('reads file names and MIME types from the headers', () => {
+        expect(parseFilename('attachment; filename="pagella.pdf"')).toBe('pagella.pdf');
+        expect(parseFilename('attachment; filename=a.pdf; filename*=UTF-8\'\'circolare%20n%C2%B01.pdf')).toBe('circolare n°1.pdf');
+        expect(parseFilename('attachment; filename="../../etc/passwd"')).toBe('passwd');
+        expect(parseFilename(null)).toBeUndefined();
+        expect(parseMimeType('application/pdf; charset=binary')).toBe('application/pdf');
+        expect(parseMimeType(null)).toBe('application/octet-stream');
+    });
+
+    it('downloads documents to a directory and skips them the second time', async () => {
+        const [document] = server.data.documents;
+
+        const file = await cvv.downloadDocument(document.hash, directory);
+        expect(file).toMatchObject({ filename: `${document.hash}.pdf`, mimeType: 'application/pdf', skipped: false });
+        expect(readFileSync(file.path, 'utf8').startsWith('%PDF')).toBe(true);
+
+        await expect(cvv.downloadDocument(document.hash, directory)).resolves.toMatchObject({ skipped: true, size: file.size });
+        expect(readdirSync(directory)).toEqual([`${document.hash}.pdf`]);
+    });
+
+    it('streams attachments to a writable stream', async () => {
+        const notice = server.data.noticeboard.find(item => item.attachments.length);
+        const stream = new PassThrough();
+        const chunks = [];
+        stream.on('data', chunk => chunks.push(chunk));
+
+        const file = await cvv.downloadNoticeAttachment(notice.evtCode, notice.pubId, stream, { attachNum: 1 });
+        expect(file.filename).toBe(notice.attachments[0].fileName);
+        expect(Buffer.concat(chunks).toString()).toContain(notice.cntTitle);
+    });
+
+    it('skips an existing file without downloading it again', async () => {
+        const notice = server.data.noticeboard.find(item => item.attachments.length);
+        const requested = [];
+        const transport = { fetch: (url, init) => (requested.push(url), defaultTransport.fetch(url, init)) };
+        const { username, password } = server.data;
+        const rest = new Rest({ username, password, baseUrl: server.url, transport, sessionStore: new MemorySessionStore(), logger: false });
+        await rest.login();
+        const path = join(directory, 'allegato.pdf');
+
+        expect(await rest.downloadNoticeAttachment(notice.evtCode, notice.pubId, path)).toMatchObject({ skipped: false });
+        requested.length = 0;
+        await expect(rest.downloadNoticeAttachment(notice.evtCode, notice.pubId, path)).resolves.toMatchObject({ skipped: true, path });
+        await expect(rest.downloadNoticeAttachment(notice.evtCode, notice.pubId, directory, { filename: 'allegato.pdf' })).resolves.toMatchObject({ skipped: true, path });
+        expect(requested).toEqual([]);
+        rest.logout();
+    });
+
+    it('refuses documents that are not available', async () => {
+        await expect(cvv.downloadDocument('missing', directory)).rejects.toThrow(ClassevivaError);
+    });
+
+    it('downloads every attachment of the noticeboard', async () => {
+        const expected = server.data.noticeboard.filter(item => item.attachments.length).length;
+
+        const first = await cvv.downloadNoticeboardAttachments(directory);
+        expect(first.failures).toEqual([]);
+        expect(first.files).toHaveLength(expected);
+        expect(first.files.every(file => !file.skipped)).toBe(true);
+
+        const second = await cvv.downloadNoticeboardAttachments(directory);
+        expect(second.files.every(file => file.skipped)).toBe(true);
+        expect(readdirSync(directory).some(name => name.endsWith('.part'))).toBe(false);
+    });
+});
@@ -0,0 +1,67 @@
+const { GradeAnalytics } = require('../dist/index.js');
+
+const grade = (subjectId, decimalValue, evtDate, extra = {}) => ({
+    subjectId,
+    subjectDesc: subjectId === 1 ? 'MATEMATICA' : 'ITALIANO',
+    evtDate,
+    decimalValue,
+    displayValue: String(decimalValue),
+    canceled: false,
+    periodPos: evtDate < '2023-02-01' ? 1 : 3,
+    periodDesc: evtDate < '2023-02-01' ? 'Primo Quadrimestre' : 'Secondo Quadrimestre',
+    weightFactor: 1,
+    ...extra,
+});
+
+const grades = [
+    grade(1, 4, '2022-10-01'),
+    grade(1, 6, '2022-11-01'),
+    grade(1, 8, '2023-03-01', { weightFactor: 0.5 }),
+    grade(1, 10, '2023-03-02', { canceled: true }),
+    grade(2, null, '2022-10-05', { displayValue: '+' }),
+    grade(2, 7, '2022-10-06'),
+    grade(2, 5, '2023-03-06'),
+];
+
+describe('Grade analytics', () => {
+    it('skips canceled and non-numeric grades', () => {
+        expect(GradeAnalytics.average(grades, { weighted: false })).toBeCloseTo(6);
+        expect(GradeAnalytics.average([grades[3], grades[4]])).toBeNull();
+    });
+
+    it('computes weighted averages per subject and per period', () => {
+        expect(GradeAnalytics.averageBySubject(grades)).toEqual([
+            { subjectId: 1, subjectDesc: 'MATEMATICA', average: 5.6, count: 3 },
+            { subjectId: 2, subjectDesc: 'ITALIANO', average: 6, count: 2 },
+        ]);
+        expect(GradeAnalytics.averageByPeriod(grades).map(period => period.average)).toEqual([17 / 3, 9 / 1.5]);
+        expect(GradeAnalytics.overallAverage(grades)).toBeCloseTo(5.8);
+    });
+
+    it('follows the trend over time', () => {
+        const { points, slope } = GradeAnalytics.trend(grades, { subjectId: 1, weighted: false });
+        expect(points.map(point => point.average)).toEqual([4, 5, 6]);
+        expect(slope).toBeGreaterThan(0);
+    });
+
+    it('projects the grade needed to reach an average', () => {
+        const math = grades.filter(item => item.subjectId === 1);
+        expect(GradeAnalytics.requiredGrade(math, 6)).toEqual({ grade: 7, reachable: true });
+        expect(GradeAnalytics.requiredGrade(math, 9, { count: 1 }).reachable).toBe(false);
+    });
+
+    it('never projects a grade below the minimum', () => {
+        const math = grades.filter(item => item.subjectId === 1);
+        expect(GradeAnalytics.requiredGrade(math, 3)).toEqual({ grade: 1, reachable: true });
+        expect(GradeAnalytics.requiredGrade(math, 3, { min: 2 }).grade).toBe(2);
+    });
+
+    it('rejects next grades without weight', () => {
+        expect(() => GradeAnalytics.requiredGrade(grades, 6, { count: 0 })).toThrow(RangeError);
+        expect(() => GradeAnalytics.requiredGrade(grades, 6, { weight: 0 })).toThrow(RangeError);
+    });
+
+    it('counts insufficient grades per subject', () => {
+        expect(GradeAnalytics.insufficientCount(grades).map(subject => subject.count)).toEqual([1, 1]);
+    });
+});
@@ -0,0 +1,165 @@
+const { HomeworkPlanner, MemoryStore, normalizeHomework, groupByDue, groupBySubject, prepareFor, Classeviva, MockServer, MemorySessionStore } = require('../dist/index.js');
+
+const rest = [{
+    evtId: 101,
+    evtCode: 'AGHW',
+    evtDatetimeBegin: '2023-03-07T08:00:00+01:00',
+    evtDatetimeEnd: '2023-03-07T09:00:00+01:00',
+    isFullDay: false,
+    notes: 'Esercizi a pagina 40, scheda su https://example.com/files/scheda%201.pdf.',
+    authorName: 'ROSSI MARIO',
+    classDesc: '3A',
+    subjectId: 1,
+    subjectDesc: 'MATEMATICA',
+    homeworkId: null,
+}, {
+    evtId: 102,
+    evtCode: 'AGNT',
+    evtDatetimeBegin: '2023-03-07T00:00:00+01:00',
+    evtDatetimeEnd: '2023-03-07T23:59:59+01:00',
+    isFullDay: true,
+    notes: 'Uscita didattica',
+    authorName: 'BIANCHI ANNA',
+    classDesc: '3A',
+    subjectId: null,
+    subjectDesc: null,
+    homeworkId: null,
+}];
+
+const web = [{
+    id: 101,
+    title: 'Esercizi a pagina 40',
+    start: '2023-03-07 08:00:00',
+    end: '2023-03-07 09:00:00',
+    allDay: false,
+    data_inserimento: '2023-03-01',
+    nota_2: 'Esercizi a pagina 40',
+    master_id: null,
+    classe_id: '',
+    classe_desc: '3A',
+    gruppo: 0,
+    autore_desc: 'ROSSI MARIO',
+    autore_id: '',
+    tipo: 'compiti',
+    materia_desc: 'MATEMATICA',
+    materia_id: 1,
+}, {
+    id: 103,
+    title: 'Verbi irregolari',
+    start: '2023-03-07 10:00:00',
+    end: '2023-03-07 11:00:00',
+    allDay: false,
+    data_inserimento: '2023-03-02',
+    nota_2: '',
+    master_id: null,
+    classe_id: '',
+    classe_desc: '3A',
+    gruppo: 0,
+    autore_desc: 'VERDI LUCA',
+    autore_id: '',
+    tipo: 'compiti',
+    materia_desc: 'INGLESE',
+    materia_id: 3,
+}, {
+    id: 104,
+    title: 'Ripasso',
+    start: '2023-03-06 08:00:00',
+    end: '2023-03-06 09:00:00',
+    allDay: false,
+    data_inserimento: '2023-03-02',
+    nota_2: 'Ripasso',
+    master_id: null,
+    classe_id: '',
+    classe_desc: '3A',
+    gruppo: 0,
+    autore_desc: 'NERI PAOLA',
+    autore_id: '',
+    tipo: 'compiti',
+    materia_desc: 'STORIA',
+    materia_id: '',
+}];
+
+const timetable = {
+    from: '2023-02-06',
+    to: '2023-03-03',
+    weeks: 4,
+    slots: [
+        { dayOfWeek: 2, hour: 1, duration: 2, subjectId: 1, subjectDesc: 'MATEMATICA', teachers: ['ROSSI MARIO'], confidence: 1 },
+        { dayOfWeek: 2, hour: 3, duration: 1, subjectId: 2, subjectDesc: 'FISICA', teachers: ['BIANCHI ANNA'], confidence: 1 },
+    ],
+};
+
+describe('Homework', () => {
+    it('normalizes both agendas', () => {
+        const homework = normalizeHomework([...rest, ...web]);
+        expect(homework.map(item => [item.id, item.source, item.due])).toEqual([
+            [104, 'web', '2023-03-06'], [101, 'rest', '2023-03-07'], [103, 'web', '2023-03-07'],
+        ]);
+        expect(homework[1]).toMatchObject({ subjectId: 1, subject: 'MATEMATICA', teacher: 'ROSSI MARIO', allDay: false, done: false });
+        expect(homework[1].attachments).toEqual([{ name: 'scheda 1.pdf', url: 'https://example.com/files/scheda%201.pdf' }]);
+        expect(homework[0]).toMatchObject({ subjectId: null, text: 'Ripasso', attachments: [] });
+        expect(normalizeHomework([{ ...rest[0], notes: 'Vedi http://esempio:pagina e https://example.com/file%E0%A4%A.pdf' }])[0].attachments).toEqual([
+            { name: 'file%E0%A4%A.pdf', url: 'https://example.com/file%E0%A4%A.pdf' },
+        ]);
+        expect(homework[2].text).toBe('Verbi irregolari');
+    });
+
+    it('groups and prepares the homework', () => {
+        const homework = normalizeHomework([...rest, ...web]);
+        expect(Object.keys(groupByDue(homework))).toEqual(['2023-03-06', '2023-03-07']);
+        expect(Object.keys(groupBySubject(homework))).toEqual(['STORIA', 'MATEMATICA', 'INGLESE']);
+
+        const prepared = prepareFor(homework, timetable, new Date(2023, 2, 7));
+        expect(prepared.date).toBe('2023-03-07');
+        expect(prepared.lessons.map(({ slot, homework }) => [slot.subjectDesc, homework.map(item => item.id)])).toEqual([
+            ['MATEMATICA', [101]], ['FISICA', []],
+        ]);
+        expect(prepared.unscheduled.map(item => item.id)).toEqual([103]);
+    });
+
+    it('keeps track of the done homework', async () => {
+        const store = new MemoryStore();
+        const planner = new HomeworkPlanner({ store });
+        const homework = normalizeHomework([...rest, ...web]);
+
+        await Promise.all([planner.markDone(homework[1]), planner.markDone(104)]);
+        expect(await planner.isDone(101)).toBe(true);
+        expect((await planner.pending(homework)).map(item => item.id)).toEqual([103]);
+        expect((await planner.prepare(homework, timetable, new Date(2023, 2, 7))).lessons[0].homework).toEqual([]);
+
+        await planner.markDone(104, false);
+        expect((await new HomeworkPlanner({ store }).track(homework)).map(item => item.done)).toEqual([false, true, false]);
+
+        expect(await planner.prune(homework.slice(2))).toBe(1);
+        expect(await store.get('homework')).toEqual({});
+    });
+});
+
+describe('Homework from the apis', () => {
+    let server;
+    let cvv;
+
+    beforeAll(async () => {
+        server = new MockServer({ seed: 25, today: new Date(2022, 10, 15) });
+        const baseUrl = await server.start();
+        const { username, password } = server.data;
+        cvv = new Classeviva({ username, password, baseUrl, sessionStore: new MemorySessionStore(), logger: false });
+        await cvv.login();
+    });
+
+    afterAll(() => {
+        cvv.logout();
+        server.stop();
+    });
+
+    it('gets the same homework from Rest and Web', async () => {
+        const start = new Date(2022, 9, 3);
+        const end = new Date(2022, 9, 28);
+        const fromRest = await cvv.getHomework({ start, end });
+        await cvv.ensureWeb();
+        const fromWeb = (await cvv.web.getHomework(start, end)).filter(item => item.due <= '2022-10-28');
+
+        expect(fromRest.length).toBeGreaterThan(0);
+        expect(fromWeb.map(({ source, ...item }) => item)).toEqual(fromRest.map(({ source, ...item }) => item));
+    });
+});
@@ -0,0 +1,107 @@
+const { ICalendar } = require('../dist/index.js');
+
+const agenda = [{
+    evtId: 101,
+    evtCode: 'AGHW',
+    evtDatetimeBegin: '2023-03-01T09:00:00+01:00',
+    evtDatetimeEnd: '2023-03-01T10:00:00+01:00',
+    isFullDay: false,
+    notes: 'Esercizi 1, 2; pagina 40',
+    authorName: 'ROSSI MARIO',
+    subjectDesc: 'MATEMATICA',
+}, {
+    evtId: 102,
+    evtCode: 'AGNT',
+    evtDatetimeBegin: '2023-03-02T00:00:00+01:00',
+    evtDatetimeEnd: '2023-03-02T23:59:59+01:00',
+    isFullDay: true,
+    notes: 'Uscita didattica',
+    authorName: 'BIANCHI ANNA',
+    subjectDesc: null,
+}];
+
+const lessons = [{
+    evtId: 201,
+    evtDate: '2023-03-01',
+    evtHPOS: 2,
+    evtDuration: 2,
+    classDesc: '3A',
+    authorName: 'ROSSI MARIO',
+    subjectDesc: 'MATEMATICA',
+    lessonArg: 'Equazioni',
+}];
+
+const calendar = [
+    { dayDate: '2023-03-03', dayOfWeek: 5, status: 'SD' },
+    { dayDate: '2023-04-10', dayOfWeek: 1, status: 'HD' },
+];
+
+const stamp = new Date('2023-02-01T00:00:00Z');
+
+describe('ICalendar', () => {
+    it('exports agenda, lessons and holidays with stable uids', () => {
+        const ics = ICalendar.exportICS({ agenda, lessons, calendar }, { stamp });
+
+        expect(ics.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true);
+        expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+        expect(ics.match(/BEGIN:VEVENT/g)).toHaveLength(4);
+        expect(ics).toContain('UID:agenda-101@classeviva.js');
+        expect(ics).toContain('UID:lesson-201@classeviva.js');
+        expect(ics).toContain('UID:holiday-2023-04-10@classeviva.js');
+        expect(ics).toContain('DTSTART:20230301T080000Z');
+        expect(ics).toContain('SUMMARY:Compiti - Matematica');
+        expect(ics).toContain('DESCRIPTION:Esercizi 1\\, 2\\; pagina 40\\nROSSI MARIO');
+        expect(ics).toContain('SUMMARY:Annotazione');
+        expect(ics).toContain('DTSTART;VALUE=DATE:20230302\r\nDTEND;VALUE=DATE:20230303');
+        expect(ics).toContain('DTSTART;VALUE=DATE:20230410\r\nDTEND;VALUE=DATE:20230411');
+        expect(ics).toBe(ICalendar.exportICS({ agenda, lessons, calendar }, { stamp }));
+    });
+
+    it('computes lesson times from the hour position', () => {
+        const ics = ICalendar.exportICS({ lessons }, { stamp, timezone: 'Europe/Rome' });
+        expect(ics).toContain('DTSTART;TZID=Europe/Rome:20230301T090000');
+        expect(ics).toContain('DTEND;TZID=Europe/Rome:20230301T110000');
+
+        const custom = ICalendar.exportICS({ lessons }, { stamp, hourStarts: ['08:00', '08:55', '09:50', '11:00'] });
+        expect(custom).toContain('DTSTART:20230301T085500');
+        expect(custom).toContain('DTEND:20230301T110000');
+    });
+
+    it('describes the timezone it uses', () => {
+        const ics = ICalendar.exportICS({ lessons }, { stamp, timezone: 'Europe/Rome' });
+        expect(ics).toContain([
+            'BEGIN:VTIMEZONE',
+            'TZID:Europe/Rome',
+            'BEGIN:DAYLIGHT',
+            'TZOFFSETFROM:+0100',
+            'TZOFFSETTO:+0200',
+            'DTSTART:20230326T020000',
+            'RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=-1SU',
+            'END:DAYLIGHT',
+            'BEGIN:STANDARD',
+            'TZOFFSETFROM:+0200',
+            'TZOFFSETTO:+0100',
+            'DTSTART:20231029T030000',
+            'RRULE:FREQ=YEARLY;BYMONTH=10;BYDAY=-1SU',
+            'END:STANDARD',
+            'END:VTIMEZONE',
+        ].join('\r\n'));
+        expect(ICalendar.exportICS({ lessons }, { stamp, timezone: 'Asia/Tokyo' })).toContain('TZOFFSETFROM:+0900\r\nTZOFFSETTO:+0900');
+        expect(ICalendar.exportICS({ lessons }, { stamp })).not.toContain('VTIMEZONE');
+        expect(ICalendar.exportICS({ calendar }, { stamp, timezone: 'Europe/Rome' })).not.toContain('VTIMEZONE');
+        expect(() => ICalendar.exportICS({ lessons }, { timezone: 'Europe/Atlantis' })).toThrow(RangeError);
+    });
+
+    it('folds long lines to 75 octets', () => {
+        const ics = ICalendar.toICS([{
+            uid: 'long@classeviva.js',
+            start: new Date('2023-03-01T08:00:00Z'),
+            summary: 'è'.repeat(100),
+        }], { stamp });
+
+        for (const line of ics.split('\r\n')) {
+            expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75);
+        }
+        expect(ics.replace(/\r\n /g, '')).toContain(`SUMMARY:${'è'.repeat(100)}`);
+    });
+});
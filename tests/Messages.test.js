@@ -0,0 +1,72 @@
+const { default: fetch, Response } = require('node-fetch');
+const { Web, MockServer } = require('../dist/index.js');
+
+let server;
+let web;
+
+beforeAll(async () => {
+    server = new MockServer({ seed: 9, today: new Date(2022, 10, 15) });
+    const baseUrl = await server.start();
+    web = new Web({ cid: '', uid: server.data.username, pwd: server.data.password, pin: '', target: '' }, { baseUrl, logger: false });
+    await web.login();
+});
+
+afterAll(() => server.stop());
+
+describe('Web messages', () => {
+    it('pages through the messages', async () => {
+        const first = await web.getMessagesPage({ perPage: 10 });
+        expect(first).toMatchObject({ page: 1, perPage: 10, total: server.data.messages.length, hasMore: true });
+        expect(first.messages).toHaveLength(10);
+
+        const all = [];
+        for await (const message of web.iterateMessages({ perPage: 10 })) all.push(message.msgId);
+        expect(all).toHaveLength(server.data.messages.length);
+        expect(new Set(all).size).toBe(all.length);
+    });
+
+    it('filters unread messages and searches', async () => {
+        const unread = await web.getMessages({ unreadOnly: true, perPage: 100 });
+        expect(unread.length).toBe(server.data.messages.filter(message => !message.read).length);
+
+        const found = await web.getMessages({ search: 'riunione', perPage: 100 });
+        expect(found.length).toBeGreaterThan(0);
+        expect(found.every(message => `${message.msgSubject} ${message.msgText}`.toLowerCase().includes('riunione'))).toBe(true);
+    });
+
+    it('reads a thread with its attachments and marks it as read', async () => {
+        const withAttachment = server.data.messages.find(message => message.hasAttach && !message.read) ?? server.data.messages.find(message => message.hasAttach);
+        const thread = await web.getThread(withAttachment.threadId);
+        expect(thread.messages).toHaveLength(1);
+
+        const [attachment] = thread.messages[0].attachments;
+        const url = web.getAttachmentUrl(attachment);
+        expect(url).toContain(attachment.attachId);
+
+        await expect(web.markMessagesRead([withAttachment.msgId])).resolves.toBe(true);
+        expect(server.data.messages.find(message => message.msgId === withAttachment.msgId).read).toBe(true);
+    });
+
+    it('sends messages only to the address book', async () => {
+        const [contact] = await web.getRubrica();
+        const sent = await web.sendMessage({ to: [contact], subject: 'Giustificazione', text: 'Buongiorno, allego la giustificazione.' });
+        expect(sent).toMatchObject({ msgSubject: 'Giustificazione', targets: [contact.id] });
+
+        const [latest] = await web.getMessages({ perPage: 1 });
+        expect(latest.msgId).toBe(sent.msgId);
+
+        await expect(web.sendMessage({ to: ['nobody'], subject: 'a', text: 'b' })).rejects.toMatch('address book');
+        await expect(web.sendMessage({ to: [], subject: 'a', text: 'b' })).rejects.toMatch('No recipients');
+    });
+
+    it('rejects when the server does not return the sent message', async () => {
+        const transport = {
+            fetch: (url, init) => url.includes('acSendMsg') ? Promise.resolve(new Response(JSON.stringify({ OAS: {} }))) : fetch(url, init),
+        };
+        const other = new Web({ cid: '', uid: server.data.username, pwd: server.data.password, pin: '', target: '' }, { baseUrl: server.url, transport, logger: false });
+        await other.login();
+
+        const [contact] = await other.getRubrica();
+        await expect(other.sendMessage({ to: [contact], subject: 'a', text: 'b' })).rejects.toMatch('not sent');
+    });
+});
@@ -0,0 +1,92 @@
+const { Rest, Web, MockServer, MemorySessionStore } = require('../dist/index.js');
+
+let server;
+let url;
+
+beforeAll(async () => {
+    server = new MockServer({ seed: 42, today: new Date(2022, 10, 15) });
+    url = await server.start();
+});
+
+afterAll(() => server.stop());
+
+describe('Classeviva mock server', () => {
+    it('generates the same data from the same seed', () => {
+        const other = new MockServer({ seed: 42, today: new Date(2022, 10, 15) });
+        expect(other.data.ident).toBe(server.data.ident);
+        expect(other.data.grades).toEqual(server.data.grades);
+    });
+
+    it('serves the REST endpoints', async () => {
+        const { username, password } = server.data;
+        const cvv = new Rest({ username, password, baseUrl: url, sessionStore: new MemorySessionStore(), logger: false });
+
+        await cvv.login();
+        expect(cvv.user.ident).toBe(server.data.ident);
+
+        await expect(cvv.getGrades()).resolves.toHaveLength(server.data.grades.length);
+
+        const homework = await cvv.getAgenda('homework', new Date(2022, 8, 1), new Date(2023, 5, 30));
+        expect(homework.length).toBeGreaterThan(0);
+        expect(homework.every(event => event.evtCode === 'AGHW')).toBe(true);
+
+        await cvv.getCards();
+        expect(cvv.user.school.code).toBe(server.data.card.schCode);
+
+        cvv.logout();
+    });
+
+    it('logs in again when the token is rejected', async () => {
+        const { username, password } = server.data;
+        const cvv = new Rest({ username, password, baseUrl: url, sessionStore: new MemorySessionStore(), logger: false });
+        const refreshed = jest.fn();
+        cvv.on('tokenRefreshed', refreshed);
+
+        await cvv.login();
+        server.expireSessions();
+
+        await expect(cvv.getPeriods()).resolves.toHaveLength(2);
+        expect(refreshed).toHaveBeenCalledTimes(1);
+        cvv.logout();
+    });
+
+    it('validates the responses when asked to', async () => {
+        const { username, password } = server.data;
+        const cvv = new Rest({ username, password, baseUrl: url, sessionStore: new MemorySessionStore(), logger: false, validate: true });
+        const reports = [];
+        cvv.on('validation', report => reports.push(report));
+
+        await cvv.login();
+        await cvv.getGrades();
+        await cvv.getNotes();
+        await cvv.getNoticeboard();
+        await cvv.getLessons(false, new Date(2022, 10, 7), new Date(2022, 10, 11));
+        expect(reports).toEqual([]);
+
+        const { periodDesc, ...grade } = server.data.grades[0];
+        server.data.grades[0] = { ...grade, periodPos: '1' };
+        await cvv.getGrades();
+        server.data.grades[0] = { ...grade, periodDesc, periodPos: grade.periodPos };
+
+        expect(reports).toEqual([{ method: 'getGrades', issues: [
+            { path: '[].periodPos', kind: 'type', expected: 'number', received: 'string' },
+            { path: '[].periodDesc', kind: 'missing', expected: 'string' },
+        ] }]);
+        cvv.logout();
+    });
+
+    it('rejects wrong credentials', async () => {
+        const cvv = new Rest({ username: server.data.username, password: 'wrong', baseUrl: url, sessionStore: new MemorySessionStore(), logger: false });
+        await expect(cvv.login()).rejects.toThrow('Username and password do not match');
+    });
+
+    it('serves the WEB endpoints', async () => {
+        const cvv = new Web({ cid: '', uid: server.data.username, pwd: server.data.password, pin: '', target: '' }, { baseUrl: url, logger: false });
+
+        await expect(cvv.login()).resolves.toBe(true);
+        expect(cvv.user.nome).toBe(server.data.account.nome);
+
+        await expect(cvv.getMessages()).resolves.toHaveLength(20);
+        await expect(cvv.getUnreadMessages()).resolves.toBe(server.data.messages.filter(message => !message.read).length);
+    });
+});
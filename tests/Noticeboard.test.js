@@ -0,0 +1,66 @@
+const { Rest, MockServer, MemorySessionStore } = require('../dist/index.js');
+const { mkdtempSync, writeFileSync, rmSync } = require('fs');
+const { tmpdir } = require('os');
+const { join } = require('path');
+
+let server;
+let cvv;
+
+beforeAll(async () => {
+    server = new MockServer({ seed: 11, today: new Date(2022, 10, 15) });
+    const baseUrl = await server.start();
+    const { username, password } = server.data;
+    cvv = new Rest({ username, password, baseUrl, sessionStore: new MemorySessionStore(), logger: false });
+    await cvv.login();
+});
+
+afterAll(() => {
+    cvv.logout();
+    server.stop();
+});
+
+describe('Noticeboard', () => {
+    it('filters the items', async () => {
+        const all = server.data.noticeboard;
+
+        await expect(cvv.getNoticeboard({ unread: true })).resolves.toHaveLength(all.filter(item => !item.readStatus).length);
+        await expect(cvv.getNoticeboard({ needSign: true })).resolves.toHaveLength(all.filter(item => item.needSign).length);
+        await expect(cvv.getNoticeboard({ category: ['circolare', 'News'] })).resolves.toHaveLength(all.filter(item => ['Circolare', 'News'].includes(item.cntCategory)).length);
+
+        const day = all[0].pubDT.slice(0, 10);
+        const sameDay = await cvv.getNoticeboard({ from: day, to: new Date(`${day}T12:00:00`) });
+        expect(sameDay.length).toBeGreaterThan(0);
+        expect(sameDay.every(item => item.pubDT.startsWith(day))).toBe(true);
+    });
+
+    it('signs, joins and replies with a text form encoded', async () => {
+        const [notice] = server.data.noticeboard;
+        const read = await cvv.readNotice(notice.evtCode, notice.pubId, { sign: true, join: false, text: 'Presente & d\'accordo' });
+
+        expect(read.reply).toMatchObject({ replSign: true, replJoin: false, replText: 'Presente & d\'accordo' });
+    });
+
+    it('replies with a file', async () => {
+        const [, notice] = server.data.noticeboard;
+        const directory = mkdtempSync(join(tmpdir(), 'cvv-notice-'));
+        const path = join(directory, 'modulo.pdf');
+        writeFileSync(path, '%PDF-1.4\n');
+
+        try {
+            const read = await cvv.readNotice(notice.evtCode, notice.pubId, { sign: true, file: path });
+            expect(read.reply).toMatchObject({ replSign: true, replFile: 'modulo.pdf' });
+
+            const again = await cvv.readNotice(notice.evtCode, notice.pubId, { file: { filename: 'foto.png', content: Buffer.from([0x89, 0x50]) } });
+            expect(again.reply).toMatchObject({ replSign: true, replFile: 'foto.png' });
+        } finally {
+            rmSync(directory, { recursive: true, force: true });
+        }
+    });
+
+    it('marks every notice as read', async () => {
+        const unread = server.data.noticeboard.filter(item => !item.readStatus).length;
+
+        await expect(cvv.markAllNoticesRead()).resolves.toHaveLength(unread);
+        await expect(cvv.getNoticeboard({ unread: true })).resolves.toEqual([]);
+    });
+});
@@ -0,0 +1,146 @@
+const { Rest, RequestPolicy, MockServer, MemorySessionStore, NetworkError, defaultTransport } = require('../dist/index.js');
+const { createServer } = require('http');
+const fetch = require('node-fetch');
+
+const { Response } = fetch;
+const wait = ms => new Promise(resolve => setTimeout(resolve, ms));
+
+let server;
+let url;
+let handler;
+
+beforeAll(async () => {
+    server = createServer((request, response) => handler(request, response));
+    await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${server.address().port}`;
+});
+
+afterEach(() => server.closeAllConnections());
+
+afterAll(() => new Promise(resolve => server.close(resolve)));
+
+describe('RequestPolicy', () => {
+    it('times out when the server stalls before or after the headers', async () => {
+        const policy = new RequestPolicy({ timeout: 200, retries: 0 });
+
+        handler = () => {};
+        await expect(policy.execute('GET', signal => fetch(url, { signal }))).rejects.toThrow('Request timed out after 200ms');
+
+        handler = (request, response) => {
+            response.writeHead(200, { 'Content-Type': 'application/json' });
+            response.write('{"grades": [');
+        };
+        const response = await policy.execute('GET', signal => fetch(url, { signal }));
+        const start = Date.now();
+        await expect(response.json()).rejects.toThrow();
+        expect(Date.now() - start).toBeLessThan(1000);
+    });
+
+    it('keeps reading a body as long as data arrives', async () => {
+        handler = (request, response) => {
+            response.writeHead(200);
+            let chunks = 0;
+            const timer = setInterval(() => {
+                response.write(`${chunks}`);
+                if (++chunks === 5) {
+                    clearInterval(timer);
+                    response.end();
+                }
+            }, 80);
+        };
+        const policy = new RequestPolicy({ timeout: 200, retries: 0 });
+
+        const response = await policy.execute('GET', signal => fetch(url, { signal }));
+        expect(await response.text()).toBe('01234');
+    });
+
+    it('retries 5xx responses and network errors with backoff, only for safe methods', async () => {
+        const times = [];
+        handler = (request, response) => {
+            times.push(Date.now());
+            response.writeHead(times.length < 3 ? 503 : 200);
+            response.end(times.length < 3 ? 'busy' : 'ok');
+        };
+        const policy = new RequestPolicy({ retries: 2, backoff: 50 });
+
+        const response = await policy.execute('GET', signal => fetch(url, { signal }));
+        expect(await response.text()).toBe('ok');
+        expect(times).toHaveLength(3);
+        expect(times[1] - times[0]).toBeGreaterThanOrEqual(45);
+        expect(times[2] - times[1]).toBeGreaterThanOrEqual(95);
+
+        times.length = 0;
+        expect((await policy.execute('POST', signal => fetch(url, { method: 'POST', signal }))).status).toBe(503);
+        expect(times).toHaveLength(1);
+
+        const failing = jest.fn(async () => { throw new Error('offline'); });
+        await expect(new RequestPolicy({ retries: 1, backoff: 1 }).execute('GET', failing)).rejects.toThrow('offline');
+        expect(failing).toHaveBeenCalledTimes(2);
+    });
+
+    it('limits the requests running at the same time', async () => {
+        const policy = new RequestPolicy({ concurrency: 2 });
+        let active = 0;
+        let max = 0;
+        const request = async () => {
+            max = Math.max(max, ++active);
+            await wait(20);
+            active--;
+            return new Response('ok');
+        };
+
+        await Promise.all(Array.from({ length: 6 }, () => policy.execute('GET', request)));
+        expect(max).toBe(2);
+    });
+
+    it('keeps the slot until the body has been read', async () => {
+        handler = (request, response) => response.end('ok');
+        const policy = new RequestPolicy({ concurrency: 1 });
+
+        const first = await policy.execute('GET', signal => fetch(url, { signal }));
+        let started = false;
+        const second = policy.execute('GET', signal => {
+            started = true;
+            return fetch(url, { signal });
+        });
+        await wait(50);
+        expect(started).toBe(false);
+
+        expect(await first.text()).toBe('ok');
+        expect(await (await second).text()).toBe('ok');
+        expect(started).toBe(true);
+    });
+
+    it('limits the requests per interval', async () => {
+        const policy = new RequestPolicy({ rateLimit: { requests: 2, interval: 200 } });
+        const start = Date.now();
+        const times = await Promise.all(Array.from({ length: 5 }, () => policy.execute('GET', async () => new Response(String(Date.now() - start))).then(response => response.text()).then(Number)));
+
+        times.sort((a, b) => a - b);
+        expect(times[1]).toBeLessThan(50);
+        expect(times[2]).toBeGreaterThanOrEqual(90);
+        expect(times[4]).toBeGreaterThanOrEqual(290);
+    });
+});
+
+describe('Rest request policy', () => {
+    it('does not hang on a body that never ends', async () => {
+        const mock = new MockServer({ seed: 5 });
+        const baseUrl = await mock.start();
+        const { username, password } = mock.data;
+        handler = (request, response) => {
+            response.writeHead(200, { 'Content-Type': 'application/json' });
+            response.write('{"grades": [');
+        };
+        const transport = { fetch: (target, init) => defaultTransport.fetch(target.includes('/grades') ? url : target, init) };
+        const cvv = new Rest({ username, password, baseUrl, transport, sessionStore: new MemorySessionStore(), logger: false, requestPolicy: { timeout: 300, retries: 0 } });
+        await cvv.login();
+
+        const start = Date.now();
+        await expect(cvv.getGrades()).rejects.toThrow(NetworkError);
+        expect(Date.now() - start).toBeLessThan(1500);
+
+        cvv.logout();
+        await mock.stop();
+    });
+});
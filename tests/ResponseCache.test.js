@@ -0,0 +1,162 @@
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { Rest, MockServer, MemorySessionStore, ResponseCache, MemoryStore, JsonFileStore } = require('../dist/index.js');
+
+let server;
+let baseUrl;
+
+beforeAll(async () => {
+    server = new MockServer({ seed: 21, today: new Date(2022, 10, 15) });
+    baseUrl = await server.start();
+});
+
+afterAll(() => server.stop());
+
+const wait = ms => new Promise(resolve => setTimeout(resolve, ms));
+
+const login = async cache => {
+    const { username, password } = server.data;
+    const cvv = new Rest({ username, password, baseUrl, sessionStore: new MemorySessionStore(), logger: false, cache });
+    const statuses = [];
+    cvv.on('response', ({ url, status }) => statuses.push([url.split('/').pop(), status]));
+    await cvv.login();
+    statuses.length = 0;
+    return { cvv, statuses };
+};
+
+describe('Response cache', () => {
+    it('picks the ttl of the longest matching endpoint', () => {
+        const cache = new ResponseCache({ ttl: 1, ttls: { '/agenda': 10, '/agenda/homework': 20, '/grades': 30 } });
+        expect(cache.ttlOf('/agenda/all/20221101/20221130')).toBe(10);
+        expect(cache.ttlOf('/agenda/homework/20221101/20221130')).toBe(20);
+        expect(cache.ttlOf('/grades2')).toBe(1);
+        expect(cache.ttlOf('/grades')).toBe(30);
+    });
+
+    it('revalidates with the ETag and serves 304 responses from the cache', async () => {
+        const { cvv, statuses } = await login({});
+
+        const first = await cvv.getGrades();
+        const second = await cvv.getGrades();
+        expect(second).toEqual(first);
+        expect(statuses).toEqual([['grades2', 200], ['grades2', 304]]);
+
+        server.data.grades.push({ ...server.data.grades[0], evtId: 999999 });
+        expect(await cvv.getGrades()).toHaveLength(first.length + 1);
+        expect(statuses[2]).toEqual(['grades2', 200]);
+        server.data.grades.pop();
+        cvv.logout();
+    });
+
+    it('serves fresh entries without requests and can be invalidated', async () => {
+        const { cvv, statuses } = await login({ ttls: { '/grades2': 60000 } });
+
+        await Promise.all([cvv.getGrades(), cvv.getGrades()]);
+        await cvv.getGrades();
+        await cvv.getAbsences();
+        await cvv.getAbsences();
+        expect(statuses).toEqual([['grades2', 200], ['details', 200], ['details', 304]]);
+
+        await cvv.invalidateCache('/grades2');
+        await cvv.getGrades();
+        await cvv.getAbsences();
+        expect(statuses.slice(3)).toEqual([['grades2', 200], ['details', 304]]);
+        cvv.logout();
+    });
+
+    it('invalidates whole path segments', async () => {
+        const cache = new ResponseCache({ ttl: 60000 });
+        const load = jest.fn(async () => ({ status: 200, etag: '', data: {} }));
+        await Promise.all(['/grades', '/grades2', '/grades/subjects'].map(endpoint => cache.resolve('S1', endpoint, load)));
+
+        await cache.invalidate('S1', '/grades');
+        await Promise.all(['/grades', '/grades2', '/grades/subjects'].map(endpoint => cache.resolve('S1', endpoint, load)));
+        expect(load).toHaveBeenCalledTimes(5);
+    });
+
+    it('does not store a load that was running when the entry was invalidated', async () => {
+        const cache = new ResponseCache({ ttl: 60000 });
+        let release;
+        const slow = cache.resolve('S1', '/grades', () => new Promise(resolve => release = () => resolve({ status: 200, etag: '', data: 'old' })));
+        while (!release) await wait(1);
+
+        await cache.invalidate('S1');
+        release();
+        expect(await slow).toBe('old');
+
+        const load = jest.fn(async () => ({ status: 200, etag: '', data: 'new' }));
+        expect(await cache.resolve('S1', '/grades', load)).toBe('new');
+        expect(load).toHaveBeenCalledTimes(1);
+    });
+
+    it('shares the index of a store between instances', async () => {
+        const store = new MemoryStore();
+        const first = new ResponseCache({ store, ttl: 60000 });
+        const second = new ResponseCache({ store, ttl: 60000 });
+        const load = async () => ({ status: 200, etag: '', data: {} });
+
+        await first.resolve('S1', '/grades', load);
+        await second.resolve('S2', '/grades', load);
+        await first.resolve('S3', '/grades', load);
+
+        await second.clear();
+        expect(await store.get('index')).toEqual([]);
+        expect(await store.get('S3:/grades')).toBeUndefined();
+    });
+
+    it('forgets the noticeboard and the talks after changing them', async () => {
+        const { cvv, statuses } = await login({ ttl: 60000 });
+        const notice = (await cvv.getNoticeboard()).find(item => !item.readStatus);
+
+        await cvv.readNotice(notice.evtCode, notice.pubId);
+        expect((await cvv.getNoticeboard()).find(item => item.pubId === notice.pubId).readStatus).toBe(true);
+        expect(statuses.filter(([name]) => name === 'noticeboard')).toHaveLength(2);
+
+        const start = new Date(2022, 10, 15);
+        const end = new Date(2022, 11, 31);
+        const teacher = server.data.talks.find(item => item.frames.some(frame => frame.slots.some(slot => slot.available)));
+        const frame = teacher.frames.find(item => item.slots.some(slot => slot.available));
+        const slot = frame.slots.find(item => item.available);
+        const bookings = async () => (await cvv.getTalkBookings(start, end)).map(item => item.bookingId);
+
+        await bookings();
+        const { booking } = await cvv.bookTalk(teacher.teacherId, frame.talkId, slot.slot, {});
+        expect(await bookings()).toContain(booking.bookingId);
+        await cvv.cancelTalk(booking.bookingId);
+        expect(await bookings()).not.toContain(booking.bookingId);
+        cvv.logout();
+    });
+
+    it('returns stale entries while revalidating them', async () => {
+        const { cvv, statuses } = await login({ ttl: 20, staleWhileRevalidate: true });
+
+        const first = await cvv.getSubjects();
+        await wait(40);
+        expect(await cvv.getSubjects()).toEqual(first);
+        expect(statuses).toHaveLength(1);
+
+        await wait(40);
+        expect(statuses).toEqual([['subjects', 200], ['subjects', 304]]);
+        cvv.logout();
+    });
+
+    it('keeps the entries in a persistent store across instances', async () => {
+        const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'classeviva-cache-'));
+        const store = () => new JsonFileStore({ path: path.join(directory, 'cache.json') });
+
+        const first = await login({ store: store(), ttl: 60000 });
+        await first.cvv.getPeriods();
+        first.cvv.logout();
+
+        const second = await login({ store: store(), ttl: 60000 });
+        expect(await second.cvv.getPeriods()).toHaveLength(server.data.periods.length);
+        expect(second.statuses).toEqual([]);
+
+        await new ResponseCache({ store: store() }).clear();
+        await second.cvv.getPeriods();
+        expect(second.statuses).toEqual([['periods', 200]]);
+        second.cvv.logout();
+        fs.rmSync(directory, { recursive: true, force: true });
+    });
+});
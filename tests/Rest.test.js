@@ -1,4 +1,5 @@
-const { Rest } = require('../dist/index.js');
+const { Rest, AuthenticationError, NotLoggedInError, ReplayTransport, MemorySessionStore } = require('../dist/index.js');
+const { Response } = require('node-fetch');
 let cvv;
 
 beforeEach(() =>{
@@ -30,4 +31,105 @@ describe('Classeviva REST class creation', () => {
             school: {}
         });
     });
+});
+
+describe('Classeviva REST class errors', () => {
+    it('throws when logging in without credentials', async () => {
+        await expect(cvv.login()).rejects.toBeInstanceOf(AuthenticationError);
+    });
+
+    it('throws when fetching data before logging in', async () => {
+        await expect(cvv.getGrades()).rejects.toBeInstanceOf(NotLoggedInError);
+    });
+
+    it('returns empty values in compatibility mode', async () => {
+        const compat = new Rest({ compatibilityMode: true, logger: false });
+
+        await expect(compat.login()).resolves.toBeUndefined();
+        await expect(compat.getGrades()).resolves.toEqual([]);
+    });
+
+    it('emits the error event before throwing', async () => {
+        const listener = jest.fn();
+        cvv.on('error', listener);
+
+        await expect(cvv.getGrades()).rejects.toThrow();
+        expect(listener).toHaveBeenCalledWith(expect.any(NotLoggedInError));
+    });
+});
+
+describe('Classeviva REST parent accounts', () => {
+    const json = (body, status = 200) => ({ status, headers: { 'content-type': 'application/json' }, body: JSON.stringify(body) });
+    const child = (ident, firstName) => json({ ident, firstName, lastName: 'Rossi', token: `token-${ident}`, showPwdChangeReminder: false, release: '2022-09-12T08:00:00+02:00', expire: '2099-09-12T09:30:00+02:00' });
+    const fixtures = () => [
+        { request: { method: 'POST', url: '/rest/v1/auth/login/' }, response: json({ requestedAction: 'choose', message: 'choose a profile', choices: [
+            { cid: 'SCH1', ident: 'G1111111A', name: 'Anna Rossi', school: 'Liceo' },
+            { cid: 'SCH1', ident: 'G2222222B', name: 'Bruno Rossi', school: 'Liceo' },
+        ] }) },
+        { request: { method: 'POST', url: '/rest/v1/auth/login/' }, response: child('G1111111A', 'Anna') },
+        { request: { method: 'POST', url: '/rest/v1/auth/login/' }, response: child('G2222222B', 'Bruno') },
+    ];
+
+    it('lists the children and switches between them', async () => {
+        const parent = new Rest({ username: 'parent', password: 'password', sessionStore: new MemorySessionStore(), logger: false, transport: new ReplayTransport(fixtures()) });
+
+        const user = await parent.login();
+        expect(user.ident).toBe('G1111111A');
+        expect(user.type).toBe('genitore');
+        await expect(parent.getStudents()).resolves.toEqual([
+            { ident: 'G1111111A', id: '1111111', name: 'Anna Rossi', school: 'Liceo' },
+            { ident: 'G2222222B', id: '2222222', name: 'Bruno Rossi', school: 'Liceo' },
+        ]);
+
+        const selected = await parent.selectStudent('G2222222B');
+        expect(selected.name).toBe('Bruno');
+        expect(parent.user.id).toBe('2222222');
+
+        await expect(parent.selectStudent('G9999999Z')).rejects.toThrow('Unknown student');
+        parent.logout();
+    });
+
+    it('restores the session of the first child on the next login', async () => {
+        const sessionStore = new MemorySessionStore();
+        const status = { request: { method: 'GET', url: '/rest/v1/auth/status/' }, response: json({ status: { expire: '2099-09-12T09:30:00+02:00', release: '2022-09-12T08:00:00+02:00', ident: 'G1111111A', remains: 3600 } }) };
+        const first = new Rest({ username: 'parent', password: 'password', sessionStore, logger: false, transport: new ReplayTransport(fixtures()) });
+        await first.login();
+
+        const requests = [];
+        const replay = new ReplayTransport([status]);
+        const second = new Rest({ username: 'parent', password: 'password', sessionStore, logger: false, transport: { fetch: (url, init) => (requests.push(url), replay.fetch(url, init)) } });
+        expect((await second.login()).ident).toBe('G1111111A');
+        expect(requests.every(url => !url.includes('/auth/login'))).toBe(true);
+        first.logout();
+        second.logout();
+    });
+
+    it('forgets the saved session of a student without logging in', async () => {
+        const sessionStore = new MemorySessionStore();
+        const parent = new Rest({ username: 'parent', password: 'password', ident: 'G2222222B', sessionStore, logger: false, transport: new ReplayTransport(fixtures()) });
+        await parent.login();
+        const deleted = jest.spyOn(sessionStore, 'delete');
+
+        await new Rest({ username: 'parent', ident: 'G2222222B', sessionStore, logger: false }).forgetSession();
+        expect(deleted).toHaveBeenCalledWith('parent#G2222222B', expect.any(String));
+        parent.logout();
+    });
+
+    it('keeps the current student when switching fails', async () => {
+        const replay = new ReplayTransport(fixtures());
+        const transport = {
+            fetch: (url, init) => init.body && JSON.parse(init.body).ident === 'G2222222B'
+                ? Promise.resolve(new Response(JSON.stringify({ statusCode: 422, error: 'auth error', message: 'wrong ident' }), { status: 422, headers: { 'Content-Type': 'application/json' } }))
+                : replay.fetch(url, init),
+        };
+        const parent = new Rest({ username: 'parent', password: 'password', sessionStore: new MemorySessionStore(), logger: false, transport });
+        await parent.login();
+        const { user, expiration } = parent;
+
+        await expect(parent.selectStudent('G2222222B')).rejects.toThrow(AuthenticationError);
+        expect(parent.authorized).toBe(true);
+        expect(parent.user).toEqual(user);
+        expect(parent.expiration).toBe(expiration);
+        parent.logout();
+    });
 });
\ No newline at end of file
@@ -0,0 +1,152 @@
+const { Rest, MockServer, MemorySessionStore, NotLoggedInError, defaultTransport } = require('../dist/index.js');
+const SessionManager = require('../dist/src/SessionManager.js').default;
+
+const wait = ms => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('SessionManager', () => {
+    it('refreshes the token before it expires', async () => {
+        const refresh = jest.fn(async () => manager.stop());
+        const manager = new SessionManager({ refresh, refreshMargin: 100 });
+
+        manager.start(new Date(Date.now() + 150));
+        expect(manager.isValid()).toBe(true);
+        await wait(20);
+        expect(refresh).not.toHaveBeenCalled();
+        await wait(60);
+        expect(manager.isValid()).toBe(false);
+        expect(refresh).toHaveBeenCalledTimes(1);
+
+        manager.start(new Date(Date.now() + 50));
+        expect(manager.isValid()).toBe(false);
+        await manager.ensure();
+        expect(refresh).toHaveBeenCalledTimes(2);
+        manager.stop();
+    });
+
+    it('retries with an exponential backoff', async () => {
+        const calls = [];
+        const refresh = jest.fn(async () => {
+            calls.push(Date.now());
+            if (calls.length < 3) throw new Error('offline');
+        });
+        const manager = new SessionManager({ refresh, retries: 3, backoff: 30 });
+
+        await Promise.all([manager.refresh(), manager.refresh()]);
+        expect(refresh).toHaveBeenCalledTimes(3);
+        expect(calls[1] - calls[0]).toBeGreaterThanOrEqual(25);
+        expect(calls[2] - calls[1]).toBeGreaterThanOrEqual(55);
+
+        refresh.mockImplementation(async () => { throw new Error('still offline'); });
+        await expect(new SessionManager({ refresh, retries: 1, backoff: 1 }).refresh()).rejects.toThrow('still offline');
+        expect(refresh).toHaveBeenCalledTimes(5);
+    });
+
+    it('stops retrying once stopped', async () => {
+        const refresh = jest.fn(async signal => {
+            expect(signal.aborted).toBe(false);
+            throw new Error('offline');
+        });
+        const onRefreshFailed = jest.fn();
+        const manager = new SessionManager({ refresh, onRefreshFailed, retries: 5, backoff: 5000 });
+
+        const pending = manager.refresh();
+        await wait(10);
+        const stopped = Date.now();
+        manager.stop();
+        await expect(pending).rejects.toThrow('The session was closed while refreshing the token');
+        expect(Date.now() - stopped).toBeLessThan(100);
+        expect(refresh).toHaveBeenCalledTimes(1);
+
+        manager.start(new Date());
+        await wait(10);
+        manager.stop();
+        await wait(100);
+        expect(refresh).toHaveBeenCalledTimes(2);
+        expect(onRefreshFailed).not.toHaveBeenCalled();
+    });
+});
+
+describe('Rest sessions', () => {
+    let server;
+    let options;
+
+    beforeAll(async () => {
+        server = new MockServer({ seed: 4, today: new Date(2022, 10, 15) });
+        const baseUrl = await server.start();
+        const { username, password } = server.data;
+        options = { username, password, baseUrl, logger: false, requestPolicy: { retries: 0 } };
+    });
+
+    afterAll(() => server.stop());
+
+    it('checks and ensures the session', async () => {
+        const cvv = new Rest({ ...options, sessionStore: new MemorySessionStore() });
+        expect(cvv.isSessionValid()).toBe(false);
+        await expect(cvv.ensureSession()).rejects.toThrow(NotLoggedInError);
+
+        await cvv.login();
+        expect(cvv.isSessionValid()).toBe(true);
+        expect(await cvv.ensureSession()).toBe(true);
+        cvv.logout();
+        expect(cvv.isSessionValid()).toBe(false);
+    });
+
+    it('refreshes the token on schedule', async () => {
+        const short = new MockServer({ seed: 4, today: new Date(2022, 10, 15), tokenLifetime: 1 });
+        const baseUrl = await short.start();
+        const cvv = new Rest({ ...options, baseUrl, sessionStore: new MemorySessionStore(), session: { refreshMargin: 900 } });
+        const refreshed = jest.fn();
+        cvv.on('tokenRefreshed', refreshed);
+
+        await cvv.login();
+        const { expiration } = cvv;
+        await wait(300);
+        expect(refreshed).toHaveBeenCalled();
+        expect(cvv.expiration).not.toBe(expiration);
+
+        cvv.logout();
+        await short.stop();
+    });
+
+    it('logs in again and replays the request when the token is rejected', async () => {
+        const cvv = new Rest({ ...options, sessionStore: new MemorySessionStore() });
+        const refreshed = jest.fn();
+        cvv.on('tokenRefreshed', refreshed);
+        await cvv.login();
+
+        server.expireSessions();
+        expect(await cvv.getGrades()).toHaveLength(server.data.grades.length);
+        expect(refreshed).toHaveBeenCalledTimes(1);
+        cvv.logout();
+    });
+
+    it('does not log back in after logout', async () => {
+        let offline = false;
+        let failures = 0;
+        const transport = {
+            fetch: (url, init) => {
+                if (!offline || !url.includes('/auth/login')) return defaultTransport.fetch(url, init);
+                failures++;
+                return Promise.reject(new Error('offline'));
+            },
+        };
+        const sessionStore = new MemorySessionStore();
+        const cvv = new Rest({ ...options, transport, sessionStore, session: { retries: 5, backoff: 50 } });
+        await cvv.login();
+
+        offline = true;
+        server.expireSessions();
+        const grades = cvv.getGrades();
+        while (!failures) await wait(5);
+
+        const saved = jest.spyOn(sessionStore, 'set');
+        cvv.logout();
+        offline = false;
+        await expect(grades).rejects.toThrow();
+        await wait(150);
+
+        expect(cvv.authorized).toBe(false);
+        expect(cvv.isSessionValid()).toBe(false);
+        expect(saved).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,94 @@
+const { FileSessionStore, MemorySessionStore, NoopSessionStore } = require('../dist/index.js');
+const { mkdtempSync, mkdirSync, readdirSync, statSync, writeFileSync, rmSync } = require('fs');
+const { tmpdir } = require('os');
+const { join } = require('path');
+
+const session = { ident: 'S1234567X', firstName: 'Mario', lastName: 'Rossi', token: 'token', release: '2023-03-01T10:00:00+01:00', expire: '2023-03-01T11:30:00+01:00' };
+
+let parent;
+let directory;
+
+beforeEach(() => {
+    parent = mkdtempSync(join(tmpdir(), 'cvv-sessions-'));
+    directory = join(parent, 'store');
+});
+
+afterEach(() => rmSync(parent, { recursive: true, force: true }));
+
+describe('FileSessionStore', () => {
+    it('saves and reads back a session', async () => {
+        const store = new FileSessionStore({ directory });
+        expect(await store.get('S1234567X', 'student')).toBeUndefined();
+
+        await store.set('S1234567X', 'student', session);
+        expect(await store.get('S1234567X', 'student')).toEqual(session);
+        expect(await store.get('S1234567X', 'parent')).toBeUndefined();
+
+        await store.delete('S1234567X', 'student');
+        expect(await store.get('S1234567X', 'student')).toBeUndefined();
+        await expect(store.delete('S1234567X', 'student')).resolves.toBeUndefined();
+    });
+
+    it('keeps the files inside the directory with safe names', async () => {
+        const store = new FileSessionStore({ directory });
+        await store.set('../../Mario Rossi/x', 'student', session);
+
+        expect(readdirSync(directory)).toEqual(['cvv-student-..%2F..%2FMario%20Rossi%2Fx.json']);
+        expect(readdirSync(parent)).toEqual(['store']);
+        expect(await store.get('../../Mario Rossi/x', 'student')).toEqual(session);
+    });
+
+    it('gives every username its own file', async () => {
+        const store = new FileSessionStore({ directory });
+        await store.set('a/b', 'student', session);
+        await store.set('a_b', 'student', { ...session, ident: 'a_b' });
+
+        expect(readdirSync(directory)).toHaveLength(2);
+        expect(await store.get('a/b', 'student')).toEqual(session);
+        expect((await store.get('a_b', 'student')).ident).toBe('a_b');
+    });
+
+    it('is readable only by the current user', async () => {
+        mkdirSync(directory, { mode: 0o755 });
+        const store = new FileSessionStore({ directory });
+        await store.set('S1234567X', 'student', session);
+
+        expect(statSync(directory).mode & 0o777).toBe(0o700);
+        expect(statSync(join(directory, 'cvv-student-S1234567X.json')).mode & 0o777).toBe(0o600);
+    });
+
+    it('treats a corrupted file as a miss', async () => {
+        const store = new FileSessionStore({ directory });
+        await store.set('S1234567X', 'student', session);
+        writeFileSync(join(directory, 'cvv-student-S1234567X.json'), '{"token": ');
+
+        expect(await store.get('S1234567X', 'student')).toBeUndefined();
+        await store.set('S1234567X', 'student', session);
+        expect(await store.get('S1234567X', 'student')).toEqual(session);
+    });
+});
+
+describe('MemorySessionStore', () => {
+    it('keeps the sessions of every user and state apart', async () => {
+        const store = new MemorySessionStore();
+        await store.set('S1234567X', 'student', session);
+        await store.set('G1234567X', 'parent', { ...session, ident: 'G1234567X' });
+
+        expect(await store.get('S1234567X', 'student')).toEqual(session);
+        expect(await store.get('S1234567X', 'parent')).toBeUndefined();
+        expect((await store.get('G1234567X', 'parent')).ident).toBe('G1234567X');
+
+        await store.delete('S1234567X', 'student');
+        expect(await store.get('S1234567X', 'student')).toBeUndefined();
+        expect(await new MemorySessionStore().get('G1234567X', 'parent')).toBeUndefined();
+    });
+});
+
+describe('NoopSessionStore', () => {
+    it('never returns a session', async () => {
+        const store = new NoopSessionStore();
+        await store.set('S1234567X', 'student', session);
+        expect(await store.get('S1234567X', 'student')).toBeUndefined();
+        await expect(store.delete('S1234567X', 'student')).resolves.toBeUndefined();
+    });
+});
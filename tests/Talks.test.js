@@ -0,0 +1,75 @@
+const { Rest, MockServer, MemorySessionStore, ApiError, Enums } = require('../dist/index.js');
+const { suggestSlots } = require('../dist/src/Talks.js');
+
+const slot = (teacherId, evtDate, startTime, endTime) => ({ teacherId, teacherName: teacherId, talkId: 1, slot: 1, evtDate, startTime, endTime, place: '', online: false });
+
+let server;
+let cvv;
+
+beforeAll(async () => {
+    server = new MockServer({ seed: 5, today: new Date(2022, 10, 15) });
+    const baseUrl = await server.start();
+    const { username, password } = server.data;
+    cvv = new Rest({ username, password, app: Enums.Apps.Family, baseUrl, sessionStore: new MemorySessionStore(), logger: false });
+    await cvv.login();
+});
+
+afterAll(() => {
+    cvv.logout();
+    server.stop();
+});
+
+describe('Talks', () => {
+    it('suggests the shortest visit without overlaps', () => {
+        const slots = [
+            slot('A', '2022-11-20', '15:00', '15:10'),
+            slot('A', '2022-11-20', '16:00', '16:10'),
+            slot('B', '2022-11-20', '15:00', '15:10'),
+            slot('B', '2022-11-20', '16:10', '16:20'),
+            slot('C', '2022-11-20', '16:20', '16:30'),
+            slot('A', '2022-11-21', '15:00', '15:10'),
+        ];
+
+        const [suggestion, ...others] = suggestSlots(slots, ['A', 'B', 'C']);
+        expect(others).toEqual([]);
+        expect(suggestion).toMatchObject({ evtDate: '2022-11-20', startTime: '16:00', endTime: '16:30' });
+        expect(suggestion.slots.map(item => item.teacherId)).toEqual(['A', 'B', 'C']);
+
+        expect(suggestSlots(slots, ['A', 'B'])[0]).toMatchObject({ startTime: '16:00', endTime: '16:20' });
+        expect(suggestSlots(slots, ['A', 'B'], { gap: 5 })[0]).toMatchObject({ startTime: '15:00', endTime: '16:10' });
+        expect(suggestSlots(slots, ['A', 'B'], { gap: 61 })).toEqual([]);
+    });
+
+    it('books, lists and cancels talks', async () => {
+        const start = new Date(2022, 10, 15);
+        const end = new Date(2022, 11, 15);
+        const [first] = await cvv.getTalkSlots(start, end);
+        expect(first).toEqual(expect.objectContaining({ teacherId: expect.any(String), evtDate: expect.any(String) }));
+
+        const { booking } = await cvv.bookTalk(first.teacherId, first.talkId, first.slot, {});
+        expect(booking).toMatchObject({ teacherId: first.teacherId, startTime: first.startTime });
+        await expect(cvv.bookTalk(first.teacherId, first.talkId, first.slot, {})).rejects.toThrow(ApiError);
+
+        const free = await cvv.getTalkSlots(start, end, { teacherIds: [first.teacherId] });
+        expect(free.some(item => item.talkId === first.talkId && item.slot === first.slot)).toBe(false);
+        await expect(cvv.getTalkBookings(start, end)).resolves.toEqual([booking]);
+
+        await cvv.sendTeacherMessage(booking.bookingId, 'Arriveremo in anticipo');
+        const { messages } = await cvv.readTalkMessage(booking.bookingId);
+        expect(messages.map(message => message.text)).toContain('Arriveremo in anticipo');
+        expect(messages.every(message => message.read)).toBe(true);
+
+        await expect(cvv.cancelTalk(booking.bookingId)).resolves.toBe(true);
+        await expect(cvv.getTalkBookings(start, end)).resolves.toEqual([]);
+    });
+
+    it('suggests slots from the server data', async () => {
+        const teacherIds = server.data.talks.slice(0, 2).map(teacher => teacher.teacherId);
+        const suggestions = await cvv.suggestTalks(teacherIds, new Date(2022, 10, 15), new Date(2022, 11, 15));
+        expect(suggestions.length).toBeGreaterThan(0);
+
+        for (const { slots } of suggestions) {
+            expect(slots.map(item => item.teacherId).sort()).toEqual([...teacherIds].sort());
+        }
+    });
+});
@@ -0,0 +1,128 @@
+const { Timetable, Rest, MockServer, MemorySessionStore } = require('../dist/index.js');
+
+let nextId = 1;
+const lesson = (evtDate, evtHPOS, subjectId, authorName, evtDuration = 1) => ({
+    evtId: nextId++,
+    evtDate,
+    evtCode: 'LSF0',
+    evtHPOS,
+    evtDuration,
+    classDesc: '3A',
+    authorName,
+    subjectId,
+    subjectCode: '',
+    subjectDesc: { 1: 'MATEMATICA', 2: 'FISICA', 3: 'INGLESE' }[subjectId],
+    lessonType: 'Lezione',
+    lessonArg: '',
+});
+
+// three Mondays and three Tuesdays of March 2023
+const mondays = ['2023-03-06', '2023-03-13', '2023-03-20'];
+const tuesdays = ['2023-03-07', '2023-03-14', '2023-03-21'];
+const lessons = [
+    ...mondays.map(date => lesson(date, 1, 1, 'ROSSI MARIO', 2)),
+    ...mondays.map(date => lesson(date, 3, 2, date === '2023-03-13' ? 'VERDI LUCA' : 'BIANCHI ANNA')),
+    ...mondays.map(date => lesson(date, 3, 2, 'NERI PAOLA')),
+    ...tuesdays.map(date => lesson(date, 1, date === '2023-03-21' ? 1 : 3, date === '2023-03-21' ? 'ROSSI MARIO' : 'GIALLI SARA')),
+    lesson('2023-03-14', 5, 2, 'BIANCHI ANNA'),
+];
+
+describe('Timetable', () => {
+    it('infers the weekly timetable', () => {
+        const timetable = Timetable.buildTimetable(lessons);
+        expect(timetable).toMatchObject({ from: '2023-03-06', to: '2023-03-21', weeks: 3 });
+        expect(timetable.slots.map(({ confidence, ...slot }) => slot)).toEqual([
+            { dayOfWeek: 1, hour: 1, duration: 2, subjectId: 1, subjectDesc: 'MATEMATICA', teachers: ['ROSSI MARIO'] },
+            { dayOfWeek: 1, hour: 3, duration: 1, subjectId: 2, subjectDesc: 'FISICA', teachers: ['NERI PAOLA', 'BIANCHI ANNA'] },
+            { dayOfWeek: 2, hour: 1, duration: 1, subjectId: 3, subjectDesc: 'INGLESE', teachers: ['GIALLI SARA'] },
+        ]);
+        expect(timetable.slots[2].confidence).toBeCloseTo(2 / 3);
+        expect(Timetable.buildTimetable(lessons, { minConfidence: 0.8 }).slots).toHaveLength(2);
+    });
+
+    it('finds the substitutions', () => {
+        const timetable = Timetable.buildTimetable(lessons);
+        const found = Timetable.substitutions(lessons, timetable).map(({ lesson, reason }) => [lesson.evtDate, lesson.evtHPOS, reason]);
+        expect(found).toEqual([
+            ['2023-03-13', 3, 'teacher'],
+            ['2023-03-21', 1, 'subject'],
+            ['2023-03-14', 5, 'extra'],
+        ]);
+    });
+
+    it('answers what comes next', () => {
+        const timetable = Timetable.buildTimetable(lessons);
+        expect(Timetable.tomorrow(timetable, new Date(2023, 4, 1)).map(slot => slot.subjectDesc)).toEqual(['INGLESE']);
+        expect(Timetable.lessonsOn(timetable, new Date(2023, 4, 3))).toEqual([]);
+
+        const next = Timetable.nextLesson(timetable, new Date(2023, 4, 1, 8, 30));
+        expect(next.slot.subjectDesc).toBe('FISICA');
+        expect(next.start).toEqual(new Date(2023, 4, 1, 10, 0));
+
+        // with Tuesday as a holiday the next lesson is the next Monday
+        const calendar = [{ dayDate: '2023-05-02', dayOfWeek: 2, status: 'HD' }];
+        const after = Timetable.nextLesson(timetable, new Date(2023, 4, 1, 12, 0), { calendar, hourStarts: ['08:10', '09:10'] });
+        expect([after.start, after.end]).toEqual([new Date(2023, 4, 8, 8, 10), new Date(2023, 4, 8, 10, 10)]);
+    });
+
+    it('exports JSON and iCalendar', () => {
+        const timetable = Timetable.buildTimetable(lessons);
+        expect(Object.keys(Timetable.byDay(timetable))).toEqual(['monday', 'tuesday']);
+
+        const ics = Timetable.timetableToICS(timetable, { from: new Date(2023, 8, 13), until: new Date(2023, 8, 30), stamp: new Date(0) });
+        expect(ics).toContain('UID:timetable-1-1@classeviva.js');
+        expect(ics).toContain('DTSTART:20230918T080000');
+        expect(ics).toContain('RRULE:FREQ=WEEKLY;COUNT=2');
+        expect(ics).toContain('DTSTART:20230919T080000');
+        expect(ics).toContain('SUMMARY:Inglese');
+        expect(Timetable.timetableToEvents(timetable)[0].recurrence).toBe('FREQ=WEEKLY');
+    });
+
+    it('counts the weeks across a daylight saving change', () => {
+        const timezone = process.env.TZ;
+        process.env.TZ = 'Europe/Rome';
+        try {
+            const timetable = Timetable.buildTimetable(lessons);
+            const [monday] = Timetable.timetableToEvents(timetable, { from: new Date(2023, 2, 20), until: new Date(2023, 3, 3) });
+            expect(monday.recurrence).toBe('FREQ=WEEKLY;COUNT=3');
+        } finally {
+            if (timezone === undefined) delete process.env.TZ;
+            else process.env.TZ = timezone;
+        }
+    });
+});
+
+describe('Rest timetable', () => {
+    let server;
+    let cvv;
+
+    beforeAll(async () => {
+        server = new MockServer({ seed: 24, today: new Date(2022, 10, 30) });
+        const baseUrl = await server.start();
+        const { username, password } = server.data;
+        cvv = new Rest({ username, password, baseUrl, sessionStore: new MemorySessionStore(), logger: false });
+        await cvv.login();
+    });
+
+    afterAll(() => {
+        cvv.logout();
+        server.stop();
+    });
+
+    it('builds the timetable from the lessons', async () => {
+        const range = { start: new Date(2022, 9, 3), end: new Date(2022, 10, 27) };
+        const timetable = await cvv.getTimetable(range);
+        const lessons = await cvv.getLessons(false, range);
+
+        expect(timetable.weeks).toBe(8);
+        for (const lesson of lessons) {
+            const day = new Date(`${lesson.evtDate}T00:00:00`).getDay();
+            expect(Timetable.slotAt(timetable, day, lesson.evtHPOS).subjectId).toBe(lesson.subjectId);
+        }
+        const teachers = new Map(server.data.subjects.map(subject => [subject.id, subject.teachers[0].teacherName]));
+        for (const { lesson, reason } of Timetable.substitutions(lessons, timetable)) {
+            expect(reason).toBe('teacher');
+            expect(lesson.authorName).not.toBe(teachers.get(lesson.subjectId));
+        }
+    });
+});
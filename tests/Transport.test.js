@@ -0,0 +1,59 @@
+const { join } = require('path');
+const { Rest, Web, NoopSessionStore, ReplayTransport, RecordingTransport, AuthenticationError } = require('../dist/index.js');
+
+const fixtures = join(__dirname, 'fixtures', 'transport.json');
+let transport;
+
+beforeEach(() => {
+    transport = ReplayTransport.fromFile(fixtures);
+});
+
+describe('Classeviva transports', () => {
+    it('replays REST responses', async () => {
+        const cvv = new Rest({ username: 'S1234567X', password: 'password', sessionStore: new NoopSessionStore(), logger: false, transport });
+
+        const user = await cvv.login();
+        expect(user.ident).toBe('S1234567X');
+        expect(cvv.authorized).toBe(true);
+
+        const grades = await cvv.getGrades();
+        expect(grades).toHaveLength(1);
+        expect(grades[0].decimalValue).toBe(7.5);
+
+        const homework = await cvv.getAgenda('homework', new Date(2022, 9, 3), new Date(2022, 9, 10));
+        expect(homework[0].notes).toBe('Esercizi pagina 42');
+
+        cvv.logout();
+    });
+
+    it('throws when the token is rejected again after logging in', async () => {
+        const cvv = new Rest({ username: 'S1234567X', password: 'password', sessionStore: new NoopSessionStore(), logger: false, transport });
+        await cvv.login();
+
+        await expect(cvv.getNotes()).rejects.toBeInstanceOf(AuthenticationError);
+        cvv.logout();
+    });
+
+    it('replays WEB responses', async () => {
+        const cvv = new Web({ cid: '', uid: 'S1234567X', pwd: 'password', pin: '', target: '' }, { logger: false, transport });
+
+        await expect(cvv.login()).resolves.toBe(true);
+        expect(cvv.user.nome).toBe('MARIO');
+
+        const messages = await cvv.getMessages();
+        expect(messages[0].msgSubject).toBe('Riunione');
+    });
+
+    it('records the exchanged requests', async () => {
+        const recorder = new RecordingTransport({ transport });
+        const cvv = new Rest({ username: 'S1234567X', password: 'password', sessionStore: new NoopSessionStore(), logger: false, transport: recorder });
+
+        await cvv.login();
+        await cvv.getGrades();
+        cvv.logout();
+
+        expect(recorder.fixtures.map(({ request }) => request.method)).toEqual(['POST', 'GET']);
+        expect(recorder.fixtures[1].response.status).toBe(200);
+        expect(JSON.parse(recorder.fixtures[1].response.body).grades).toHaveLength(1);
+    });
+});
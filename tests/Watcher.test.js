@@ -0,0 +1,117 @@
+const { Watcher, MemoryStore, JsonFileStore } = require('../dist/index.js');
+const { mkdtempSync, rmSync } = require('fs');
+const { tmpdir } = require('os');
+const { join } = require('path');
+
+const createClient = () => ({
+    username: 'S1234567',
+    grades: [{ evtId: 1, canceled: false }],
+    notes: { NTTE: [{ evtId: 10 }], NTCL: [], NTWN: [], NTST: [] },
+    noticeboard: [{ pubId: 100 }],
+    absences: [],
+    agenda: [{ evtId: 1000, evtCode: 'AGHW' }],
+    async getGrades() { return this.grades; },
+    async getNotes() { return this.notes; },
+    async getNoticeboard() { return this.noticeboard; },
+    async getAbsences() { return this.absences; },
+    async getAgenda() { return this.agenda; },
+});
+
+describe('Watcher', () => {
+    it('emits only what changed after the first poll', async () => {
+        const client = createClient();
+        const watcher = new Watcher(client, { logger: false });
+        const events = [];
+        ['newGrade', 'gradeCanceled', 'newNote', 'newNotice', 'newAbsence', 'homeworkAdded']
+        .forEach(name => watcher.on(name, item => events.push([name, item])));
+
+        await expect(watcher.poll()).resolves.toBe(0);
+
+        client.grades = [{ evtId: 1, canceled: true }, { evtId: 2, canceled: false }];
+        client.notes.NTCL.push({ evtId: 11 });
+        client.absences.push({ evtId: 50 });
+        client.agenda.push({ evtId: 1001, evtCode: 'AGHW' });
+
+        await expect(watcher.poll()).resolves.toBe(5);
+        expect(events.map(([name]) => name).sort()).toEqual(['gradeCanceled', 'homeworkAdded', 'newAbsence', 'newGrade', 'newNote']);
+
+        await expect(watcher.poll()).resolves.toBe(0);
+    });
+
+    it('does not forget items missing from a response', async () => {
+        const client = createClient();
+        const watcher = new Watcher(client, { sources: ['noticeboard'], logger: false });
+        const notices = jest.fn();
+        watcher.on('newNotice', notices);
+
+        await watcher.poll();
+        client.noticeboard = [];
+        await watcher.poll();
+        client.noticeboard = [{ pubId: 100 }, { pubId: 101 }];
+        await watcher.poll();
+
+        expect(notices).toHaveBeenCalledTimes(1);
+        expect(notices).toHaveBeenCalledWith({ pubId: 101 });
+    });
+
+    it('forgets the oldest missing ids when the snapshot is full', async () => {
+        const client = createClient();
+        const store = new MemoryStore();
+        const watcher = new Watcher(client, { sources: ['noticeboard'], store, snapshotSize: 3, logger: false });
+
+        for (const pubId of [101, 102, 103, 104]) {
+            client.noticeboard = [{ pubId }];
+            await watcher.poll();
+        }
+
+        expect(Object.keys(await store.get('S1234567:noticeboard'))).toEqual(['102', '103', '104']);
+    });
+
+    it('keeps the snapshots across instances with a persistent store', async () => {
+        const directory = mkdtempSync(join(tmpdir(), 'cvv-watcher-'));
+        const path = join(directory, 'snapshots.json');
+        const client = createClient();
+
+        try {
+            await new Watcher(client, { store: new JsonFileStore({ path }), logger: false }).poll();
+            client.grades.push({ evtId: 2, canceled: false });
+
+            const watcher = new Watcher(client, { store: new JsonFileStore({ path }), logger: false });
+            const grades = jest.fn();
+            watcher.on('newGrade', grades);
+            await watcher.poll();
+
+            expect(grades).toHaveBeenCalledTimes(1);
+        } finally {
+            rmSync(directory, { recursive: true, force: true });
+        }
+    });
+
+    it('emits poll failures as errors', async () => {
+        const client = createClient();
+        client.getGrades = async () => { throw new Error('offline'); };
+        const watcher = new Watcher(client, { sources: ['grades'], store: new MemoryStore(), emitInitial: true });
+        const errors = jest.fn();
+        watcher.on('error', errors);
+
+        await expect(watcher.poll()).resolves.toBe(0);
+        expect(errors).toHaveBeenCalledWith(expect.objectContaining({ message: 'offline' }), 'grades');
+    });
+
+    it('polls at the configured intervals until stopped', async () => {
+        const client = createClient();
+        const watcher = new Watcher(client, { interval: 10000, intervals: { grades: 40 }, logger: false });
+        const spy = jest.spyOn(client, 'getGrades');
+
+        await watcher.start();
+        expect(watcher.running).toBe(true);
+        await new Promise(resolve => setTimeout(resolve, 100));
+        expect(spy.mock.calls.length).toBeGreaterThan(1);
+
+        watcher.stop();
+        const calls = spy.mock.calls.length;
+        await new Promise(resolve => setTimeout(resolve, 100));
+        expect(spy).toHaveBeenCalledTimes(calls);
+        expect(watcher.running).toBe(false);
+    });
+});
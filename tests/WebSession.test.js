@@ -0,0 +1,108 @@
+const { Web, MockServer, CookieJar, defaultTransport } = require('../dist/index.js');
+const { Response } = require('node-fetch');
+
+let server;
+let baseUrl;
+let credentials;
+
+beforeAll(async () => {
+    server = new MockServer({ seed: 13, today: new Date(2022, 10, 15) });
+    baseUrl = await server.start();
+    credentials = { cid: '', uid: server.data.username, pwd: server.data.password, pin: '', target: '' };
+});
+
+afterAll(() => server.stop());
+
+describe('Web session', () => {
+    it('keeps every cookie and drops the expired ones', () => {
+        const now = new Date();
+        const jar = new CookieJar();
+        jar.setCookies([
+            'webrole=gen; path=/',
+            'PHPSESSID=abc; path=/; HttpOnly',
+            'old=1; Expires=Mon, 14 Nov 2022 10:00:00 GMT',
+            'short=1; Max-Age=60; Expires=Mon, 14 Nov 2022 10:00:00 GMT',
+            'gone=1; Max-Age=0',
+        ], now);
+
+        expect(jar.get('old')).toBeUndefined();
+        expect(jar.toJSON().find(cookie => cookie.name === 'short').expires).toBe(new Date(now.getTime() + 60000).toISOString());
+        expect(jar.header()).toBe('webrole=gen; PHPSESSID=abc; short=1');
+
+        jar.setCookies(['PHPSESSID=; Max-Age=0']);
+        expect(jar.get('PHPSESSID')).toBeUndefined();
+        expect(new CookieJar(jar.toJSON()).header()).toBe('webrole=gen; short=1');
+    });
+
+    it('keeps cookies with the same name on other paths and domains apart', () => {
+        const jar = new CookieJar();
+        jar.setCookies([
+            'PHPSESSID=root; Path=/',
+            'PHPSESSID=home; Path=/home',
+            'theme=dark; Domain=.spaggiari.eu',
+            'theme=light; Domain=other.eu',
+        ]);
+
+        expect(jar.size).toBe(4);
+        expect(jar.header('/home/x', 'web.spaggiari.eu')).toBe('PHPSESSID=home; PHPSESSID=root; theme=dark');
+        expect(jar.header('/homework', 'web.spaggiari.eu')).toBe('PHPSESSID=root; theme=dark');
+
+        jar.setCookies(['PHPSESSID=; Path=/home; Max-Age=0']);
+        expect(jar.header('/home')).toBe('PHPSESSID=root; theme=dark; theme=light');
+        expect(new CookieJar(jar.toJSON()).size).toBe(3);
+    });
+
+    it('logs in again when the session expires', async () => {
+        const web = new Web(credentials, { baseUrl, logger: false });
+        const logins = jest.fn();
+        web.on('login', logins);
+
+        await web.login();
+        server.expireSessions();
+
+        await expect(web.getUnreadMessages()).resolves.toBe(server.data.messages.filter(message => !message.read).length);
+        expect(logins).toHaveBeenCalledTimes(2);
+        expect(web.authorized).toBe(true);
+    });
+
+    it('follows redirects sending the cookies of each path', async () => {
+        const requests = [];
+        const transport = {
+            fetch: (url, init) => {
+                requests.push({ url, cookie: init.headers.Cookie });
+                if (!url.includes('pubblicazioni.php')) return defaultTransport.fetch(url, init);
+                return Promise.resolve(new Response('', { status: 302, headers: { Location: '/tools/app/default/get_username.php', 'Set-Cookie': 'documento=1; Path=/sol' } }));
+            },
+        };
+        const web = new Web(credentials, { baseUrl, transport, logger: false });
+        await web.login();
+
+        await expect(web.getDocumentUrl('abc')).resolves.toMatchObject({ username: server.data.ident });
+        const [document, redirected] = requests.slice(-2);
+        expect(document.url).toContain('/sol/app/default/pubblicazioni.php?');
+        expect(redirected.url).toBe(`${baseUrl}/tools/app/default/get_username.php`);
+        expect(redirected.cookie).toContain('PHPSESSID=');
+        expect(redirected.cookie).not.toContain('documento=1');
+    });
+
+    it('restores exported sessions and rejects when they expire without credentials', async () => {
+        const web = new Web(credentials, { baseUrl, logger: false });
+        await web.login();
+        const session = web.exportSession();
+
+        const restored = new Web(undefined, { baseUrl, logger: false });
+        expect(restored.importSession(JSON.parse(JSON.stringify(session)))).toBe(true);
+        expect(restored.user).toEqual(web.user);
+        await expect(restored.checkSession()).resolves.toBe(true);
+        await expect(restored.getUsername()).resolves.toMatchObject({ username: server.data.ident });
+
+        server.expireSessions();
+        const logout = jest.fn();
+        restored.on('logout', logout);
+
+        await expect(restored.getUsername()).rejects.toBe('Session expired');
+        expect(restored.authorized).toBe(false);
+        expect(logout).toHaveBeenCalledTimes(1);
+        await expect(web.checkSession()).resolves.toBe(false);
+    });
+});